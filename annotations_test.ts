@@ -0,0 +1,114 @@
+import { transpile, TranspileError } from './transpiler';
+import { formatDiagnostic } from './diagnostics';
+
+console.log('=== Testing Type Annotations ===\n');
+
+function show(code: string) {
+  console.log('Input:');
+  console.log(code);
+  console.log('Output:');
+  try {
+    console.log(transpile(code));
+  } catch (error) {
+    if (!(error instanceof TranspileError)) throw error;
+    error.diagnostics.forEach(diagnostic => console.log(formatDiagnostic(diagnostic)));
+  }
+  console.log('---\n');
+}
+
+// Test 1: Annotated vars
+console.log('Test 1: Vars');
+show(`
+var speed: number = 3
+var name: string = "Wisp"
+var alive: bool = true
+var path: list<number> = []
+var grid: list<list<number>> = [[1, 2]]
+var origin: {x: number, y: number} = {x: 0, y: 0}
+var anything: any = 1
+anything = "one"
+`);
+
+// Test 2: Annotated functions
+console.log('Test 2: Functions');
+show(`
+func move(dx: number, dy: number): void
+  sprite.x += dx
+  sprite.y += dy
+end
+func label(score: number): string
+  return "Score: " + score
+end
+func pick(items: list<string>, i)
+  return items[i]
+end
+move(1, 2)
+`);
+
+// Test 3: Mismatches are reported
+console.log('Test 3: Type errors');
+show(`
+var speed: number = "fast"
+speed = true
+var names: list<string> = [1, 2]
+names[0] = 3
+var scores: list<number> = [1, "a"]
+var player: {name: string, tags: list<string>} = {name: "Wisp", tags: ["a", 2]}
+var origin: {x: number, y: number} = {x: 0}
+var point: {x: number} = {x: 1}
+point.x = "left"
+point.z = 2
+func move(dx: number): void
+  return dx
+end
+move("up")
+`);
+
+// Test 4: Return checks
+console.log('Test 4: Returns');
+show(`
+func half(n: number): number
+  if (n > 0)
+    return n / 2
+  end
+end
+func name(): string
+  return
+end
+func count(): number
+  return "three"
+end
+`);
+
+// Test 5: Unknown types
+console.log('Test 5: Unknown types');
+show(`
+var a: int = 1
+var b: void = 2
+func f(x: float): void
+end
+`);
+
+// Test 6: Type modes, from every inferred type down to plain JavaScript
+console.log('Test 6: Type modes');
+const modes = `
+var speed: number = 3
+var name = "Wisp"
+func move(dx): number
+  wait(1)
+  return dx * speed
+end
+class Enemy
+  var hp = 3
+  func hit(n)
+    self.dead = true
+  end
+end
+var double = (x: number) => x * 2
+`;
+for (const types of ['inferred', 'annotated', 'none'] as const) {
+  console.log(`${types}:`);
+  console.log(transpile(modes, { types }));
+  console.log();
+}
+console.log('---\n');
@@ -0,0 +1,196 @@
+import { randomUUID } from 'crypto';
+import { transpile, analyze, TranspileError, TranspileOptions } from './transpiler';
+import { IncrementalTranspiler, TextChange } from './incremental';
+import { format } from './formatter';
+import { TypeMode } from './generator';
+import { Bindings, SPRITE_ENGINE } from './bindings';
+import { Diagnostic } from './diagnostics';
+
+/**
+ * The work behind the playground server's /api/v1 endpoints, kept apart
+ * from HTTP so it can run in a worker thread that's stopped when a compile
+ * takes too long.
+ */
+
+export type Endpoint = 'transpile' | 'check' | 'format';
+
+export const ENDPOINTS: readonly Endpoint[] = ['transpile', 'check', 'format'];
+
+// What the server's worker is asked to do: an endpoint's work, or to start
+// a live session (id null) or edit one
+export type ApiRequest =
+  | { endpoint: Endpoint; body: unknown }
+  | { endpoint: 'sessions'; id: string | null; body: unknown };
+
+// Engines a script can be compiled for, by the name clients pass as `target`
+export const TARGETS: Record<string, Bindings> = {
+  sprite: SPRITE_ENGINE
+};
+
+const TYPE_MODES: readonly TypeMode[] = ['inferred', 'annotated', 'none'];
+
+export interface ApiResponse {
+  status: number;
+  body: object;
+}
+
+/**
+ * A request the API can't act on, answered with its status code
+ */
+export class RequestError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'RequestError';
+  }
+}
+
+// Options for every endpoint, with the type each must have. Not every
+// endpoint uses all of them, but none rejects what another accepts.
+const OPTIONS: Record<string, 'boolean' | 'string'> = {
+  optimize: 'boolean',
+  sourceMap: 'boolean',
+  fileName: 'string',
+  target: 'string',
+  types: 'string',
+  indent: 'string'
+};
+
+/**
+ * Checks a request body is `{ source, options? }` with known options
+ * @throws RequestError describing the first problem found
+ */
+export function parseRequest(body: unknown): { source: string; options: Record<string, unknown> } {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new RequestError('Expected a JSON object.');
+  }
+  const { source, options = {} } = body as { source?: unknown; options?: unknown };
+  if (typeof source !== 'string') {
+    throw new RequestError("Expected 'source' to be a string.");
+  }
+  if (typeof options !== 'object' || options === null || Array.isArray(options)) {
+    throw new RequestError("Expected 'options' to be an object.");
+  }
+  for (const [name, value] of Object.entries(options)) {
+    if (!Object.prototype.hasOwnProperty.call(OPTIONS, name)) {
+      throw new RequestError(`Unknown option '${name}'.`);
+    }
+    if (typeof value !== OPTIONS[name]) {
+      throw new RequestError(`Expected option '${name}' to be a ${OPTIONS[name]}.`);
+    }
+  }
+  return { source, options: options as Record<string, unknown> };
+}
+
+/**
+ * Turns the options of a request into transpiler options
+ * @throws RequestError for an unknown target or type mode
+ */
+export function transpileOptions(options: Record<string, unknown>): TranspileOptions {
+  const target = (options.target ?? 'sprite') as string;
+  if (!Object.prototype.hasOwnProperty.call(TARGETS, target)) {
+    throw new RequestError(`Unknown target '${target}'. Expected one of: ${Object.keys(TARGETS).join(', ')}.`);
+  }
+  const types = (options.types ?? 'inferred') as TypeMode;
+  if (!TYPE_MODES.includes(types)) {
+    throw new RequestError(`Unknown type mode '${types}'. Expected one of: ${TYPE_MODES.join(', ')}.`);
+  }
+  return {
+    bindings: TARGETS[target],
+    types,
+    optimize: options.optimize as boolean | undefined,
+    sourceMap: options.sourceMap as boolean | undefined,
+    fileName: options.fileName as string | undefined
+  };
+}
+
+// Checks the edits sent to a live session
+function parseChanges(body: unknown): TextChange[] {
+  const changes = (body as { changes?: unknown } | null)?.changes;
+  if (!Array.isArray(changes)) {
+    throw new RequestError("Expected 'changes' to be a list.");
+  }
+  for (const change of changes) {
+    if (typeof change?.start !== 'number' || typeof change.end !== 'number' || typeof change.text !== 'string') {
+      throw new RequestError('Expected each change to be { start, end, text }.');
+    }
+  }
+  return changes;
+}
+
+// Live sessions from the playground, which send each edit as it's typed.
+// Only the most recently used are kept, and all are lost when a compile
+// runs too long and the worker is stopped; a client whose session is gone
+// starts a new one.
+const MAX_SESSIONS = 20;
+const sessions = new Map<string, IncrementalTranspiler>();
+
+function session(id: string | null, body: unknown): ApiResponse {
+  // Start one with the whole source
+  if (id === null) {
+    const { source, options } = parseRequest(body);
+    for (const name of ['sourceMap', 'fileName']) {
+      if (name in options) throw new RequestError(`Option '${name}' isn't supported for sessions.`);
+    }
+    const { bindings, optimize, types } = transpileOptions(options);
+    const transpiler = new IncrementalTranspiler(source, { bindings, optimize, types });
+    const newId = randomUUID();
+    sessions.set(newId, transpiler);
+    if (sessions.size > MAX_SESSIONS) sessions.delete(sessions.keys().next().value!);
+    return { status: 200, body: { id: newId, code: transpiler.code, diagnostics: transpiler.diagnostics } };
+  }
+
+  // Apply edits to one: { changes: [{ start, end, text }] }
+  const transpiler = sessions.get(id);
+  if (!transpiler) {
+    throw new RequestError('Unknown session.', 404);
+  }
+  // Most recently used last, so the oldest are dropped first
+  sessions.delete(id);
+  sessions.set(id, transpiler);
+  try {
+    // Just the part of the code that changed, not all of it
+    const { change, diagnostics, stats } = transpiler.edit(...parseChanges(body));
+    return { status: 200, body: { change, diagnostics, stats } };
+  } catch (error) {
+    // An edit outside the source
+    if (error instanceof RangeError) throw new RequestError(error.message);
+    throw error;
+  }
+}
+
+/**
+ * Answers a request to one of the endpoints. Scripts with errors get 422
+ * and their diagnostics; requests that aren't understood get 400.
+ */
+export function handle(request: ApiRequest): ApiResponse {
+  try {
+    if (request.endpoint === 'sessions') {
+      return session(request.id, request.body);
+    }
+    const { source, options } = parseRequest(request.body);
+    switch (request.endpoint) {
+      case 'transpile': {
+        const result = transpile(source, transpileOptions(options));
+        return { status: 200, body: typeof result === 'string' ? { code: result } : result };
+      }
+      case 'check':
+        analyze(source, transpileOptions(options));
+        return { status: 200, body: { diagnostics: [] as Diagnostic[] } };
+      case 'format': {
+        const indent = options.indent as string | undefined;
+        if (indent !== undefined && !/^( +|\t+)$/.test(indent)) {
+          throw new RequestError("Expected option 'indent' to be spaces or tabs.");
+        }
+        return { status: 200, body: { code: format(source, { indent }) } };
+      }
+    }
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return { status: error.status, body: { error: error.message } };
+    }
+    if (error instanceof TranspileError) {
+      return { status: 422, body: { error: error.message, diagnostics: error.diagnostics } };
+    }
+    throw error;
+  }
+}
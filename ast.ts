@@ -20,6 +20,13 @@ export interface ExprVisitor<R> {
   visitAssignExpr(expr: Assign): R;
   visitSetExpr(expr: Set): R;
   visitLogicalExpr(expr: Logical): R;
+  visitIndexExpr(expr: Index): R;
+  visitIndexSetExpr(expr: IndexSet): R;
+  visitTemplateExpr(expr: Template): R;
+  visitLambdaExpr(expr: Lambda): R;
+  visitNewExpr(expr: New): R;
+  visitSelfExpr(expr: Self): R;
+  visitSuperExpr(expr: Super): R;
 }
 
 export interface StmtVisitor<R> {
@@ -32,6 +39,12 @@ export interface StmtVisitor<R> {
   visitWhileStmt(stmt: While): R;
   visitForStmt(stmt: For): R;
   visitForInStmt(stmt: ForIn): R;
+  visitBreakStmt(stmt: Break): R;
+  visitContinueStmt(stmt: Continue): R;
+  visitImportStmt(stmt: Import): R;
+  visitExportStmt(stmt: Export): R;
+  visitClassStmt(stmt: Class): R;
+  visitOnStmt(stmt: On): R;
 }
 
 // Expression classes
@@ -98,7 +111,14 @@ export class Assign implements Expr {
 
 export class Set implements Expr {
   constructor(public object: Expr, public name: Token, public value: Expr) {}
-  
+
+  // The object.x + v of object.x += v or object.x++, which the parser builds
+  // from this object.x. Its object is only evaluated once.
+  get compound(): Binary | null {
+    const value = this.value;
+    return value instanceof Binary && value.left instanceof Get && value.left.name === this.name ? value : null;
+  }
+
   accept<R>(visitor: ExprVisitor<R>): R {
     return visitor.visitSetExpr(this);
   }
@@ -132,11 +152,145 @@ export class Logical extends Expr {
   }
 }
 
+// list[i] or object[key]
+export class Index extends Expr {
+  constructor(
+    public object: Expr,
+    public bracket: Token,
+    public index: Expr
+  ) {
+    super();
+  }
+
+  accept<R>(visitor: ExprVisitor<R>): R {
+    return visitor.visitIndexExpr(this);
+  }
+}
+
+// list[i] = value
+export class IndexSet extends Expr {
+  constructor(
+    public object: Expr,
+    public bracket: Token,
+    public index: Expr,
+    public value: Expr
+  ) {
+    super();
+  }
+
+  // The list[i] + v of list[i] += v or list[i]++, which the parser builds
+  // from this list[i]. Its list and i are only evaluated once.
+  get compound(): Binary | null {
+    const value = this.value;
+    return value instanceof Binary && value.left instanceof Index && value.left.bracket === this.bracket ? value : null;
+  }
+
+  accept<R>(visitor: ExprVisitor<R>): R {
+    return visitor.visitIndexSetExpr(this);
+  }
+}
+
+// "Score: {score}". There's one more string than expressions, which go
+// between the strings.
+export class Template extends Expr {
+  constructor(
+    // The INTERPOLATION token the string starts with
+    public start: Token,
+    public strings: string[],
+    public expressions: Expr[]
+  ) {
+    super();
+  }
+
+  accept<R>(visitor: ExprVisitor<R>): R {
+    return visitor.visitTemplateExpr(this);
+  }
+}
+
+// func (a, b) return a < b end, or (a) => a * 2. An arrow function's body
+// is a single Return of its expression.
+export class Lambda extends Expr {
+  constructor(
+    // The 'func' keyword, or the first token of an arrow function
+    public start: Token,
+    public params: Token[],
+    public body: Stmt[],
+    // One entry per parameter, null where it isn't annotated
+    public paramTypes: (TypeAnnotation | null)[] = [],
+    public returnType: TypeAnnotation | null = null
+  ) {
+    super();
+  }
+
+  accept<R>(visitor: ExprVisitor<R>): R {
+    return visitor.visitLambdaExpr(this);
+  }
+}
+
+// new Enemy(x, y)
+export class New extends Expr {
+  constructor(
+    public keyword: Token,
+    public callee: Expr,
+    public paren: Token,
+    public args: Expr[]
+  ) {
+    super();
+  }
+
+  accept<R>(visitor: ExprVisitor<R>): R {
+    return visitor.visitNewExpr(this);
+  }
+}
+
+// The instance a method or field initializer runs on
+export class Self extends Expr {
+  constructor(public keyword: Token) {
+    super();
+  }
+
+  accept<R>(visitor: ExprVisitor<R>): R {
+    return visitor.visitSelfExpr(this);
+  }
+}
+
+// super.method, looked up on the superclass of the class it's written in.
+// Calling super.init runs the superclass's constructor.
+export class Super extends Expr {
+  constructor(public keyword: Token, public method: Token) {
+    super();
+  }
+
+  accept<R>(visitor: ExprVisitor<R>): R {
+    return visitor.visitSuperExpr(this);
+  }
+}
+
+// Type annotations, e.g. the `list<number>` in `var xs: list<number> = []`
+export type TypeAnnotation = NamedType | ListType | ObjectType;
+
+// number, string, bool, any or void
+export class NamedType {
+  constructor(public name: Token) {}
+}
+
+export class ListType {
+  constructor(public keyword: Token, public element: TypeAnnotation) {}
+}
+
+export class ObjectType {
+  constructor(
+    public brace: Token,
+    public fields: { name: Token; type: TypeAnnotation }[]
+  ) {}
+}
+
 // Statement classes
 export class Var extends Stmt {
   constructor(
     public name: Token,
-    public initializer: Expr
+    public initializer: Expr,
+    public type: TypeAnnotation | null = null
   ) {
     super();
   }
@@ -157,7 +311,7 @@ export class Expression extends Stmt {
 }
 
 export class Print extends Stmt {
-  constructor(public expression: Expr) {
+  constructor(public keyword: Token, public expression: Expr) {
     super();
   }
 
@@ -170,7 +324,10 @@ export class Function extends Stmt {
   constructor(
     public name: Token,
     public params: Token[],
-    public body: Stmt[]
+    public body: Stmt[],
+    // One entry per parameter, null where it isn't annotated
+    public paramTypes: (TypeAnnotation | null)[] = [],
+    public returnType: TypeAnnotation | null = null
   ) {
     super();
   }
@@ -247,3 +404,84 @@ export class ForIn extends Stmt {
     return visitor.visitForInStmt(this);
   }
 }
+
+
+export class Break extends Stmt {
+  constructor(public keyword: Token) {
+    super();
+  }
+
+  accept<R>(visitor: StmtVisitor<R>): R {
+    return visitor.visitBreakStmt(this);
+  }
+}
+
+export class Continue extends Stmt {
+  constructor(public keyword: Token) {
+    super();
+  }
+
+  accept<R>(visitor: StmtVisitor<R>): R {
+    return visitor.visitContinueStmt(this);
+  }
+}
+
+// import { a, b } from "./helpers"
+export class Import extends Stmt {
+  constructor(
+    public keyword: Token,
+    public names: Token[],
+    // The STRING token, so errors about the module can point at it
+    public path: Token
+  ) {
+    super();
+  }
+
+  accept<R>(visitor: StmtVisitor<R>): R {
+    return visitor.visitImportStmt(this);
+  }
+}
+
+// export func ... end, export var ... or export class ... end
+export class Export extends Stmt {
+  constructor(public keyword: Token, public declaration: Var | Function | Class) {
+    super();
+  }
+
+  accept<R>(visitor: StmtVisitor<R>): R {
+    return visitor.visitExportStmt(this);
+  }
+}
+
+// class Name < Superclass ... end. A method named init is the constructor.
+export class Class extends Stmt {
+  constructor(
+    public name: Token,
+    public superclass: Variable | null,
+    public fields: Var[],
+    public methods: Function[]
+  ) {
+    super();
+  }
+
+  accept<R>(visitor: StmtVisitor<R>): R {
+    return visitor.visitClassStmt(this);
+  }
+}
+
+// on message("game_over") ... end. The body becomes a function the engine
+// calls when the event happens.
+export class On extends Stmt {
+  constructor(
+    public keyword: Token,
+    public event: Token,
+    public args: Expr[],
+    public body: Stmt[]
+  ) {
+    super();
+  }
+
+  accept<R>(visitor: StmtVisitor<R>): R {
+    return visitor.visitOnStmt(this);
+  }
+}
@@ -0,0 +1,138 @@
+import { transpile, TranspileError } from './transpiler';
+import { run, ObjectHost } from './interpreter';
+import { formatDiagnostic } from './diagnostics';
+
+console.log('=== Testing Async ===\n');
+
+// A host whose waits return right away, logging a simulated clock
+function host() {
+  let time = 0;
+  const sprite = { y: 0 };
+  return new ObjectHost({
+    sprite,
+    wait: (seconds: number) => {
+      time += seconds;
+      console.log(`[waited until ${time}s]`);
+    },
+    waitUntil: (condition: () => boolean) => {
+      while (!condition()) {
+        time += 1;
+        sprite.y += 1;
+      }
+      console.log(`[condition true at ${time}s]`);
+    },
+    ask: (question: string) => {
+      console.log(`[asked ${question}]`);
+      return 'Wisp';
+    },
+    forever: (callback: () => void) => callback(),
+    onStart: (handler: () => void) => handler()
+  });
+}
+
+function show(code: string) {
+  console.log('Input:');
+  console.log(code);
+  console.log('Output:');
+  try {
+    console.log(transpile(code));
+    console.log('Runs as:');
+    run(code, host());
+  } catch (error) {
+    if (!(error instanceof TranspileError)) throw error;
+    error.diagnostics.forEach(diagnostic => console.log(formatDiagnostic(diagnostic)));
+  }
+  console.log('---\n');
+}
+
+// Test 1: Hooks and handlers are async, and waits in them are awaited
+console.log('Test 1: Waiting in hooks');
+show(`
+func _forever()
+  print("tick")
+  wait(2)
+  print("tock")
+end
+
+on start
+  var name = ask("What's your name?")
+  print("Hello, {name}")
+end
+`);
+
+// Test 2: Functions that wait, directly or through other functions, are
+// async and awaited wherever they're called
+console.log('Test 2: Async functions');
+show(`
+func pause()
+  wait(1)
+end
+
+func countdown(from)
+  for (var i = from; i > 0; i--)
+    print(i)
+    pause()
+  end
+  return "liftoff"
+end
+
+func add(a, b)
+  return a + b
+end
+
+print(countdown(2))
+print(add(1, 2))
+`);
+
+// Test 3: wait_until checks its condition again until it holds, and lambdas
+// and methods that wait are async too
+console.log('Test 3: Conditions, lambdas and methods');
+show(`
+var fall = () => wait_until(sprite.y < 0)
+
+class Player
+  func jump()
+    self.land()
+    print("jumped")
+  end
+
+  func land()
+    wait(0.5)
+  end
+end
+
+wait_until(sprite.y > 3)
+print(sprite.y)
+`);
+
+// Test 4: In async code, calls on instances and through vars are awaited,
+// since they may wait
+console.log('Test 4: Calls through values');
+show(`
+class Walker
+  func walk()
+    wait(1)
+    print("walked")
+  end
+end
+
+var w = new Walker()
+var step = () => wait(2)
+var names = ["a", "b"]
+
+func _forever()
+  w.walk()
+  step()
+  print(names.join(", "))
+end
+`);
+
+// Test 5: Constructors can't be async
+console.log('Test 5: Errors');
+show(`
+class Door
+  func init()
+    wait(1)
+  end
+end
+`);
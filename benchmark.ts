@@ -0,0 +1,105 @@
+import { transpile } from './transpiler';
+import { IncrementalTranspiler, TextChange, IncrementalStats } from './incremental';
+
+/**
+ * Times live transpiling of a 10,000 line script: a full transpile against
+ * incremental edits made a keystroke at a time. Run with `npm run benchmark`.
+ */
+
+const LINES = 10000;
+
+// A level script made of many similar waves of enemies
+const parts: string[] = [];
+let lines = 0;
+for (let i = 0; lines < LINES; i++) {
+  const part = `// Enemy wave ${i}
+var wave_${i}_count = ${i % 7 + 1}
+var wave_${i}_speed = wave_${i}_count * 1.5
+
+class Enemy${i}
+  var hp = ${i % 5 + 1}
+  func hit(damage)
+    self.hp -= damage
+    return self.hp <= 0
+  end
+end
+
+func spawn_wave_${i}(x, y)
+  var enemies = []
+  for (var j = 0; j < wave_${i}_count; j++)
+    var enemy = {x: x + j * 10, y: y, speed: wave_${i}_speed}
+    enemies.push(enemy)
+  end
+  if (enemies.length > 3)
+    print("Big wave ${i}: {enemies.length}")
+  end
+  return enemies
+end
+`;
+  parts.push(part);
+  lines += part.split('\n').length - 1;
+}
+const source = parts.join('');
+
+function time<T>(run: () => T): { result: T; ms: number } {
+  const start = performance.now();
+  const result = run();
+  return { result, ms: performance.now() - start };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+console.log(`=== Incremental transpiling of ${source.split('\n').length} lines ===\n`);
+
+// Types text one character at a time at an offset
+function typeAt(session: IncrementalTranspiler, offset: number, text: string): Run {
+  const run: Run = { times: [], stats: [] };
+  for (let i = 0; i < text.length; i++) {
+    const change: TextChange = { start: offset + i, end: offset + i, text: text[i] };
+    const { ms, result } = time(() => session.edit(change));
+    run.times.push(ms);
+    run.stats.push(result.stats);
+  }
+  return run;
+}
+
+interface Run {
+  times: number[];
+  stats: IncrementalStats[];
+}
+
+// Edits like someone working on the script would make
+function scenario(session: IncrementalTranspiler): Array<[string, Run]> {
+  const middle = session.source.indexOf('func spawn_wave_300(');
+  const runs: Array<[string, Run]> = [
+    ['Typing a line into a function in the middle', typeAt(session, session.source.indexOf('\n', middle) + 1, '  print(x + y)\n')],
+    ['Typing a comment at the top', typeAt(session, 0, '// Level 3, the castle\n')],
+    ['Typing a new statement at the end', typeAt(session, session.source.length, 'var boss_hp = 500\n')]
+  ];
+  // Changes what other statements compile to, since the optimizer inlines it
+  const constant = session.source.indexOf('var wave_0_count = 1') + 'var wave_0_count = '.length;
+  const { ms, result } = time(() => session.edit({ start: constant, end: constant + 1, text: '9' }));
+  runs.push(['Changing a constant other statements use', { times: [ms], stats: [result.stats] }]);
+  return runs;
+}
+
+// Warm up the JIT the way a long running playground server would be
+transpile(source);
+for (let i = 0; i < 3; i++) scenario(new IncrementalTranspiler(source));
+
+const full = Math.min(...[1, 2, 3].map(() => time(() => transpile(source)).ms));
+console.log(`Full transpile: ${full.toFixed(1)} ms`);
+const setup = time(() => new IncrementalTranspiler(source));
+console.log(`First incremental transpile: ${setup.ms.toFixed(1)} ms\n`);
+
+for (const [label, run] of scenario(setup.result)) {
+  const last = run.stats[run.stats.length - 1];
+  console.log(`${label}:`);
+  console.log(`  ${run.times.length} edits, median ${median(run.times).toFixed(1)} ms, slowest ${Math.max(...run.times).toFixed(1)} ms`);
+  console.log(`  last edit: ${last.relexedTokens} tokens scanned, ${last.reparsedStatements}/${last.statements} statements parsed, ${last.regeneratedStatements} generated`);
+}
+
+console.log(`\nSame code as a full transpile: ${setup.result.code === transpile(setup.result.source)}`);
@@ -0,0 +1,253 @@
+import { Call, Expr, Function, Literal, On } from './ast';
+import { WispType } from './types';
+
+/**
+ * How many arguments a function binding takes, or how many parameters a hook
+ * function can declare: an exact count, or [min, max] where max can be Infinity
+ */
+export type Arity = number | [number, number];
+
+// What the interpreter gives a binding's run callback to reach the host with.
+// Failures are reported as RuntimeErrors at the call.
+export interface RunContext {
+  // A name the script declares or the host provides
+  lookup(name: string): unknown;
+  getProperty(object: unknown, name: string): unknown;
+  call(fn: unknown, args: unknown[]): unknown;
+  callMethod(object: unknown, name: string, args: unknown[]): unknown;
+}
+
+/**
+ * A built-in function like `floor(x)`, compiled to whatever the engine
+ * calls it.
+ */
+export interface FunctionBinding {
+  arity: Arity;
+  // A template where $0, $1, ... are the generated arguments and $* is all
+  // of them, or a callback for what a template can't express
+  emit: string | ((args: string[], call: Call) => string);
+  // What the interpreter does for the call. Without it, the call goes to
+  // whatever the name refers to, usually a function the host provides.
+  run?: (args: unknown[], call: Call, context: RunContext) => unknown;
+  // The result's type, for inference. Defaults to any.
+  returns?: WispType;
+  // Whether the call pauses the script, like wait(seconds). Generated code
+  // awaits it, and every function that calls it becomes async.
+  suspends?: boolean;
+  // Whether run gets its arguments as functions that evaluate them, for
+  // arguments the engine checks repeatedly, like wait_until's condition
+  lazy?: boolean;
+}
+
+/**
+ * A lifecycle hook: a function declared with this name is handed to the
+ * engine instead of being declared, e.g. `func _forever() ... end`.
+ */
+export interface HookBinding {
+  arity: Arity;
+  // A template where $0 is the function as an arrow function, or a callback
+  emit: string | ((callback: string, fn: Function) => string);
+  // What the interpreter does with the function when the declaration runs
+  run: (callback: (...args: unknown[]) => unknown, context: RunContext) => void;
+}
+
+/**
+ * An event a handler can be registered for with `on`, e.g.
+ * `on message("game_over") ... end`.
+ */
+export interface EventBinding {
+  // What goes in the parentheses after the event name. Types are checked
+  // when they can be inferred; names are used in error messages.
+  args: Array<{ name: string; type: WispType }>;
+  // A template where $0, $1, ... are the generated arguments followed by the
+  // handler as an arrow function, or a callback
+  emit: string | ((args: string[], handler: string, on: On) => string);
+  // What the interpreter does to register the handler when the statement runs
+  run: (args: unknown[], handler: () => unknown, on: On, context: RunContext) => void;
+}
+
+export interface Bindings {
+  functions: Record<string, FunctionBinding>;
+  hooks: Record<string, HookBinding>;
+  events: Record<string, EventBinding>;
+  // Properties and methods of the host's globals, like sprite.x, for editors
+  // to suggest. Nothing is checked against them.
+  members?: Record<string, string[]>;
+}
+
+export function functionBinding(bindings: Bindings, name: string): FunctionBinding | null {
+  return Object.prototype.hasOwnProperty.call(bindings.functions, name) ? bindings.functions[name] : null;
+}
+
+export function hookBinding(bindings: Bindings, name: string): HookBinding | null {
+  return Object.prototype.hasOwnProperty.call(bindings.hooks, name) ? bindings.hooks[name] : null;
+}
+
+export function eventBinding(bindings: Bindings, name: string): EventBinding | null {
+  return Object.prototype.hasOwnProperty.call(bindings.events, name) ? bindings.events[name] : null;
+}
+
+export function acceptsCount(arity: Arity, count: number): boolean {
+  const [min, max] = typeof arity === 'number' ? [arity, arity] : arity;
+  return count >= min && count <= max;
+}
+
+// "2 arguments", "1 to 2 arguments", "at least 1 argument"
+export function describeArity(arity: Arity, noun: string): string {
+  const [min, max] = typeof arity === 'number' ? [arity, arity] : arity;
+  const plural = (count: number) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+  if (min === max) return plural(min);
+  if (max === Infinity) return `at least ${plural(min)}`;
+  return `${min} to ${plural(max)}`;
+}
+
+export function expandTemplate(template: string, args: string[]): string {
+  return template.replace(/\$(\*|\d+)/g, (_, index: string) => index === '*' ? args.join(', ') : args[Number(index)] ?? '');
+}
+
+const NUMBER: WispType = { kind: 'number' };
+const BOOLEAN: WispType = { kind: 'boolean' };
+const STRING: WispType = { kind: 'string' };
+
+// floor(x) is Math.floor(x), in generated code and in the interpreter alike
+function math(name: string, arity: Arity): FunctionBinding {
+  return {
+    arity,
+    emit: `Math.${name}($*)`,
+    run: args => (Math as any)[name](...args),
+    returns: NUMBER
+  };
+}
+
+function keyName(key: Expr): string | null {
+  return key instanceof Literal && typeof key.value === 'string' ? key.value : null;
+}
+
+// key_down("UpArrow") is Keyboard.keyDown(Key.UpArrow). Keys that aren't
+// a literal are passed through as they are.
+function key(method: string): FunctionBinding {
+  return {
+    arity: 1,
+    emit: (args, call) => {
+      const name = keyName(call.args[0]);
+      return `Keyboard.${method}(${name !== null ? `Key.${name}` : args[0]})`;
+    },
+    run: (args, call, context) => {
+      const name = keyName(call.args[0]);
+      const key = name !== null ? context.getProperty(context.lookup('Key'), name) : args[0];
+      return context.callMethod(context.lookup('Keyboard'), method, [key]);
+    },
+    returns: BOOLEAN
+  };
+}
+
+// func _forever() ... end is forever(() => { ... })
+function hook(hostFunction: string, arity: Arity): HookBinding {
+  return {
+    arity,
+    emit: `${hostFunction}($0)`,
+    run: (callback, context) => context.call(context.lookup(hostFunction), [callback])
+  };
+}
+
+// on message("game_over") ... end is onMessage("game_over", () => { ... }).
+// The host function can be a method, like Game.every.
+function event(hostFunction: string, args: EventBinding['args'] = []): EventBinding {
+  const [object, method] = hostFunction.split('.');
+  return {
+    args,
+    emit: `${hostFunction}(${args.map((_, index) => `$${index}`).concat(`$${args.length}`).join(', ')})`,
+    run: (values, handler, _, context) => {
+      if (method === undefined) {
+        context.call(context.lookup(object), [...values, handler]);
+      } else {
+        context.callMethod(context.lookup(object), method, [...values, handler]);
+      }
+    }
+  };
+}
+
+/**
+ * The bindings for the sprite engine WispScript was first written for.
+ * Used when no other bindings are given.
+ */
+export const SPRITE_ENGINE: Bindings = {
+  functions: {
+    random: math('random', 0),
+    floor: math('floor', 1),
+    ceil: math('ceil', 1),
+    round: math('round', 1),
+    abs: math('abs', 1),
+    pow: math('pow', 2),
+    sqrt: math('sqrt', 1),
+    min: math('min', [1, Infinity]),
+    max: math('max', [1, Infinity]),
+    sin: math('sin', 1),
+    cos: math('cos', 1),
+    tan: math('tan', 1),
+    atan2: math('atan2', 2),
+    // randrange(max) or randrange(min, max)
+    randrange: {
+      arity: [1, 2],
+      emit: args => args.length === 2
+        ? `(Math.random() * (${args[1]} - ${args[0]}) + ${args[0]})`
+        : `(Math.random() * ${args[0]})`,
+      run: args => {
+        const [min, max] = (args.length === 2 ? args : [0, args[0]]) as number[];
+        return Math.random() * (max - min) + min;
+      },
+      returns: NUMBER
+    },
+    key_down: key('keyDown'),
+    key_up: key('keyUp'),
+    // The interpreter calls the host's versions of these, which pause
+    // however the host likes before returning
+    wait: { arity: 1, emit: 'wait($0)', suspends: true },
+    // wait_until(y > 100) checks the condition until it's true
+    wait_until: {
+      arity: 1,
+      emit: 'waitUntil(() => $0)',
+      run: (args, _, context) => context.call(context.lookup('waitUntil'), args),
+      suspends: true,
+      lazy: true
+    },
+    // ask("Name?") shows the question and waits for the answer
+    ask: { arity: 1, emit: 'ask($0)', returns: STRING, suspends: true }
+  },
+  hooks: {
+    _forever: hook('forever', 0),
+    _on_collision: hook('onCollision', [0, 1]),
+    // Called with the new clone
+    _on_clone_start: hook('onCloneStart', [0, 1])
+  },
+  events: {
+    start: event('onStart'),
+    // Keys are named like key_down's: on key_pressed("Space") is
+    // onKeyPressed(Key.Space, ...)
+    key_pressed: {
+      args: [{ name: 'key', type: STRING }],
+      emit: (args, handler, on) => {
+        const name = keyName(on.args[0]);
+        return `onKeyPressed(${name !== null ? `Key.${name}` : args[0]}, ${handler})`;
+      },
+      run: ([key], handler, on, context) => {
+        const name = keyName(on.args[0]);
+        const value = name !== null ? context.getProperty(context.lookup('Key'), name) : key;
+        context.call(context.lookup('onKeyPressed'), [value, handler]);
+      }
+    },
+    clicked: event('onClick'),
+    message: event('onMessage', [{ name: 'name', type: STRING }]),
+    timer: event('Game.every', [{ name: 'seconds', type: NUMBER }]),
+    left_screen: event('onLeaveScreen')
+  },
+  members: {
+    sprite: ['x', 'y', 'rotation', 'costume', 'visible', 'velocity', 'data', 'delete'],
+    Game: ['every', 'createText'],
+    Keyboard: ['keyDown', 'keyUp'],
+    Math: [
+      'PI', 'E', 'abs', 'floor', 'ceil', 'round', 'trunc', 'sign', 'min', 'max', 'pow', 'sqrt', 'cbrt',
+      'exp', 'log', 'log2', 'log10', 'sin', 'cos', 'tan', 'asin', 'acos', 'atan', 'atan2', 'hypot', 'random'
+    ]
+  }
+};
@@ -0,0 +1,98 @@
+import { transpile, TranspileError, TranspileOptions } from './transpiler';
+import { run, ObjectHost } from './interpreter';
+import { Bindings, SPRITE_ENGINE } from './bindings';
+import { formatDiagnostic } from './diagnostics';
+
+console.log('=== Testing Bindings ===\n');
+
+function show(code: string, options: TranspileOptions = {}, host?: ObjectHost) {
+  console.log('Input:');
+  console.log(code);
+  console.log('Output:');
+  try {
+    console.log(transpile(code, options));
+    if (host) {
+      console.log('Runs as:');
+      run(code, host, options);
+    }
+  } catch (error) {
+    if (!(error instanceof TranspileError)) throw error;
+    error.diagnostics.forEach(diagnostic => console.log(formatDiagnostic(diagnostic)));
+  }
+  console.log('---\n');
+}
+
+// Test 1: The sprite engine preset is used by default
+console.log('Test 1: Sprite engine');
+show(`
+var key = "Left"
+if (key_down("Space") or key_up(key))
+  sprite.x = floor(randrange(10)) + round(randrange(5, 10))
+end
+print(max(1, 5, 3))
+func _on_collision(other)
+  other.x = 0
+end
+`);
+
+// Test 2: Bindings for a different engine, including one only the
+// generated code knows how to run
+console.log('Test 2: Custom bindings');
+const canvas: Bindings = {
+  functions: {
+    ...SPRITE_ENGINE.functions,
+    distance: {
+      arity: 4,
+      emit: 'Math.hypot($2 - $0, $3 - $1)',
+      run: ([x1, y1, x2, y2]) => Math.hypot((x2 as number) - (x1 as number), (y2 as number) - (y1 as number)),
+      returns: { kind: 'number' }
+    },
+    play_sound: { arity: [1, 2], emit: 'audio.play($*)' }
+  },
+  hooks: {
+    _update: {
+      arity: [0, 1],
+      emit: callback => `engine.onFrame(${callback})`,
+      run: (callback, context) => context.callMethod(context.lookup('engine'), 'onFrame', [callback])
+    }
+  },
+  events: {}
+};
+const frames: Array<(dt: number) => void> = [];
+show(`
+var d = distance(0, 0, 3, 4)
+print(d)
+func _update(dt)
+  play_sound("tick", dt)
+end
+`, { bindings: canvas, hostGlobals: ['engine', 'audio'] }, new ObjectHost({
+  engine: { onFrame: (callback: (dt: number) => void) => frames.push(callback) },
+  play_sound: (name: string, dt: number) => console.log(`play_sound(${name}, ${dt})`)
+}));
+console.log('After one frame:');
+frames.forEach(frame => frame(0.5));
+console.log('---\n');
+
+// Test 3: Calls and hooks with the wrong number of arguments or parameters
+console.log('Test 3: Arity checks');
+show(`
+var a = floor(1, 2)
+var b = randrange()
+var c = min()
+func _forever(frame)
+end
+`);
+show('var d = distance(1, 2)', { bindings: canvas });
+
+// Test 4: Scripts can't declare names of their own for built-ins, since
+// calls to them would still go to the built-in
+console.log('Test 4: Shadowing');
+show(`
+func floor(x)
+  return x
+end
+func clamp(value, min)
+  return value
+end
+print(floor(1.5))
+`);
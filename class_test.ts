@@ -0,0 +1,191 @@
+import { transpile, TranspileError } from './transpiler';
+import { run, ObjectHost, RuntimeError } from './interpreter';
+import { formatDiagnostic } from './diagnostics';
+import { DEFAULT_HOST_GLOBALS } from './resolver';
+
+console.log('=== Testing Classes ===\n');
+
+// A class the host engine provides, for scripts to extend
+class Sprite {
+  visible = true;
+  constructor(public costume: string) {}
+  show() {
+    return `${this.costume} is ${this.visible ? 'visible' : 'hidden'}`;
+  }
+}
+
+const hostGlobals = [...DEFAULT_HOST_GLOBALS, 'Sprite'];
+
+function show(code: string) {
+  console.log('Input:');
+  console.log(code);
+  console.log('Output:');
+  try {
+    console.log(transpile(code, { hostGlobals }));
+    console.log('Runs as:');
+    run(code, new ObjectHost({ Sprite }), { hostGlobals });
+  } catch (error) {
+    if (error instanceof TranspileError) {
+      error.diagnostics.forEach(diagnostic => console.log(formatDiagnostic(diagnostic)));
+    } else if (error instanceof RuntimeError) {
+      console.log(formatDiagnostic(error.diagnostic));
+    } else {
+      throw error;
+    }
+  }
+  console.log('---\n');
+}
+
+// Test 1: Fields, a constructor and methods using self
+console.log('Test 1: A class');
+show(`
+class Enemy
+  var health = 3
+  var speed: number = 2
+
+  func init(x, y)
+    self.x = x
+    self.y = y
+  end
+
+  func hit(damage)
+    self.health -= damage
+    return self.health <= 0
+  end
+
+  func describe()
+    return "enemy at {self.x}, {self.y} with {self.health} health"
+  end
+end
+
+var enemy = new Enemy(1, 2)
+print(enemy.hit(1))
+print(enemy.describe())
+`);
+
+// Test 2: Subclasses call the superclass's init and methods through super
+console.log('Test 2: Inheritance');
+show(`
+class Enemy
+  var health = 3
+
+  func init(x)
+    self.x = x
+  end
+
+  func hit(damage)
+    self.health -= damage
+    return self.health
+  end
+end
+
+class Boss < Enemy
+  func init(x, name)
+    super.init(x)
+    self.name = name
+    self.health = 10
+  end
+
+  func hit(damage)
+    return super.hit(damage / 2)
+  end
+end
+
+class Minion < Enemy
+end
+
+var boss = new Boss(5, "Grue")
+print(boss.hit(4))
+print(boss.name + " at " + boss.x)
+print(new Minion(3).hit(1))
+`);
+
+// Test 3: Extending a host class, and methods as callbacks
+console.log('Test 3: Host superclass');
+show(`
+class Player < Sprite
+  var score = 0
+
+  func init(costume)
+    super.init(costume)
+    self.visible = false
+  end
+
+  func collect(points)
+    self.score += points
+  end
+end
+
+var player = new Player("hero")
+print(player.show())
+[5, 10].forEach(points => player.collect(points))
+print(player.score)
+`);
+
+// Test 4: Mistakes with classes
+console.log('Test 4: Errors');
+show(`
+print(self.x)
+
+class Bullet
+  var speed = 1
+  var speed = 2
+
+  func init()
+    super.init()
+    return self
+  end
+
+  func move()
+    func step()
+      self.x += 1
+    end
+  end
+end
+
+var bullet = Bullet()
+`);
+show(`
+class Boss < Boss
+end
+
+class Enemy < Sprite
+  func init(x)
+    self.x = x
+  end
+
+  func reset()
+    super.init(0)
+  end
+end
+`);
+show(`
+var spawn = new Spawner()
+class Spawner
+end
+`);
+show(`
+var B = 1
+class A < B
+end
+func make()
+  return 1
+end
+class C < make
+end
+class D < floor
+end
+`);
+show(`
+class Spawner
+  print("spawning")
+  func spawn()
+  end
+end
+`);
+show(`
+func make()
+  return 1
+end
+var thing = new make()
+`);
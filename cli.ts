@@ -0,0 +1,380 @@
+import fs from 'fs';
+import path from 'path';
+import { emit, TranspileError } from './transpiler';
+import { format } from './formatter';
+import { ModuleHost, ModuleLoader } from './modules';
+import { Diagnostic, DiagnosticSeverity, formatCodeFrame } from './diagnostics';
+
+const USAGE = `Usage: wisp <command> [options] <files or directories...>
+
+Commands:
+  build    Compile .wisp files, and the files they import, to TypeScript
+  watch    Build, then rebuild files whenever they change
+  check    Report errors without writing any files
+  fmt      Format .wisp files in place
+
+Options:
+  -o, --out <dir>   Directory for the .ts files (default: next to each source)
+  --source-map      Also write a .ts.map file next to each output
+  --no-optimize     Keep the output one-to-one with the source, for debugging
+  --check           With fmt, list files that aren't formatted instead of
+                    changing them, and fail if there are any
+  --json            Print results as JSON, for CI
+  -h, --help        Show this help`;
+
+interface CliOptions {
+  command: 'build' | 'watch' | 'check' | 'fmt';
+  inputs: string[];
+  outDir: string | null;
+  sourceMap: boolean;
+  optimize: boolean;
+  json: boolean;
+  // fmt only reports what it would change
+  checkFormat: boolean;
+}
+
+// A .wisp file and the input directory its output path is relative to
+interface SourceFile {
+  path: string;
+  root: string;
+}
+
+interface FileResult {
+  file: string;
+  // Where the TypeScript was written, if it was
+  output: string | null;
+  source: string;
+  diagnostics: Diagnostic[];
+}
+
+interface FormatResult {
+  file: string;
+  source: string;
+  diagnostics: Diagnostic[];
+  // Whether formatting changes the file, whether or not it was written
+  changed: boolean;
+}
+
+// Resolves imports against the file system, relative to the importing file
+const fileSystemHost: ModuleHost = {
+  resolve(specifier, from) {
+    const resolved = path.join(path.dirname(from), specifier);
+    return resolved.endsWith('.wisp') ? resolved : `${resolved}.wisp`;
+  },
+  read(file) {
+    return fs.existsSync(file) && fs.statSync(file).isFile() ? fs.readFileSync(file, 'utf-8') : null;
+  }
+};
+
+// Stops the CLI with a message instead of a stack trace
+class CliError extends Error {}
+// A CliError caused by the arguments, reported along with the usage
+class UsageError extends CliError {}
+
+function parseArgs(args: string[]): CliOptions {
+  const [command, ...rest] = args;
+  if (command !== 'build' && command !== 'watch' && command !== 'check' && command !== 'fmt') {
+    throw new UsageError(command ? `Unknown command '${command}'.` : 'Missing command.');
+  }
+
+  const options: CliOptions = {
+    command, inputs: [], outDir: null, sourceMap: false, optimize: true, json: false, checkFormat: false
+  };
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (arg === '-o' || arg === '--out') {
+      const dir = rest[++i];
+      if (!dir) throw new UsageError(`${arg} needs a directory.`);
+      options.outDir = dir;
+    } else if (arg === '--source-map') {
+      options.sourceMap = true;
+    } else if (arg === '--no-optimize') {
+      options.optimize = false;
+    } else if (arg === '--json') {
+      options.json = true;
+    } else if (arg === '--check' && command === 'fmt') {
+      options.checkFormat = true;
+    } else if (arg.startsWith('-')) {
+      throw new UsageError(`Unknown option '${arg}'.`);
+    } else {
+      options.inputs.push(arg);
+    }
+  }
+
+  if (options.inputs.length === 0) {
+    throw new UsageError('No files or directories given.');
+  }
+  return options;
+}
+
+function collectFiles(inputs: string[]): SourceFile[] {
+  const files: SourceFile[] = [];
+
+  const walk = (dir: string, root: string) => {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name))) {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory() && entry.name !== 'node_modules' && !entry.name.startsWith('.')) {
+        walk(entryPath, root);
+      } else if (entry.isFile() && entry.name.endsWith('.wisp')) {
+        files.push({ path: entryPath, root });
+      }
+    }
+  };
+
+  for (const input of inputs) {
+    if (!fs.existsSync(input)) {
+      throw new CliError(`'${input}' doesn't exist.`);
+    }
+    if (fs.statSync(input).isDirectory()) {
+      walk(input, input);
+    } else {
+      // Normalized like the paths imports resolve to, so each file is compiled once
+      files.push({ path: path.normalize(input), root: path.dirname(input) });
+    }
+  }
+
+  return files;
+}
+
+function outputPath(file: SourceFile, options: CliOptions): string {
+  const relative = path.relative(file.root, file.path).replace(/\.wisp$/, '.ts');
+  return path.join(options.outDir ?? file.root, relative);
+}
+
+function compileFile(file: SourceFile, options: CliOptions, loader: ModuleLoader): FileResult {
+  const module = loader.load(file.path);
+  if (!module) {
+    throw new CliError(`Can't read '${file.path}'.`);
+  }
+
+  const result: FileResult = { file: file.path, output: null, source: module.source, diagnostics: module.errors };
+  if (options.command === 'check' || !module.analysis || module.errors.length > 0) {
+    return result;
+  }
+
+  try {
+    const output = outputPath(file, options);
+    const { code, map } = emit(module.analysis, module.source, {
+      sourceMap: true,
+      // Relative to the map, which sits next to the output
+      fileName: path.relative(path.dirname(output), file.path).split(path.sep).join('/'),
+      optimize: options.optimize
+    });
+
+    fs.mkdirSync(path.dirname(output), { recursive: true });
+    if (options.sourceMap) {
+      const mapFile = `${path.basename(output)}.map`;
+      fs.writeFileSync(`${output}.map`, JSON.stringify({ ...map, file: path.basename(output) }));
+      fs.writeFileSync(output, `${code}\n//# sourceMappingURL=${mapFile}\n`);
+    } else {
+      fs.writeFileSync(output, `${code}\n`);
+    }
+    result.output = output;
+  } catch (error) {
+    if (!(error instanceof TranspileError)) throw error;
+    result.diagnostics = error.diagnostics;
+  }
+
+  return result;
+}
+
+// Compiles the inputs, then the files they import that weren't among them.
+// Imported files keep their place relative to the importer's input root,
+// so the relative imports in the output still line up.
+function compileAll(options: CliOptions): FileResult[] {
+  const loader = new ModuleLoader(fileSystemHost);
+  const files = collectFiles(options.inputs);
+  const compiled = new Set<string>();
+  const results: FileResult[] = [];
+
+  for (let i = 0; i < files.length; i++) {
+    const file = files[i];
+    if (compiled.has(file.path)) continue;
+    compiled.add(file.path);
+
+    results.push(compileFile(file, options, loader));
+    loader.load(file.path)?.imports.forEach(({ module }) => files.push({ path: module.path, root: file.root }));
+  }
+
+  return results;
+}
+
+// Formats just the inputs: unlike compiling, the files they import are left alone
+function formatAll(options: CliOptions): FormatResult[] {
+  return collectFiles(options.inputs).map(file => {
+    const source = fs.readFileSync(file.path, 'utf-8');
+    try {
+      const formatted = format(source);
+      const changed = formatted !== source;
+      if (changed && !options.checkFormat) fs.writeFileSync(file.path, formatted);
+      return { file: file.path, source, diagnostics: [], changed };
+    } catch (error) {
+      if (!(error instanceof TranspileError)) throw error;
+      return { file: file.path, source, diagnostics: error.diagnostics, changed: false };
+    }
+  });
+}
+
+function reportFormat(results: FormatResult[], options: CliOptions): void {
+  const errors = errorCount(results);
+  if (options.json) {
+    console.log(JSON.stringify({
+      command: options.checkFormat ? 'fmt --check' : 'fmt',
+      files: results.map(({ file, changed, diagnostics }) => ({ file, changed, diagnostics })),
+      errorCount: errors
+    }));
+    return;
+  }
+
+  for (const result of results) {
+    for (const diagnostic of result.diagnostics) {
+      const { line, column } = diagnostic.span.start;
+      console.log(`${result.file}:${line}:${column} - ${diagnostic.severity} ${diagnostic.code}: ${diagnostic.message}`);
+      console.log(formatCodeFrame(result.source, diagnostic.span));
+      console.log();
+    }
+    if (result.changed) {
+      console.log(options.checkFormat ? `${result.file} needs formatting` : `${result.file} formatted`);
+    }
+  }
+
+  const changed = results.filter(result => result.changed).length;
+  const files = `${results.length} file${results.length === 1 ? '' : 's'}`;
+  const summary = options.checkFormat
+    ? `Checked ${files}, ${changed === 0 ? 'all formatted' : `${changed} need${changed === 1 ? 's' : ''} formatting`}`
+    : `Formatted ${files}, ${changed} changed`;
+  console.log(errors === 0 ? `${summary}.` : `${summary}, ${errors} error${errors === 1 ? '' : 's'}.`);
+}
+
+function errorCount(results: Array<{ diagnostics: Diagnostic[] }>): number {
+  return results.reduce((count, result) =>
+    count + result.diagnostics.filter(d => d.severity === DiagnosticSeverity.Error).length, 0);
+}
+
+function report(results: FileResult[], options: CliOptions): void {
+  if (options.json) {
+    // One line per report, so watch mode prints a stream of JSON documents
+    console.log(JSON.stringify({
+      command: options.command,
+      files: results.map(({ file, output, diagnostics }) => ({ file, output, diagnostics })),
+      errorCount: errorCount(results)
+    }));
+    return;
+  }
+
+  for (const result of results) {
+    for (const diagnostic of result.diagnostics) {
+      const { line, column } = diagnostic.span.start;
+      console.log(`${result.file}:${line}:${column} - ${diagnostic.severity} ${diagnostic.code}: ${diagnostic.message}`);
+      console.log(formatCodeFrame(result.source, diagnostic.span));
+      console.log();
+    }
+    if (result.output) {
+      console.log(`${result.file} -> ${result.output}`);
+    }
+  }
+
+  const errors = errorCount(results);
+  const failed = results.filter(result => result.diagnostics.length > 0).length;
+  const verb = options.command === 'check' ? 'Checked' : 'Compiled';
+  const summary = `${verb} ${results.length} file${results.length === 1 ? '' : 's'}`;
+  console.log(errors === 0
+    ? `${summary}, no errors.`
+    : `${summary}, ${errors} error${errors === 1 ? '' : 's'} in ${failed} file${failed === 1 ? '' : 's'}.`);
+}
+
+function watch(options: CliOptions): void {
+  // Editors often write a file in several steps, so wait for them to settle.
+  // A change can break the files importing it, so everything is rebuilt.
+  let pending: NodeJS.Timeout | undefined;
+  const schedule = () => {
+    clearTimeout(pending);
+    pending = setTimeout(() => {
+      try {
+        build();
+      } catch (error) {
+        // e.g. an input was deleted; keep watching for it to come back
+        if (!(error instanceof CliError)) throw error;
+        console.error(`wisp: ${error.message}`);
+      }
+    }, 50);
+  };
+
+  // The directories of the files in the last build, including the ones the
+  // inputs import, with the names in each to rebuild for. Watching the
+  // directory rather than the file keeps working when an editor saves by
+  // writing a new file and renaming it over the old one.
+  const watched = new Map<string, { watcher: fs.FSWatcher; names: Set<string> }>();
+  const build = () => {
+    const results = compileAll(options);
+    report(results, options);
+
+    const names = new Map<string, Set<string>>();
+    for (const { file } of results) {
+      const dir = path.resolve(path.dirname(file));
+      names.set(dir, (names.get(dir) ?? new Set<string>()).add(path.basename(file)));
+    }
+    for (const [dir, { watcher }] of watched) {
+      if (names.has(dir)) continue;
+      watcher.close();
+      watched.delete(dir);
+    }
+    for (const [dir, files] of names) {
+      const entry = watched.get(dir);
+      if (entry) {
+        entry.names = files;
+      } else {
+        const watcher = fs.watch(dir, (event, filename) => {
+          if (filename && watched.get(dir)?.names.has(filename)) schedule();
+        });
+        watched.set(dir, { watcher, names: files });
+      }
+    }
+  };
+
+  build();
+
+  // Directories also rebuild for .wisp files added to them
+  for (const input of options.inputs) {
+    if (fs.statSync(input).isDirectory()) {
+      fs.watch(input, { recursive: true }, (event, filename) => {
+        if (filename && filename.endsWith('.wisp')) schedule();
+      });
+    }
+  }
+
+  if (!options.json) {
+    console.log('Watching for changes. Press Ctrl+C to stop.');
+  }
+}
+
+function main(args: string[]): number {
+  if (args.length === 0 || args.includes('-h') || args.includes('--help')) {
+    console.log(USAGE);
+    return args.length === 0 ? 2 : 0;
+  }
+
+  try {
+    const options = parseArgs(args);
+    if (options.command === 'fmt') {
+      const results = formatAll(options);
+      reportFormat(results, options);
+      const unformatted = options.checkFormat && results.some(result => result.changed);
+      return errorCount(results) > 0 || unformatted ? 1 : 0;
+    }
+    if (options.command === 'watch') {
+      watch(options);
+      return 0;
+    }
+
+    const results = compileAll(options);
+    report(results, options);
+    return errorCount(results) > 0 ? 1 : 0;
+  } catch (error) {
+    if (!(error instanceof CliError)) throw error;
+    console.error(error instanceof UsageError ? `wisp: ${error.message}\n\n${USAGE}` : `wisp: ${error.message}`);
+    return 2;
+  }
+}
+
+process.exitCode = main(process.argv.slice(2));
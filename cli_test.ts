@@ -0,0 +1,65 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { spawnSync } from 'child_process';
+
+console.log('=== Testing wisp CLI ===\n');
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'wisp-cli-'));
+fs.mkdirSync(path.join(dir, 'src', 'levels'), { recursive: true });
+fs.writeFileSync(path.join(dir, 'src', 'player.wisp'), 'var speed = 3\nfunc move(dx)\n  sprite.x += dx * speed\nend\nmove(2)\n');
+fs.writeFileSync(path.join(dir, 'src', 'levels', 'one.wisp'), 'var enemies = 4\nprint(enemies)\n');
+fs.mkdirSync(path.join(dir, 'game', 'lib'), { recursive: true });
+fs.writeFileSync(path.join(dir, 'game', 'main.wisp'), 'import { vector } from "./lib/vector"\nsprite.velocity = vector(1, 2)\n');
+fs.writeFileSync(path.join(dir, 'game', 'lib', 'vector.wisp'), 'export func vector(x, y)\n  return {x: x, y: y}\nend\n');
+fs.writeFileSync(path.join(dir, 'game', 'cycle.wisp'), 'import { ping } from "./cycle"\nexport var pong = 1\n');
+fs.writeFileSync(path.join(dir, 'broken.wisp'), 'var lives = 3\nprint(livs)\nvar name: number = "wisp"\n');
+
+function wisp(...args: string[]) {
+  // Temp paths differ between runs
+  const hideTemp = (text: string) => text.split(dir).join('<tmp>');
+  console.log(hideTemp(`$ wisp ${args.join(' ')}`));
+  const result = spawnSync('npx', ['tsx', 'cli.ts', ...args], { encoding: 'utf-8' });
+  console.log(hideTemp(result.stdout + result.stderr).trim());
+  console.log(`(exit code ${result.status})`);
+  console.log('---\n');
+}
+
+// Test 1: Build a directory tree into another one
+console.log('Test 1: build');
+wisp('build', path.join(dir, 'src'), '-o', path.join(dir, 'out'), '--source-map');
+console.log(fs.readFileSync(path.join(dir, 'out', 'player.ts'), 'utf-8'));
+console.log(fs.readFileSync(path.join(dir, 'out', 'levels', 'one.ts'), 'utf-8'));
+
+// Test 2: Check reports errors with code frames and fails
+console.log('Test 2: check');
+wisp('check', path.join(dir, 'broken.wisp'), path.join(dir, 'src'));
+
+// Test 3: Machine-readable output
+console.log('Test 3: check --json');
+wisp('check', '--json', path.join(dir, 'broken.wisp'));
+
+// Test 4: Bad arguments
+console.log('Test 4: Usage errors');
+wisp('compile', 'src');
+wisp('build', path.join(dir, 'missing'));
+
+// Test 5: Imported files are compiled along with the files importing them
+console.log('Test 5: Modules');
+wisp('build', path.join(dir, 'game', 'main.wisp'), '-o', path.join(dir, 'game-out'));
+console.log(fs.readFileSync(path.join(dir, 'game-out', 'lib', 'vector.ts'), 'utf-8'));
+wisp('check', path.join(dir, 'game', 'cycle.wisp'));
+
+// Test 6: Formatting checks files first, then rewrites them in place
+console.log('Test 6: fmt');
+fs.mkdirSync(path.join(dir, 'messy'));
+fs.writeFileSync(path.join(dir, 'messy', 'tidy.wisp'), 'var lives = 3\n');
+fs.writeFileSync(path.join(dir, 'messy', 'score.wisp'), '// Points\nvar  score=0\nfunc add(n)   // by n\n    score+=n\nend\n');
+wisp('fmt', '--check', path.join(dir, 'messy'));
+wisp('fmt', path.join(dir, 'messy'));
+console.log(fs.readFileSync(path.join(dir, 'messy', 'score.wisp'), 'utf-8'));
+wisp('fmt', '--check', path.join(dir, 'messy'));
+fs.writeFileSync(path.join(dir, 'unclosed.wisp'), 'if (lives > 0\n  print(lives)\nend\n');
+wisp('fmt', path.join(dir, 'unclosed.wisp'), path.join(dir, 'src', 'player.wisp'));
+
+fs.rmSync(dir, { recursive: true, force: true });
@@ -0,0 +1,15 @@
+import { parentPort } from 'worker_threads';
+import { handle, ApiRequest } from './api.js';
+
+// Answers API requests for server.ts one at a time, in a thread of its own
+// so a compile that runs too long can be stopped by ending the thread.
+// Live sessions are kept here too.
+parentPort!.on('message', (request: ApiRequest) => {
+  try {
+    parentPort!.postMessage(handle(request));
+  } catch (error) {
+    parentPort!.postMessage({ status: 500, body: { error: error instanceof Error ? error.message : String(error) } });
+  }
+});
+
+parentPort!.postMessage('ready');
@@ -0,0 +1,153 @@
+import { Token } from './tokens';
+
+export enum DiagnosticSeverity {
+  Error = 'error',
+  Warning = 'warning',
+  Info = 'info'
+}
+
+// Codes are grouped by the stage that reports them:
+// 1xxx lexer, 2xxx parser, 3xxx generator, 4xxx resolver, 5xxx type checker,
+// 6xxx interpreter (at runtime)
+export enum DiagnosticCode {
+  UnexpectedCharacter = 'WS1001',
+  UnterminatedString = 'WS1002',
+  InvalidEscape = 'WS1003',
+
+  ExpectedToken = 'WS2001',
+  UnexpectedToken = 'WS2002',
+  InvalidAssignmentTarget = 'WS2003',
+  InvalidIncrementTarget = 'WS2004',
+  LoopControlOutsideLoop = 'WS2005',
+  UnknownType = 'WS2006',
+
+  UnknownOperator = 'WS3001',
+
+  UndefinedVariable = 'WS4001',
+  UseBeforeDeclaration = 'WS4002',
+  UnknownFunction = 'WS4003',
+  DuplicateDeclaration = 'WS4004',
+  ReturnOutsideFunction = 'WS4005',
+  NotAtTopLevel = 'WS4006',
+  AssignToImport = 'WS4007',
+  ModuleNotFound = 'WS4008',
+  MissingExport = 'WS4009',
+  ImportCycle = 'WS4010',
+  SelfOutsideClass = 'WS4011',
+  InvalidSuperclass = 'WS4012',
+  InvalidInit = 'WS4013',
+  ClassWithoutNew = 'WS4014',
+  WrongArgumentCount = 'WS4015',
+  UnknownEvent = 'WS4016',
+  ShadowsBuiltIn = 'WS4017',
+
+  TypeMismatch = 'WS5001',
+  MissingReturn = 'WS5002',
+  UnknownField = 'WS5003',
+  AsyncInit = 'WS5004',
+
+  UnboundName = 'WS6001',
+  NotCallable = 'WS6002',
+  NullAccess = 'WS6003',
+  NotIterable = 'WS6004',
+  ModuleNotLoaded = 'WS6005',
+  NotAClass = 'WS6006'
+}
+
+// Lines and columns are 1-based, offsets are 0-based indexes into the source
+export interface Position {
+  line: number;
+  column: number;
+  offset: number;
+}
+
+// End position is exclusive
+export interface Span {
+  start: Position;
+  end: Position;
+}
+
+export interface Diagnostic {
+  severity: DiagnosticSeverity;
+  code: DiagnosticCode;
+  message: string;
+  span: Span;
+}
+
+/**
+ * Thrown by stages that can't carry on after an error. The caller collects
+ * the diagnostic instead of reporting a bare message.
+ */
+export class DiagnosticError extends Error {
+  constructor(public diagnostic: Diagnostic) {
+    super(diagnostic.message);
+    this.name = 'DiagnosticError';
+  }
+}
+
+export function createDiagnostic(
+  code: DiagnosticCode,
+  message: string,
+  span: Span,
+  severity: DiagnosticSeverity = DiagnosticSeverity.Error
+): Diagnostic {
+  return { severity, code, message, span };
+}
+
+/**
+ * Returns the source span covered by a token's lexeme
+ */
+export function tokenSpan(token: Token): Span {
+  const start: Position = { line: token.line, column: token.column, offset: token.offset };
+  const lines = token.lexeme.split('\n');
+  const last = lines[lines.length - 1];
+
+  return {
+    start,
+    end: {
+      line: token.line + lines.length - 1,
+      column: lines.length === 1 ? token.column + last.length : last.length + 1,
+      offset: token.offset + token.lexeme.length
+    }
+  };
+}
+
+export function formatDiagnostic(diagnostic: Diagnostic): string {
+  const { line, column } = diagnostic.span.start;
+  return `[${line}:${column}] ${diagnostic.severity} ${diagnostic.code}: ${diagnostic.message}`;
+}
+
+
+/**
+ * Renders the source lines around a span, with the span underlined:
+ *
+ *     2 | var player = createClone()
+ *   > 3 | player.y = spede
+ *       |            ^^^^^
+ */
+export function formatCodeFrame(source: string, span: Span, contextLines: number = 1): string {
+  const lines = source.split(/\r?\n/);
+  // The empty line after a final newline isn't worth showing as context
+  const lineCount = lines[lines.length - 1] === '' && span.start.line < lines.length ? lines.length - 1 : lines.length;
+  const first = Math.max(1, span.start.line - contextLines);
+  const last = Math.min(lineCount, span.start.line + contextLines);
+  const width = String(last).length;
+  const frame: string[] = [];
+
+  for (let line = first; line <= last; line++) {
+    const text = lines[line - 1] ?? '';
+    const isStart = line === span.start.line;
+    frame.push(`${isStart ? '>' : ' '} ${String(line).padStart(width)} | ${text}`.replace(/\s+$/, ''));
+
+    if (isStart) {
+      // Spans running onto later lines are underlined to the end of this one
+      const endColumn = span.end.line === line ? span.end.column : text.length + 1;
+      const length = Math.max(1, endColumn - span.start.column);
+      // Keep tabs so the carets line up however wide the terminal draws them
+      const indent = text.slice(0, span.start.column - 1).replace(/[^\t]/g, ' ');
+      frame.push(`  ${' '.repeat(width)} | ${indent}${'^'.repeat(length)}`);
+    }
+  }
+
+  return frame.join('\n');
+}
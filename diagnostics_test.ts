@@ -0,0 +1,34 @@
+import { Lexer } from './lexer';
+import { transpile, TranspileError } from './transpiler';
+
+console.log('=== Testing Token Positions and Diagnostics ===\n');
+
+// Test 1: Every token carries line, column and offset
+console.log('Test 1: Token positions');
+const test1 = `var a = 10
+print("multi
+line")
+  a += 1`;
+console.log('Input:');
+console.log(test1);
+console.log('Tokens:');
+new Lexer(test1).scanTokens().forEach(token => {
+  console.log(`  ${token.type} '${token.lexeme}' line ${token.line}, column ${token.column}, offset ${token.offset}`);
+});
+console.log('---\n');
+
+// Test 2: Diagnostics carry severity, code and a start/end span
+console.log('Test 2: Diagnostic spans');
+const test2 = `var x = 1
+print(x +)
+var s = "never closed`;
+console.log('Input:');
+console.log(test2);
+try {
+  transpile(test2);
+} catch (error) {
+  if (!(error instanceof TranspileError)) throw error;
+  console.log('Diagnostics:');
+  console.log(JSON.stringify(error.diagnostics, null, 2));
+}
+console.log('---\n');
@@ -19,4 +19,4 @@ end
 console.log('Input:');
 console.log(test);
 console.log('\nOutput:');
-console.log(transpile(test));
+console.log(transpile(test, { optimize: false }));
@@ -0,0 +1,68 @@
+import { transpile, TranspileError } from './transpiler';
+import { formatDiagnostic } from './diagnostics';
+
+console.log('=== Testing Error Recovery ===\n');
+
+function showErrors(code: string) {
+  console.log('Input:');
+  console.log(code);
+  try {
+    console.log('Output:');
+    console.log(transpile(code));
+  } catch (error) {
+    if (error instanceof TranspileError) {
+      console.log(`Errors (${error.diagnostics.length}):`);
+      error.diagnostics.forEach(diagnostic => console.log(`  ${formatDiagnostic(diagnostic)}`));
+    } else {
+      throw error;
+    }
+  }
+  console.log('---\n');
+}
+
+// Test 1: Several unrelated errors are all reported
+console.log('Test 1: Multiple errors in one script');
+showErrors(`
+var a = (1 + 2
+print(a)
+var = 5
+func broken(x
+  print(x)
+end
+print("still parsed")
+`);
+
+// Test 2: Error inside a block recovers at the next statement in the block
+console.log('Test 2: Error inside an if block');
+showErrors(`
+if (x > 1)
+  var y = * 2
+  print(y)
+end
+while (true)
+  print(1 +)
+end
+`);
+
+// Test 3: Invalid assignment targets don't stop parsing
+console.log('Test 3: Invalid assignment target');
+showErrors(`
+1 = 2
+foo() += 3
+print("after")
+`);
+
+// Test 4: Lexer errors are collected too
+console.log('Test 4: Unexpected characters');
+showErrors(`
+var a = 1 @ 2
+var b = #
+print(a)
+`);
+
+// Test 5: Valid script still transpiles
+console.log('Test 5: No errors');
+showErrors(`
+var a = 1
+print(a)
+`);
@@ -5,7 +5,7 @@ console.log('=== Testing Compile-time Evaluation ===\n');
 const tests = [
   'var a = 10 + 2',
   'var result = (5 + 3) * 2 - 1', 
-  'var c = a + b',
+  'var a = 1\nvar b = 2\nvar c = a + b',
   'print(10 * 3)',
   'var negative = -42',
   'var division = 20 / 4'
@@ -0,0 +1,115 @@
+import { transpile, TranspileError } from './transpiler';
+import { run, ObjectHost } from './interpreter';
+import { formatDiagnostic } from './diagnostics';
+
+console.log('=== Testing Events ===\n');
+
+// A host that records handlers by event, so the test can fire them
+function host(handlers: Map<string, () => void>) {
+  const register = (event: string) => (...args: unknown[]) => {
+    const handler = args.pop() as () => void;
+    const key = [event, ...args].join(' ');
+    console.log(`registered ${key}`);
+    handlers.set(key, handler);
+  };
+  return new ObjectHost({
+    onStart: register('start'),
+    onKeyPressed: register('key_pressed'),
+    onClick: register('clicked'),
+    onMessage: register('message'),
+    onLeaveScreen: register('left_screen'),
+    Game: { every: register('timer') },
+    Key: { Space: 'Key.Space' }
+  });
+}
+
+function show(code: string, fire: string[] = []) {
+  console.log('Input:');
+  console.log(code);
+  console.log('Output:');
+  try {
+    console.log(transpile(code));
+    console.log('Runs as:');
+    const handlers = new Map<string, () => void>();
+    run(code, host(handlers));
+    for (const key of fire) {
+      console.log(`firing ${key}`);
+      handlers.get(key)!();
+    }
+  } catch (error) {
+    if (!(error instanceof TranspileError)) throw error;
+    error.diagnostics.forEach(diagnostic => console.log(formatDiagnostic(diagnostic)));
+  }
+  console.log('---\n');
+}
+
+// Test 1: Every event the sprite engine has
+console.log('Test 1: Sprite engine events');
+show(`
+var score = 0
+
+on start
+  print("ready")
+end
+
+on key_pressed("Space")
+  score += 1
+end
+
+on clicked()
+  print("clicked with score {score}")
+end
+
+on message("game_over")
+  print("game over")
+end
+
+on timer(0.5)
+  score += 10
+end
+
+on left_screen
+  sprite.x = 0
+end
+`, ['start', 'key_pressed Key.Space', 'timer 0.5', 'clicked', 'message game_over']);
+
+// Test 2: Handlers are closures, and return early like functions
+console.log('Test 2: Closures');
+show(`
+func listen(name)
+  var count = 0
+  on message(name)
+    count += 1
+    if (count > 1)
+      return
+    end
+    print("{name} received")
+  end
+end
+listen("hello")
+`, ['message hello', 'message hello']);
+
+// Test 3: Unknown events and arguments that don't fit
+console.log('Test 3: Errors');
+show(`
+on kye_pressed("Space")
+end
+
+on message()
+end
+
+on start("now")
+end
+`);
+show(`
+on timer("soon")
+end
+
+on message(42)
+end
+`);
+show(`
+on
+  print("never")
+end
+`);
@@ -16,7 +16,7 @@ end
 console.log('Input:');
 console.log(test1);
 console.log('Output:');
-console.log(transpile(test1));
+console.log(transpile(test1, { optimize: false }));
 console.log('---\n');
 
 // Test 2: NOT with comparison
@@ -31,7 +31,7 @@ end
 console.log('Input:');
 console.log(test2);
 console.log('Output:');
-console.log(transpile(test2));
+console.log(transpile(test2, { optimize: false }));
 console.log('---\n');
 
 // Test 3: List literals
@@ -47,7 +47,7 @@ print(names)
 console.log('Input:');
 console.log(test3);
 console.log('Output:');
-console.log(transpile(test3));
+console.log(transpile(test3, { optimize: false }));
 console.log('---\n');
 
 // Test 4: Object literals
@@ -62,7 +62,7 @@ print(config)
 console.log('Input:');
 console.log(test4);
 console.log('Output:');
-console.log(transpile(test4));
+console.log(transpile(test4, { optimize: false }));
 console.log('---\n');
 
 // Test 5: Lists with expressions
@@ -78,7 +78,7 @@ print(list)
 console.log('Input:');
 console.log(test5);
 console.log('Output:');
-console.log(transpile(test5));
+console.log(transpile(test5, { optimize: false }));
 console.log('---\n');
 
 // Test 6: Objects with expressions
@@ -93,7 +93,7 @@ print(sprite)
 console.log('Input:');
 console.log(test6);
 console.log('Output:');
-console.log(transpile(test6));
+console.log(transpile(test6, { optimize: false }));
 console.log('---\n');
 
 // Test 7: Combined NOT with AND/OR
@@ -113,7 +113,7 @@ end
 console.log('Input:');
 console.log(test7);
 console.log('Output:');
-console.log(transpile(test7));
+console.log(transpile(test7, { optimize: false }));
 console.log('---\n');
 
 // Test 8: Empty lists and objects
@@ -128,5 +128,5 @@ print(empty_obj)
 console.log('Input:');
 console.log(test8);
 console.log('Output:');
-console.log(transpile(test8));
+console.log(transpile(test8, { optimize: false }));
 console.log('---\n');
@@ -0,0 +1,178 @@
+import { format } from './formatter';
+import { TranspileError } from './transpiler';
+import { formatDiagnostic } from './diagnostics';
+
+console.log('=== Testing Formatter ===\n');
+
+function show(code: string) {
+  console.log('Input:');
+  console.log(code);
+  console.log('Formatted:');
+  try {
+    const formatted = format(code);
+    console.log(formatted);
+    // Formatting is stable, so formatted code formats to itself
+    if (format(formatted) !== formatted) console.log('NOT STABLE:\n' + format(formatted));
+  } catch (error) {
+    if (!(error instanceof TranspileError)) throw error;
+    error.diagnostics.forEach(diagnostic => console.log(formatDiagnostic(diagnostic)));
+  }
+  console.log('---\n');
+}
+
+// Test 1: Mixed tabs and spaces, extra blank lines and cramped operators
+console.log('Test 1: Indentation and spacing');
+show(`
+
+
+var  speed=3
+func move( dx,dy )
+\tsprite.x+=dx*speed
+      sprite.y -= dy
+
+
+
+\tif(sprite.x>100)
+    sprite.x=0
+\telif (sprite.x<0)
+  \t  sprite.x = 100
+  else
+ print( "on screen" )
+\tend
+end
+`);
+
+// Test 2: Comments stay where they were, trailing or on their own line
+console.log('Test 2: Comments');
+show(`// Player movement
+var speed = 3 // pixels per frame
+
+/* Moves the player
+   and wraps around */
+func move(dx) // dx can be negative
+  // Step
+  sprite.x += dx
+
+  // Nothing after this
+end
+
+while (true)
+  move(1)
+  // Before else-less end
+end
+var items = [
+  1, // first
+  2
+]
+// At the end of the file
+`);
+
+// Test 3: Shorthands the parser expands are printed the way they were written
+console.log('Test 3: Shorthands');
+show(`
+var i = 0
+i++
+--i
+i += 2
+i = i + 2
+sprite.x *= 2
+scores[0] -= 1
+global total += 1
+global reset()
+global var lives = 3
+globals.count = 1
+for (i = 0; i < 3; i++)
+end
+for (item in [1, 2])
+end
+for (n, item in [1, 2])
+end
+`);
+
+// Test 4: Parentheses only where precedence needs them
+console.log('Test 4: Parentheses');
+show(`
+var a = (1 + 2) * 3
+var b = 1 + (2 * 3)
+var c = (1 - 2) - (3 - 4)
+var d = -(2 ** 2) + (-2) ** 2
+var e = not (a == b) and (c or d)
+var f = - -a
+var g = ((a)).toString()
+print((i += 1) > 3)
+`);
+
+// Test 5: Strings, lists and objects
+console.log('Test 5: Literals');
+show(`
+var name = 'Wisp'
+var quote = 'He said "hi"'
+var braces = "\\{not interpolated\\}"
+var greeting = "Hello, {name}! You have {3 + 4} lives"
+var multi = "line one
+line two"
+var empty = []
+var point = { x : 1,y:2 }
+var player = {name: "Wisp", x: 100, y: 200, costume: "idle", speed: 3.5, lives: 3}
+`);
+
+// Test 6: Functions, lambdas, classes, events and modules
+console.log('Test 6: Declarations');
+show(`
+import {vector,  length} from "./math"
+export func add(a:number, b:number):number
+  return a + b
+end
+scores.sort(func (a, b) return a - b end)
+var double = x => x * 2
+var pair = (a: number, b) => [a, b]
+Game.every(5, func (seconds)
+  print(seconds)
+end)
+export class Boss<Enemy
+  func init(x)
+    super.init(x)
+  end
+  var health: number = 10
+
+  func hit()
+    self.health--
+  end
+end
+on key_pressed( "Space" )
+  print(new Boss(1))
+end
+on start()
+end
+`);
+
+// Test 7: Empty blocks keep the blank lines after them
+console.log('Test 7: Empty blocks');
+show(`
+func f()
+end
+
+on start
+end
+
+
+var x = 1
+`);
+
+// Test 8: Strings keep their escapes and line breaks as written
+console.log('Test 8: Escapes');
+show(`
+print("Game\\nOver")
+var line = "x\\r\\n"
+var tab = 'a\\tb'
+var said = 'He said \\'hi\\' and "bye"'
+var mixed = 'one\\n{line}
+two'
+`);
+
+// Test 9: Scripts with syntax errors can't be formatted
+console.log('Test 9: Errors');
+show(`
+var = 3
+func broken(
+`);
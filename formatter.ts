@@ -0,0 +1,541 @@
+import { Comment, Token, TokenType } from './tokens';
+import { Lexer } from './lexer';
+import { Parser, SourceRanges } from './parser';
+import { TranspileError } from './transpiler';
+import {
+  Expr, Stmt, ExprVisitor, StmtVisitor,
+  Binary, Unary, Literal, Variable, Call, Get, Assign, Set, Logical, Index, IndexSet, Template, Lambda, New, Self, Super,
+  Var, Expression, Print, Function, Return, If, While, For, ForIn, Break, Continue, Import, Export, Class, On,
+  TypeAnnotation, ListType, ObjectType
+} from './ast';
+
+export interface FormatOptions {
+  // One level of indentation (default two spaces)
+  indent?: string;
+}
+
+/**
+ * Prints a script back out with canonical indentation, spacing and
+ * parentheses, keeping its comments. Blank lines between statements are
+ * kept, but never more than one in a row.
+ * @throws TranspileError if the script has syntax errors
+ */
+export function format(source: string, options: FormatOptions = {}): string {
+  const lexer = new Lexer(source);
+  const parser = new Parser(lexer.scanTokens());
+  const statements = parser.parse();
+
+  const diagnostics = [...lexer.errors, ...parser.errors]
+    .sort((a, b) => a.span.start.offset - b.span.start.offset);
+  if (diagnostics.length > 0) {
+    throw new TranspileError(diagnostics);
+  }
+
+  return new Formatter(source, lexer.comments, parser.ranges, options.indent ?? '  ').format(statements);
+}
+
+// How tightly each kind of expression binds, loosest first. An operand
+// that binds looser than its operator needs parentheses.
+const ASSIGNMENT = 1;
+const OR = 2;
+const AND = 3;
+const NOT = 4;
+const UNARY = 12;
+const POWER = 13;
+const POSTFIX = 14;
+const PRIMARY = 15;
+
+const BINARY_PRECEDENCE = new Map<TokenType, number>([
+  [TokenType.GREATER, 5], [TokenType.GREATER_EQUAL, 5], [TokenType.LESS, 5], [TokenType.LESS_EQUAL, 5],
+  [TokenType.EQUAL_EQUAL, 5], [TokenType.BANG_EQUAL, 5],
+  [TokenType.BIT_OR, 6],
+  [TokenType.BIT_XOR, 7],
+  [TokenType.BIT_AND, 8],
+  [TokenType.SHIFT_LEFT, 9], [TokenType.SHIFT_RIGHT, 9],
+  [TokenType.PLUS, 10], [TokenType.MINUS, 10],
+  [TokenType.MULTIPLY, 11], [TokenType.DIVIDE, 11], [TokenType.MODULO, 11], [TokenType.FLOOR_DIVIDE, 11],
+  [TokenType.POWER, POWER]
+]);
+
+// Lists and objects longer than this get one item per line
+const MAX_INLINE_LENGTH = 60;
+
+const ESCAPES: Record<string, string> = { '\\': '\\\\', '{': '\\{', '}': '\\}', '\t': '\\t', '\r': '\\r', '\0': '\\0' };
+
+// Double quotes, unless the text has more of them than single quotes
+function quoteFor(text: string): string {
+  return text.split('"').length > text.split("'").length ? "'" : '"';
+}
+
+// For strings the parser didn't read from the source. Newlines stay as
+// they are, so multi-line strings stay multi-line.
+function escape(text: string, quote: string): string {
+  return text.replace(/[\\{}\t\r\0"']/g, c => ESCAPES[c] ?? (c === quote ? `\\${c}` : c));
+}
+
+// Text written between `from` quotes, for between `to` quotes instead. Its
+// escapes and line breaks stay as they were written.
+function requote(text: string, from: string, to: string): string {
+  if (from === to) return text;
+  return text.replace(/\\[\s\S]|["']/g, c => c === to ? `\\${to}` : c === `\\${from}` ? from : c);
+}
+
+function quote(text: string): string {
+  const mark = quoteFor(text);
+  return `${mark}${escape(text, mark)}${mark}`;
+}
+
+type Shorthand = { kind: 'prefix' | 'postfix' | 'compound'; operator: string };
+
+/**
+ * Builds the formatted source a statement at a time. Statements push lines;
+ * expressions return text, which only spans lines for function bodies and
+ * long lists and objects, already indented for where it goes.
+ *
+ * The parser turns some shorthands into plainer trees: x += 1 and x++
+ * become x = x + 1, and global x becomes globals.x. The tokens it makes up
+ * for those sit where the shorthand was in the source, which is how they're
+ * told apart from code that was written out in full.
+ */
+class Formatter implements ExprVisitor<string>, StmtVisitor<void> {
+  private lines: string[] = [];
+  private depth = 0;
+  // Index of the next comment to print
+  private nextComment = 0;
+  // Source line of what was printed last, for blank lines and comments
+  // that trail it. null at the top of the file.
+  private lastLine: number | null = null;
+  // Nothing printed yet in the current block, so no blank line before it
+  private blockStart = true;
+
+  constructor(
+    private source: string,
+    private comments: Comment[],
+    private ranges: SourceRanges,
+    private indent: string
+  ) {}
+
+  format(statements: Stmt[]): string {
+    statements.forEach(stmt => this.statement(stmt));
+    this.printComments(Infinity);
+    return this.lines.length > 0 ? `${this.lines.join('\n')}\n` : '';
+  }
+
+  // Expression visitors
+  visitBinaryExpr(expr: Binary): string {
+    const precedence = BINARY_PRECEDENCE.get(expr.operator.type)!;
+    // ** is the one right-associative operator, and its right side is a unary
+    if (precedence === POWER) {
+      return `${this.operand(expr.left, POSTFIX)} ** ${this.operand(expr.right, UNARY)}`;
+    }
+    return `${this.operand(expr.left, precedence)} ${expr.operator.lexeme} ${this.operand(expr.right, precedence + 1)}`;
+  }
+
+  visitUnaryExpr(expr: Unary): string {
+    if (expr.operator.type === TokenType.NOT) {
+      return `not ${this.operand(expr.right, NOT)}`;
+    }
+    // - -x, since --x would be a decrement
+    const right = this.operand(expr.right, UNARY);
+    return right.startsWith('-') ? `- ${right}` : `-${right}`;
+  }
+
+  visitLiteralExpr(expr: Literal): string {
+    const value = expr.value;
+    if (Array.isArray(value)) {
+      return this.collection('[', ']', () => value.map((element: Expr) => this.operand(element, ASSIGNMENT)));
+    }
+    if (value instanceof Map) {
+      return this.collection('{', '}', () =>
+        [...value].map(([key, element]: [string, Expr]) => `${key}: ${this.operand(element, ASSIGNMENT)}`));
+    }
+    if (typeof value === 'string') {
+      const tokens = this.ranges.strings.get(expr);
+      return tokens ? this.written(tokens, []) : quote(value);
+    }
+    return String(value);
+  }
+
+  visitVariableExpr(expr: Variable): string {
+    return expr.name.lexeme;
+  }
+
+  visitCallExpr(expr: Call): string {
+    return `${this.operand(expr.callee, POSTFIX)}(${this.arguments(expr.args)})`;
+  }
+
+  visitGetExpr(expr: Get): string {
+    if (this.isGlobals(expr.object)) return `global ${expr.name.lexeme}`;
+    return `${this.operand(expr.object, POSTFIX)}.${expr.name.lexeme}`;
+  }
+
+  visitAssignExpr(expr: Assign): string {
+    return this.assignment(expr, expr.name.lexeme);
+  }
+
+  visitSetExpr(expr: Set): string {
+    const target = this.isGlobals(expr.object)
+      ? `global ${expr.name.lexeme}`
+      : `${this.operand(expr.object, POSTFIX)}.${expr.name.lexeme}`;
+    return this.assignment(expr, target);
+  }
+
+  visitLogicalExpr(expr: Logical): string {
+    const precedence = expr.operator.type === TokenType.OR ? OR : AND;
+    return `${this.operand(expr.left, precedence)} ${expr.operator.lexeme} ${this.operand(expr.right, precedence + 1)}`;
+  }
+
+  visitIndexExpr(expr: Index): string {
+    return `${this.operand(expr.object, POSTFIX)}[${this.operand(expr.index, ASSIGNMENT)}]`;
+  }
+
+  visitIndexSetExpr(expr: IndexSet): string {
+    return this.assignment(expr, `${this.operand(expr.object, POSTFIX)}[${this.operand(expr.index, ASSIGNMENT)}]`);
+  }
+
+  visitTemplateExpr(expr: Template): string {
+    const parts = expr.expressions.map(part => this.operand(part, ASSIGNMENT));
+    const tokens = this.ranges.strings.get(expr);
+    if (tokens) return this.written(tokens, parts);
+    const mark = quoteFor(expr.strings.join(''));
+    return `${mark}${escape(expr.strings[0], mark)}${parts.map((part, i) => `{${part}}${escape(expr.strings[i + 1], mark)}`).join('')}${mark}`;
+  }
+
+  // Arrow functions stay arrow functions. A func lambda written on one line
+  // stays on one line if its body fits there.
+  visitLambdaExpr(expr: Lambda): string {
+    const params = this.parameters(expr.params, expr.paramTypes);
+    const [only] = expr.body;
+    if (expr.body.length === 1 && only instanceof Return && only.keyword.type === TokenType.ARROW && only.value) {
+      const head = expr.start.type === TokenType.IDENTIFIER ? expr.params[0].lexeme : `(${params})`;
+      return `${head} => ${this.operand(only.value, ASSIGNMENT)}`;
+    }
+
+    const header = `func (${params})${this.returnType(expr.returnType)}`;
+    const body = this.captureBlock(expr.body, expr.start.line);
+    const end = this.ranges.blockEnds.get(expr.body);
+    if (end && end.line === expr.start.line && body.length <= 1 && !body.some(line => line.includes('\n'))) {
+      return body.length === 0 ? `${header} end` : `${header} ${body[0].trim()} end`;
+    }
+    return [header, ...body, `${this.indentation()}end`].join('\n');
+  }
+
+  visitNewExpr(expr: New): string {
+    return `new ${this.operand(expr.callee, POSTFIX)}(${this.arguments(expr.args)})`;
+  }
+
+  visitSelfExpr(expr: Self): string {
+    return 'self';
+  }
+
+  visitSuperExpr(expr: Super): string {
+    return `super.${expr.method.lexeme}`;
+  }
+
+  // Statement visitors
+  visitVarStmt(stmt: Var): void {
+    this.line(this.variable(stmt));
+  }
+
+  visitExpressionStmt(stmt: Expression): void {
+    this.line(this.operand(stmt.expression, ASSIGNMENT));
+  }
+
+  visitPrintStmt(stmt: Print): void {
+    this.line(`print(${this.operand(stmt.expression, ASSIGNMENT)})`);
+  }
+
+  visitFunctionStmt(stmt: Function): void {
+    const global = (stmt as any).isGlobal ? 'global ' : '';
+    const params = this.parameters(stmt.params, stmt.paramTypes);
+    this.line(`${global}func ${stmt.name.lexeme}(${params})${this.returnType(stmt.returnType)}`);
+    this.block(stmt.body, stmt.name.line);
+    this.line('end');
+  }
+
+  visitReturnStmt(stmt: Return): void {
+    this.line(stmt.value ? `return ${this.operand(stmt.value, ASSIGNMENT)}` : 'return');
+  }
+
+  // Comments on an elif or else line stay there, since the branch's block
+  // starts on that line
+  visitIfStmt(stmt: If): void {
+    this.line(`if (${this.operand(stmt.condition, ASSIGNMENT)})`);
+    this.block(stmt.thenBranch, this.startOf(stmt).line);
+
+    let previous = stmt.thenBranch;
+    for (const branch of stmt.elseifBranches) {
+      this.line(`elif (${this.operand(branch.condition, ASSIGNMENT)})`);
+      this.block(branch.body, this.ranges.blockEnds.get(previous)!.line);
+      previous = branch.body;
+    }
+    if (stmt.elseBranch) {
+      this.line('else');
+      this.block(stmt.elseBranch, this.ranges.blockEnds.get(previous)!.line);
+    }
+    this.line('end');
+  }
+
+  visitWhileStmt(stmt: While): void {
+    this.line(`while (${this.operand(stmt.condition, ASSIGNMENT)})`);
+    this.block(stmt.body, this.startOf(stmt).line);
+    this.line('end');
+  }
+
+  visitForStmt(stmt: For): void {
+    const initializer = stmt.initializer instanceof Var ? this.variable(stmt.initializer)
+      : stmt.initializer instanceof Expression ? this.operand(stmt.initializer.expression, ASSIGNMENT)
+      : '';
+    const condition = stmt.condition ? ` ${this.operand(stmt.condition, ASSIGNMENT)}` : '';
+    const increment = stmt.increment ? ` ${this.operand(stmt.increment, ASSIGNMENT)}` : '';
+    this.line(`for (${initializer};${condition};${increment})`);
+    this.block(stmt.body, this.startOf(stmt).line);
+    this.line('end');
+  }
+
+  // for (item in items) gets a made-up '_' index at the item
+  visitForInStmt(stmt: ForIn): void {
+    const index = stmt.indexVar.offset === stmt.itemVar.offset ? '' : `${stmt.indexVar.lexeme}, `;
+    this.line(`for (${index}${stmt.itemVar.lexeme} in ${this.operand(stmt.iterable, ASSIGNMENT)})`);
+    this.block(stmt.body, this.startOf(stmt).line);
+    this.line('end');
+  }
+
+  visitBreakStmt(stmt: Break): void {
+    this.line('break');
+  }
+
+  visitContinueStmt(stmt: Continue): void {
+    this.line('continue');
+  }
+
+  visitImportStmt(stmt: Import): void {
+    this.line(`import { ${stmt.names.map(name => name.lexeme).join(', ')} } from ${this.written([stmt.path], [])}`);
+  }
+
+  visitExportStmt(stmt: Export): void {
+    const at = this.lines.length;
+    stmt.declaration.accept(this);
+    this.lines[at] = `${this.indentation()}export ${this.lines[at].slice(this.indentation().length)}`;
+  }
+
+  // Members keep their order, fields and methods mixed as they were
+  visitClassStmt(stmt: Class): void {
+    const superclass = stmt.superclass ? ` < ${stmt.superclass.name.lexeme}` : '';
+    this.line(`class ${stmt.name.lexeme}${superclass}`);
+    const members = [...stmt.fields, ...stmt.methods].sort((a, b) => this.startOf(a).offset - this.startOf(b).offset);
+    this.block(members, stmt.name.line, this.ranges.statements.get(stmt)!.end);
+    this.line('end');
+  }
+
+  visitOnStmt(stmt: On): void {
+    const args = stmt.args.length > 0 ? `(${this.arguments(stmt.args)})` : '';
+    this.line(`on ${stmt.event.lexeme}${args}`);
+    this.block(stmt.body, stmt.keyword.line);
+    this.line('end');
+  }
+
+  // Prints a statement with the comments before it and the ones trailing
+  // it on its last line
+  private statement(stmt: Stmt): void {
+    const { start, end } = this.ranges.statements.get(stmt)!;
+    this.printComments(start.offset);
+    this.separate(start.line);
+
+    const at = this.lines.length;
+    stmt.accept(this);
+    // Comments inside an expression, e.g. between the items of a long list,
+    // have nowhere to go in it, so they go above the statement
+    const inner: string[] = [];
+    while (this.peekComment(end.offset)) {
+      inner.push(`${this.indentation()}${this.comments[this.nextComment++].text}`);
+    }
+    this.lines.splice(at, 0, ...inner);
+
+    // The last token can be a multi-line string
+    this.lastLine = end.line + end.lexeme.split('\n').length - 1;
+    while (this.nextComment < this.comments.length && this.comments[this.nextComment].line === this.lastLine) {
+      this.trail(this.comments[this.nextComment++]);
+    }
+  }
+
+  // Prints a block one level deeper, up to the token that closes it.
+  // headerLine is the line that opens it, whose trailing comment stays there.
+  private block(statements: Stmt[], headerLine: number, end: Token = this.ranges.blockEnds.get(statements)!): void {
+    this.depth++;
+    this.lastLine = headerLine;
+    this.blockStart = true;
+    statements.forEach(stmt => this.statement(stmt));
+    this.printComments(end.offset);
+    this.depth--;
+    // An empty block doesn't swallow the blank line after its end
+    this.blockStart = false;
+  }
+
+  // A block printed on its own, for a function inside an expression
+  private captureBlock(statements: Stmt[], headerLine: number): string[] {
+    const lines = this.lines;
+    this.lines = [];
+    this.block(statements, headerLine);
+    const captured = this.lines;
+    this.lines = lines;
+    return captured;
+  }
+
+  // Prints the comments before offset, each on its own line unless it
+  // trails what was printed last
+  private printComments(offset: number): void {
+    while (this.peekComment(offset)) {
+      const comment = this.comments[this.nextComment++];
+      if (comment.line === this.lastLine && this.lines.length > 0) {
+        this.trail(comment);
+      } else {
+        this.separate(comment.line);
+        this.line(comment.text);
+        this.lastLine = this.endLine(comment);
+      }
+    }
+  }
+
+  private peekComment(offset: number): boolean {
+    return this.nextComment < this.comments.length && this.comments[this.nextComment].offset < offset;
+  }
+
+  private trail(comment: Comment): void {
+    this.lines[this.lines.length - 1] += ` ${comment.text}`;
+    this.lastLine = this.endLine(comment);
+  }
+
+  private endLine(comment: Comment): number {
+    return comment.line + comment.text.split('\n').length - 1;
+  }
+
+  // Keeps one blank line where the source had any
+  private separate(line: number): void {
+    if (!this.blockStart && this.lastLine !== null && line - this.lastLine > 1) {
+      this.lines.push('');
+    }
+    this.blockStart = false;
+  }
+
+  private line(text: string): void {
+    this.lines.push(`${this.indentation()}${text}`);
+  }
+
+  private indentation(depth: number = this.depth): string {
+    return this.indent.repeat(depth);
+  }
+
+  private startOf(stmt: Stmt): Token {
+    return this.ranges.statements.get(stmt)!.start;
+  }
+
+  // A string or template as written, in the quotes quoteFor picks, with
+  // the formatted expressions between its parts
+  private written(tokens: Token[], expressions: string[]): string {
+    const from = tokens[0].lexeme[0];
+    const to = quoteFor(tokens.map(token => token.literal).join(''));
+    // Each part's lexeme starts with a quote or '}' and ends with '{' or a quote
+    const parts = tokens.map(token => requote(token.lexeme.slice(1, -1), from, to));
+    return `${to}${parts[0]}${expressions.map((expression, i) => `{${expression}}${parts[i + 1]}`).join('')}${to}`;
+  }
+
+  private operand(expr: Expr, precedence: number): string {
+    const text = expr.accept(this);
+    return this.precedenceOf(expr) < precedence ? `(${text})` : text;
+  }
+
+  private precedenceOf(expr: Expr): number {
+    if (expr instanceof Assign || expr instanceof Set || expr instanceof IndexSet) {
+      const kind = this.shorthand(expr)?.kind;
+      return kind === 'prefix' ? UNARY : kind === 'postfix' ? POSTFIX : ASSIGNMENT;
+    }
+    if (expr instanceof Lambda) return ASSIGNMENT;
+    if (expr instanceof Logical) return expr.operator.type === TokenType.OR ? OR : AND;
+    if (expr instanceof Unary) return expr.operator.type === TokenType.NOT ? NOT : UNARY;
+    if (expr instanceof Binary) return BINARY_PRECEDENCE.get(expr.operator.type)!;
+    if (expr instanceof Call || expr instanceof Get || expr instanceof Index) return POSTFIX;
+    return PRIMARY;
+  }
+
+  private assignment(expr: Assign | Set | IndexSet, target: string): string {
+    const shorthand = this.shorthand(expr);
+    if (shorthand?.kind === 'prefix') return `${shorthand.operator}${target}`;
+    if (shorthand?.kind === 'postfix') return `${target}${shorthand.operator}`;
+    if (shorthand?.kind === 'compound') {
+      return `${target} ${shorthand.operator} ${this.operand((expr.value as Binary).right, ASSIGNMENT)}`;
+    }
+    return `${target} = ${this.operand(expr.value, ASSIGNMENT)}`;
+  }
+
+  // Whether an assignment was written as x++, ++x or x += v
+  private shorthand(expr: Assign | Set | IndexSet): Shorthand | null {
+    const value = expr.value;
+    if (!(value instanceof Binary)) return null;
+
+    const left = value.left;
+    const readsTarget = expr instanceof Assign ? left instanceof Variable && left.name === expr.name
+      : expr instanceof Set ? left instanceof Get && left.name === expr.name
+      : left instanceof Index && left.bracket === expr.bracket;
+    if (!readsTarget) return null;
+
+    const operator = value.operator;
+    const written = this.source.substr(operator.offset, 2);
+    if (written === '++' || written === '--') {
+      const target = expr instanceof IndexSet ? expr.bracket : expr.name;
+      return { kind: operator.offset < target.offset ? 'prefix' : 'postfix', operator: written };
+    }
+    if (this.source.startsWith(`${operator.lexeme}=`, operator.offset)) {
+      return { kind: 'compound', operator: `${operator.lexeme}=` };
+    }
+    return null;
+  }
+
+  // The globals of global x, as opposed to a script that says globals.x
+  private isGlobals(expr: Expr): boolean {
+    return expr instanceof Variable && expr.name.lexeme === 'globals' && !this.source.startsWith('globals', expr.name.offset);
+  }
+
+  private collection(open: string, close: string, items: () => string[]): string {
+    this.depth++;
+    const parts = items();
+    this.depth--;
+
+    const inline = `${open}${parts.join(', ')}${close}`;
+    if (parts.length === 0 || (inline.length <= MAX_INLINE_LENGTH && !inline.includes('\n'))) return inline;
+    const indentation = this.indentation(this.depth + 1);
+    return `${open}\n${parts.map(part => `${indentation}${part}`).join(',\n')}\n${this.indentation()}${close}`;
+  }
+
+  private arguments(args: Expr[]): string {
+    return args.map(arg => this.operand(arg, ASSIGNMENT)).join(', ');
+  }
+
+  private variable(stmt: Var): string {
+    const global = (stmt as any).isGlobal ? 'global ' : '';
+    const type = stmt.type ? `: ${this.type(stmt.type)}` : '';
+    // A var without an initializer gets a null literal
+    const omitted = stmt.initializer instanceof Literal && stmt.initializer.value === null;
+    const initializer = omitted ? '' : ` = ${this.operand(stmt.initializer, ASSIGNMENT)}`;
+    return `${global}var ${stmt.name.lexeme}${type}${initializer}`;
+  }
+
+  private parameters(params: Token[], types: (TypeAnnotation | null)[]): string {
+    return params.map((param, i) => {
+      const type = types[i];
+      return type ? `${param.lexeme}: ${this.type(type)}` : param.lexeme;
+    }).join(', ');
+  }
+
+  private returnType(annotation: TypeAnnotation | null): string {
+    return annotation ? `: ${this.type(annotation)}` : '';
+  }
+
+  private type(annotation: TypeAnnotation): string {
+    if (annotation instanceof ListType) return `list<${this.type(annotation.element)}>`;
+    if (annotation instanceof ObjectType) {
+      return `{${annotation.fields.map(field => `${field.name.lexeme}: ${this.type(field.type)}`).join(', ')}}`;
+    }
+    return annotation.name.lexeme;
+  }
+}
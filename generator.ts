@@ -1,73 +1,139 @@
-import { TokenType } from './tokens';
+import { Token, TokenType } from './tokens';
+import { DiagnosticCode, DiagnosticError, createDiagnostic, tokenSpan } from './diagnostics';
+import { SourceMap, SourceMapBuilder } from './sourcemap';
+import { TypeInfo, typeToString, fromAnnotation } from './types';
+import { Bindings, SPRITE_ENGINE, functionBinding, hookBinding, eventBinding, expandTemplate } from './bindings';
 import {
   Expr, Stmt, ExprVisitor, StmtVisitor,
-  Binary, Unary, Literal, Variable, Call, Get, Assign, Set, Logical,
-  Var, Expression, Print, Function, Return, If, While, For, ForIn
+  Binary, Unary, Literal, Variable, Call, Get, Assign, Set, Logical, Index, IndexSet, Template, Lambda, New, Self, Super,
+  Var, Expression, Print, Function, Return, If, While, For, ForIn, Break, Continue, Import, Export, Class, On,
+  TypeAnnotation
 } from './ast';
 
-function toCamelCase(str: string) {
-  // Convert the entire string to lowercase first for consistency
-  let processedStr = str.toLowerCase();
-
-  // Split the string by spaces, hyphens, or underscores to get individual words
-  const words = processedStr.split(/[\s_-]+/);
-
-  // Map over the words to capitalize the first letter of each word (except the first)
-  const camelCaseWords = words.map((word, index) => {
-    if (index === 0) {
-      // The first word remains in its lowercase form
-      return word;
-    } else {
-      // Capitalize the first letter and concatenate with the rest of the word
-      return word.charAt(0).toUpperCase() + word.slice(1);
-    }
-  });
+// Escapes text for the inside of a template literal. Line breaks are
+// escaped too so every statement stays on its own lines, and NUL would be
+// taken for a source map marker.
+function escapeTemplate(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/`/g, '\\`')
+    .replace(/\$\{/g, '\\${')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\0/g, '\\u0000');
+}
+
+// Wraps the index of a marked token in the output while it's being built
+const MARKER = '\u0000';
 
-  // Join the processed words back into a single string
-  return camelCaseWords.join('');
+// How declarations are typed: 'inferred' writes out every type inference
+// found, 'annotated' only the types the script spelled out (the rest are
+// any), and 'none' leaves types out so the output is plain JavaScript
+export type TypeMode = 'inferred' | 'annotated' | 'none';
+
+export interface SourceMapOptions {
+  // Name of the generated file, recorded in the map
+  file: string;
+  // Name and contents of the WispScript file
+  sourceFile: string;
+  source: string;
 }
 
 export class TypeScriptGenerator implements ExprVisitor<string>, StmtVisitor<string> {
+  // Tokens referenced by markers in the output; null when not mapping
+  private markedTokens: Token[] | null = null;
+
+  // Without type info every declaration is typed any
+  constructor(
+    private types: TypeInfo | null = null,
+    private bindings: Bindings = SPRITE_ENGINE,
+    private typeMode: TypeMode = 'inferred'
+  ) {}
+
   generate(statements: Stmt[]): string {
-    const result = statements.map(stmt => stmt.accept(this)).join('\n');
+    const result = statements.map(stmt => this.statement(stmt)).join('\n');
     return result;
   }
 
-  // Expression evaluator for compile-time constant folding
-  private evaluateExpression(expr: Expr): any {
-    if (expr instanceof Literal) {
-      return expr.value;
+  generateWithSourceMap(statements: Stmt[], options: SourceMapOptions): { code: string; map: SourceMap } {
+    // Code is built by string concatenation and re-indented on the way up,
+    // so positions are only known once it's complete. Generate with markers
+    // in place, then strip them and record where each one ended up.
+    this.markedTokens = [];
+    let marked: string;
+    let tokens: Token[];
+    try {
+      marked = this.generate(statements);
+      tokens = this.markedTokens;
+    } finally {
+      this.markedTokens = null;
     }
 
-    if (expr instanceof Binary) {
-      const left = this.evaluateExpression(expr.left);
-      const right = this.evaluateExpression(expr.right);
-
-      // Only evaluate if both sides are numbers
-      if (typeof left === 'number' && typeof right === 'number') {
-        switch (expr.operator.type) {
-          case TokenType.PLUS:
-            return left + right;
-          case TokenType.MINUS:
-            return left - right;
-          case TokenType.MULTIPLY:
-            return left * right;
-          case TokenType.DIVIDE:
-            return left / right;
+    const builder = new SourceMapBuilder(options.file, options.sourceFile, options.source);
+    const chunks = marked.split(MARKER);
+    let code = '';
+    let line = 0;
+    let column = 0;
+    let lastMapped = '';
+
+    // Chunks alternate between code and marker indexes
+    chunks.forEach((chunk, index) => {
+      if (index % 2 === 1) {
+        const token = tokens[Number(chunk)];
+        // Nested nodes often start at the same place; keep the first
+        if (lastMapped !== `${line}:${column}`) {
+          builder.addMapping(line, column, token.line - 1, token.column - 1);
+          lastMapped = `${line}:${column}`;
         }
+        return;
       }
-      return null; // Can't evaluate
-    }
 
-    if (expr instanceof Unary) {
-      const right = this.evaluateExpression(expr.right);
-      if (typeof right === 'number' && expr.operator.type === TokenType.MINUS) {
-        return -right;
+      code += chunk;
+      const lines = chunk.split('\n');
+      if (lines.length > 1) {
+        line += lines.length - 1;
+        column = lines[lines.length - 1].length;
+      } else {
+        column += chunk.length;
       }
-      return null; // Can't evaluate
-    }
+    });
 
-    return null; // Can't evaluate (variables, calls, etc.)
+    return { code, map: builder.toJSON() };
+  }
+
+  private statement(stmt: Stmt): string {
+    return this.mark(this.startToken(stmt)) + stmt.accept(this);
+  }
+
+  // Returns a marker for the token's source position when building a source map
+  private mark(token: Token | null): string {
+    if (!this.markedTokens || !token) return '';
+    this.markedTokens.push(token);
+    return `${MARKER}${this.markedTokens.length - 1}${MARKER}`;
+  }
+
+  // Finds the first source token of a node that the AST kept hold of
+  private startToken(node: Stmt | Expr): Token | null {
+    if (node instanceof Var || node instanceof Function || node instanceof Class) return node.name;
+    if (node instanceof Return || node instanceof Break || node instanceof Continue || node instanceof Print) return node.keyword;
+    if (node instanceof Import || node instanceof Export) return node.keyword;
+    if (node instanceof New || node instanceof Self || node instanceof Super) return node.keyword;
+    if (node instanceof ForIn) return node.indexVar;
+    if (node instanceof Expression) return this.startToken(node.expression);
+    if (node instanceof If || node instanceof While) return this.startToken(node.condition);
+    if (node instanceof For) {
+      if (node.initializer) return this.startToken(node.initializer);
+      if (node.condition) return this.startToken(node.condition);
+      return node.increment ? this.startToken(node.increment) : null;
+    }
+    if (node instanceof Binary || node instanceof Logical) return this.startToken(node.left) ?? node.operator;
+    if (node instanceof Unary) return node.operator;
+    if (node instanceof Variable || node instanceof Assign) return node.name;
+    if (node instanceof Call) return this.startToken(node.callee) ?? node.paren;
+    if (node instanceof Get || node instanceof Set) return this.startToken(node.object) ?? node.name;
+    if (node instanceof Index || node instanceof IndexSet) return this.startToken(node.object) ?? node.bracket;
+    if (node instanceof Template || node instanceof Lambda) return node.start;
+    return null;
   }
 
   // Expression visitors
@@ -84,6 +150,22 @@ export class TypeScriptGenerator implements ExprVisitor<string>, StmtVisitor<str
         return `(${left} * ${right})`;
       case TokenType.DIVIDE:
         return `(${left} / ${right})`;
+      case TokenType.MODULO:
+        return `(${left} % ${right})`;
+      case TokenType.FLOOR_DIVIDE:
+        return `Math.floor(${left} / ${right})`;
+      case TokenType.POWER:
+        return `(${left} ** ${right})`;
+      case TokenType.BIT_AND:
+        return `(${left} & ${right})`;
+      case TokenType.BIT_OR:
+        return `(${left} | ${right})`;
+      case TokenType.BIT_XOR:
+        return `(${left} ^ ${right})`;
+      case TokenType.SHIFT_LEFT:
+        return `(${left} << ${right})`;
+      case TokenType.SHIFT_RIGHT:
+        return `(${left} >> ${right})`;
       case TokenType.GREATER:
         return `(${left} > ${right})`;
       case TokenType.GREATER_EQUAL:
@@ -97,7 +179,7 @@ export class TypeScriptGenerator implements ExprVisitor<string>, StmtVisitor<str
       case TokenType.BANG_EQUAL:
         return `(${left} !== ${right})`;
       default:
-        throw new Error(`Unknown binary operator: ${expr.operator.lexeme}`);
+        throw this.error(expr.operator, DiagnosticCode.UnknownOperator, `Unknown binary operator: ${expr.operator.lexeme}`);
     }
   }
 
@@ -110,24 +192,19 @@ export class TypeScriptGenerator implements ExprVisitor<string>, StmtVisitor<str
       case TokenType.NOT:
         return `(!${right})`;
       default:
-        throw new Error(`Unknown unary operator: ${expr.operator.lexeme}`);
+        throw this.error(expr.operator, DiagnosticCode.UnknownOperator, `Unknown unary operator: ${expr.operator.lexeme}`);
     }
   }
 
   visitLiteralExpr(expr: Literal): string {
     if (expr.value === null) return 'null';
     if (typeof expr.value === 'number') return expr.value.toString();
-    if (typeof expr.value === 'string') return `"${expr.value}"`;
+    if (typeof expr.value === 'string') return JSON.stringify(expr.value);
     if (typeof expr.value === 'boolean') return expr.value.toString();
     
     // Handle arrays (lists)
     if (Array.isArray(expr.value)) {
-      const elements = expr.value.map(elem => {
-        if (elem instanceof Literal || elem instanceof Variable || elem instanceof Binary || elem instanceof Call || elem instanceof Get) {
-          return elem.accept(this);
-        }
-        return String(elem);
-      });
+      const elements = expr.value.map((elem: Expr) => elem.accept(this));
       return `[${elements.join(', ')}]`;
     }
     
@@ -151,80 +228,38 @@ export class TypeScriptGenerator implements ExprVisitor<string>, StmtVisitor<str
   }
 
   visitVariableExpr(expr: Variable): string {
-    return expr.name.lexeme;
+    return this.mark(expr.name) + expr.name.lexeme;
   }
 
   visitCallExpr(expr: Call): string {
-    const callee = expr.callee.accept(this);
-    
-    // Special handling for key_down and key_up
-    if (callee === 'key_down' || callee === 'key_up') {
-      // Transform key_down("UpArrow") -> Keyboard.keyDown(Key.UpArrow)
-      const functionName = callee === 'key_down' ? 'keyDown' : 'keyUp';
-      
-      if (expr.args.length > 0 && expr.args[0] instanceof Literal && typeof expr.args[0].value === 'string') {
-        const keyName = expr.args[0].value;
-        return `Keyboard.${functionName}(Key.${keyName})`;
-      }
-      
-      // If not a string literal, fall back to normal handling
-      const args = expr.args.map(arg => arg.accept(this)).join(', ');
-      return `Keyboard.${functionName}(${args})`;
-    }
-    
-    // Math function mappings
-    const mathFunctions: { [key: string]: string } = {
-      'random': 'Math.random',
-      'floor': 'Math.floor',
-      'ceil': 'Math.ceil',
-      'round': 'Math.round',
-      'abs': 'Math.abs',
-      'pow': 'Math.pow',
-      'sqrt': 'Math.sqrt',
-      'min': 'Math.min',
-      'max': 'Math.max',
-      'sin': 'Math.sin',
-      'cos': 'Math.cos',
-      'tan': 'Math.tan',
-      'atan2': 'Math.atan2',
-    };
-    
-    if (callee in mathFunctions) {
-      const args = expr.args.map(arg => arg.accept(this)).join(', ');
-      return `${mathFunctions[callee]}(${args})`;
-    }
-    
-    // Special handling for randrange(min, max) -> Math.random() * (max - min) + min
-    if (callee === 'randrange') {
-      if (expr.args.length === 2) {
-        const min = expr.args[0].accept(this);
-        const max = expr.args[1].accept(this);
-        return `(Math.random() * (${max} - ${min}) + ${min})`;
-      } else if (expr.args.length === 1) {
-        // randrange(max) -> Math.random() * max
-        const max = expr.args[0].accept(this);
-        return `(Math.random() * ${max})`;
-      }
-    }
-    
-    const args = expr.args.map(arg => arg.accept(this)).join(', ');
-    return `${callee}(${args})`;
+    // Built-ins are matched on the bare name so source map markers can't get in the way
+    const callee = expr.callee instanceof Variable ? expr.callee.name.lexeme : null;
+    const args = expr.args.map(arg => this.bare(arg, arg.accept(this)));
+
+    const binding = callee !== null ? functionBinding(this.bindings, callee) : null;
+    const call = !binding ? `${expr.callee.accept(this)}(${args.join(', ')})`
+      : typeof binding.emit === 'string' ? expandTemplate(binding.emit, args) : binding.emit(args, expr);
+    return this.types?.awaits(expr) ? `(await ${call})` : call;
   }
 
   visitGetExpr(expr: Get): string {
     const object = expr.object.accept(this);
-    return `${object}.${expr.name.lexeme}`;
+    return `${object}.${this.mark(expr.name)}${expr.name.lexeme}`;
   }
 
   visitAssignExpr(expr: Assign): string {
     const value = expr.value.accept(this);
-    return `${expr.name.lexeme} = ${value}`;
+    return `${this.mark(expr.name)}${expr.name.lexeme} = ${value}`;
   }
 
   visitSetExpr(expr: Set): string {
     const object = expr.object.accept(this);
+    const compound = expr.compound;
+    if (compound) {
+      return `${object}.${this.mark(expr.name)}${expr.name.lexeme} ${compound.operator.lexeme}= ${compound.right.accept(this)}`;
+    }
     const value = expr.value.accept(this);
-    return `${object}.${expr.name.lexeme} = ${value}`;
+    return `${object}.${this.mark(expr.name)}${expr.name.lexeme} = ${value}`;
   }
 
   visitLogicalExpr(expr: Logical): string {
@@ -237,79 +272,126 @@ export class TypeScriptGenerator implements ExprVisitor<string>, StmtVisitor<str
       case TokenType.OR:
         return `(${left} || ${right})`;
       default:
-        throw new Error(`Unknown logical operator: ${expr.operator.lexeme}`);
+        throw this.error(expr.operator, DiagnosticCode.UnknownOperator, `Unknown logical operator: ${expr.operator.lexeme}`);
+    }
+  }
+
+  visitIndexExpr(expr: Index): string {
+    const object = expr.object.accept(this);
+    const index = expr.index.accept(this);
+    return `${object}[${index}]`;
+  }
+
+  visitIndexSetExpr(expr: IndexSet): string {
+    const object = expr.object.accept(this);
+    const index = expr.index.accept(this);
+    const compound = expr.compound;
+    if (compound) {
+      return `${object}[${index}] ${compound.operator.lexeme}= ${compound.right.accept(this)}`;
+    }
+    const value = expr.value.accept(this);
+    return `${object}[${index}] = ${value}`;
+  }
+
+  visitTemplateExpr(expr: Template): string {
+    const parts = expr.expressions.map((part, i) => `\${${part.accept(this)}}${escapeTemplate(expr.strings[i + 1])}`);
+    return `\`${escapeTemplate(expr.strings[0])}${parts.join('')}\``;
+  }
+
+  // Return types of lambdas are left for TypeScript to infer unless annotated
+  visitLambdaExpr(expr: Lambda): string {
+    const params = expr.params.map((param, i) => `${param.lexeme}${this.typeAnnotation(param, expr.paramTypes[i])}`).join(', ');
+    const isAsync = this.types?.isAsync(expr) ?? false;
+    const returnType = expr.returnType && this.typeMode !== 'none'
+      ? `: ${this.promise(typeToString(fromAnnotation(expr.returnType)), isAsync)}`
+      : '';
+    const async = isAsync ? 'async ' : '';
+
+    const [only] = expr.body;
+    if (expr.body.length === 1 && only instanceof Return && only.value) {
+      const value = this.bare(only.value, only.value.accept(this));
+      // An object literal right after the arrow would read as a block
+      return `${async}(${params})${returnType} => ${value.startsWith('{') ? `(${value})` : value}`;
     }
+
+    const body = expr.body.map(s => `  ${this.statement(s)}`).join('\n');
+    return `${async}(${params})${returnType} => {\n${body}\n}`;
+  }
+
+  visitNewExpr(expr: New): string {
+    const args = expr.args.map(arg => arg.accept(this)).join(', ');
+    return `new ${expr.callee.accept(this)}(${args})`;
+  }
+
+  visitSelfExpr(expr: Self): string {
+    return 'this';
+  }
+
+  // super.init(...) calls the superclass's constructor
+  visitSuperExpr(expr: Super): string {
+    return expr.method.lexeme === 'init' ? 'super' : `super.${expr.method.lexeme}`;
   }
 
   // Statement visitors
   visitVarStmt(stmt: Var): string {
     const name = stmt.name.lexeme;
-    const initializer = stmt.initializer.accept(this);
+    const initializer = this.bare(stmt.initializer, stmt.initializer.accept(this));
     const isGlobal = (stmt as any).isGlobal;
     
     if (isGlobal) {
       return `globals.${name} = ${initializer};`;
     }
     
-    return `let ${name}: any = ${initializer};`;
+    return `let ${name}${this.typeAnnotation(stmt.name, stmt.type)} = ${initializer};`;
   }
 
   visitExpressionStmt(stmt: Expression): string {
-    return stmt.expression.accept(this) + ';';
+    return this.bare(stmt.expression, stmt.expression.accept(this)) + ';';
   }
 
   visitPrintStmt(stmt: Print): string {
-    const expression = stmt.expression.accept(this);
+    const expression = this.bare(stmt.expression, stmt.expression.accept(this));
     return `console.log(${expression});`;
   }
 
   visitFunctionStmt(stmt: Function): string {
     const name = stmt.name.lexeme;
-    const params = stmt.params.map(param => `${param.lexeme}: any`).join(', ');
+    const params = stmt.params.map((param, i) => `${param.lexeme}${this.typeAnnotation(param, stmt.paramTypes[i])}`).join(', ');
+    const returnType = this.returnType(stmt);
     const body = stmt.body.map(s => {
-      const result = s.accept(this);
+      const result = this.statement(s);
       return `  ${result}`;
     }).join('\n');
     const isGlobal = (stmt as any).isGlobal;
+    const async = this.types?.isAsync(stmt) ? 'async ' : '';
     
     // Check if this is a global function
     if (isGlobal) {
-      return `globals.${name} = function (${params}) {\n${body}\n}`;
+      return `globals.${name} = ${async}function (${params})${returnType} {\n${body}\n}`;
     }
     
-    // Check if this is a special function name
-    if (name === '_forever' || name === '_on_collision' || name === '_on_clone_start') {
-      const functionName = toCamelCase(name.substring(1)); // Remove leading underscore
-
-      return `${functionName}((${params}) => {\n${body}\n})`;
+    // Hooks hand the function to the engine instead of declaring it. They're
+    // async whether or not they wait, so the engine can treat them all alike.
+    const hook = hookBinding(this.bindings, name);
+    if (hook) {
+      const callback = `async (${params}) => {\n${body}\n}`;
+      return typeof hook.emit === 'string' ? expandTemplate(hook.emit, [callback]) : hook.emit(callback, stmt);
     }
     
-    return `function ${name}(${params}) {\n${body}\n}`;
+    return `${async}function ${name}(${params})${returnType} {\n${body}\n}`;
   }
 
   visitReturnStmt(stmt: Return): string {
     if (stmt.value === null) {
       return 'return;';
     }
-    
-    // Try to evaluate the expression at compile time (only for simple numeric expressions)
-    const evaluatedValue = this.evaluateExpression(stmt.value);
-    
-    let expression: string;
-    // Only use evaluated value if it's a number (not objects, arrays, etc.)
-    if (typeof evaluatedValue === 'number') {
-      expression = evaluatedValue.toString();
-    } else {
-      expression = stmt.value.accept(this);
-    }
-    
-    return `return ${expression};`;
+    return `return ${this.bare(stmt.value, stmt.value.accept(this))};`;
   }
 
   visitIfStmt(stmt: If): string {
     const condition = stmt.condition.accept(this);
     const thenBranch = stmt.thenBranch.map(s => {
-      const result = s.accept(this);
+      const result = this.statement(s);
       return `  ${result}`;
     }).join('\n');
 
@@ -319,7 +401,7 @@ export class TypeScriptGenerator implements ExprVisitor<string>, StmtVisitor<str
     for (const elseifBranch of stmt.elseifBranches) {
       const elseifCondition = elseifBranch.condition.accept(this);
       const elseifBody = elseifBranch.body.map(s => {
-        const stmtResult = s.accept(this);
+        const stmtResult = this.statement(s);
         return `  ${stmtResult}`;
       }).join('\n');
       result += ` else if (${elseifCondition}) {\n${elseifBody}\n}`;
@@ -328,7 +410,7 @@ export class TypeScriptGenerator implements ExprVisitor<string>, StmtVisitor<str
     // Handle else branch
     if (stmt.elseBranch) {
       const elseBranch = stmt.elseBranch.map(s => {
-        const stmtResult = s.accept(this);
+        const stmtResult = this.statement(s);
         return `  ${stmtResult}`;
       }).join('\n');
       result += ` else {\n${elseBranch}\n}`;
@@ -340,7 +422,7 @@ export class TypeScriptGenerator implements ExprVisitor<string>, StmtVisitor<str
   visitWhileStmt(stmt: While): string {
     const condition = stmt.condition.accept(this);
     const body = stmt.body.map(s => {
-      const result = s.accept(this);
+      const result = this.statement(s);
       return `  ${result}`;
     }).join('\n');
 
@@ -361,7 +443,7 @@ export class TypeScriptGenerator implements ExprVisitor<string>, StmtVisitor<str
     const incrPart = stmt.increment ? stmt.increment.accept(this) : '';
 
     const body = stmt.body.map(s => {
-      const result = s.accept(this);
+      const result = this.statement(s);
       return `  ${result}`;
     }).join('\n');
 
@@ -374,7 +456,7 @@ export class TypeScriptGenerator implements ExprVisitor<string>, StmtVisitor<str
     const iterable = stmt.iterable.accept(this);
 
     const body = stmt.body.map(s => {
-      const result = s.accept(this);
+      const result = this.statement(s);
       return `  ${result}`;
     }).join('\n');
 
@@ -383,36 +465,97 @@ export class TypeScriptGenerator implements ExprVisitor<string>, StmtVisitor<str
       return `for (const ${itemVar} of ${iterable}) {\n${body}\n}`;
     }
 
-    // Otherwise, use forEach to get both index and item
-    return `${iterable}.forEach((${itemVar}, ${indexVar}) => {\n${body}\n})`;
+    // Otherwise, use entries() to get both index and item. This stays a real
+    // loop (unlike forEach) so break and continue work inside it.
+    return `for (const [${indexVar}, ${itemVar}] of ${iterable}.entries()) {\n${body}\n}`;
+  }
+
+  visitBreakStmt(stmt: Break): string {
+    return 'break;';
   }
 
-  // Helper method to determine if an expression is numeric
-  private isNumericExpression(expr: Expr): boolean {
-    if (expr instanceof Literal) {
-      return typeof expr.value === 'number';
+  visitContinueStmt(stmt: Continue): string {
+    return 'continue;';
+  }
+
+  visitImportStmt(stmt: Import): string {
+    // The generated file sits next to the one it imports, with a .ts extension
+    const path = stmt.path.literal.replace(/\.wisp$/, '');
+    return `import { ${stmt.names.map(name => name.lexeme).join(', ')} } from ${JSON.stringify(path)};`;
+  }
+
+  visitExportStmt(stmt: Export): string {
+    return `export ${stmt.declaration.accept(this)}`;
+  }
+
+  // Fields the methods only assign through self are declared as well, since
+  // TypeScript needs to know every property of a class
+  visitClassStmt(stmt: Class): string {
+    const name = stmt.name.lexeme;
+    const members: string[] = [];
+
+    for (const field of stmt.fields) {
+      const initializer = field.initializer.accept(this);
+      members.push(`${this.mark(field.name)}${field.name.lexeme}${this.typeAnnotation(field.name, field.type)} = ${initializer};`);
     }
-    
-    if (expr instanceof Binary) {
-      const isArithmetic = [
-        TokenType.PLUS, TokenType.MINUS, 
-        TokenType.MULTIPLY, TokenType.DIVIDE
-      ].includes(expr.operator.type);
-      
-      // For arithmetic operations, assume result is numeric
-      return isArithmetic;
+    // JavaScript classes take any property, so this is only for TypeScript
+    for (const field of this.typeMode === 'none' ? [] : this.types?.undeclaredFieldsOf(stmt) ?? []) {
+      members.push(`declare ${field}: any;`);
     }
-    
-    if (expr instanceof Unary) {
-      return expr.operator.type === TokenType.MINUS && 
-             this.isNumericExpression(expr.right);
+    for (const method of stmt.methods) {
+      const params = method.params.map((param, i) => `${param.lexeme}${this.typeAnnotation(param, method.paramTypes[i])}`).join(', ');
+      const body = method.body.map(s => `  ${this.statement(s)}`).join('\n');
+      const signature = method.name.lexeme === 'init'
+        ? `constructor(${params})`
+        : `${this.types?.isAsync(method) ? 'async ' : ''}${method.name.lexeme}(${params})${this.returnType(method)}`;
+      members.push(`${this.mark(method.name)}${signature} {\n${body}\n}`);
     }
-    
-    // For variables in arithmetic context, assume numeric
-    if (expr instanceof Variable) {
-      return true; // Basic assumption for math context
+
+    const superclass = stmt.superclass ? ` extends ${stmt.superclass.accept(this)}` : '';
+    if (members.length === 0) return `class ${name}${superclass} {}`;
+    const body = members.map(member => `  ${member.replace(/\n/g, '\n  ')}`).join('\n');
+    return `class ${name}${superclass} {\n${body}\n}`;
+  }
+
+  // Handlers are registered with the engine, which calls them with nothing.
+  // Like hooks, they're always async.
+  visitOnStmt(stmt: On): string {
+    const event = eventBinding(this.bindings, stmt.event.lexeme);
+    if (!event) {
+      throw this.error(stmt.event, DiagnosticCode.UnknownEvent, `Unknown event '${stmt.event.lexeme}'.`);
     }
-    
-    return false;
+    const args = stmt.args.map(arg => arg.accept(this));
+    const body = stmt.body.map(s => `  ${this.statement(s)}`).join('\n');
+    const handler = `async () => {\n${body}\n}`;
+    return typeof event.emit === 'string' ? expandTemplate(event.emit, [...args, handler]) : event.emit(args, handler, stmt);
+  }
+
+  private returnType(fn: Function): string {
+    if (this.typeMode === 'none') return '';
+    const isAsync = this.types?.isAsync(fn) ?? false;
+    if (this.types && this.typeMode === 'inferred') return `: ${this.promise(typeToString(this.types.returnTypeOf(fn)), isAsync)}`;
+    return fn.returnType ? `: ${this.promise(typeToString(fromAnnotation(fn.returnType)), isAsync)}` : '';
+  }
+
+  private promise(type: string, isAsync: boolean): string {
+    return isAsync ? `Promise<${type}>` : type;
+  }
+
+  // An awaited call needs no parentheses when it's all there is, e.g. as a
+  // statement, a var's initializer or an argument
+  private bare(expr: Expr, code: string): string {
+    return expr instanceof Call && this.types?.awaits(expr) ? code.slice(1, -1) : code;
+  }
+
+  // The `: type` after a declaration. Without inferred types, only what the
+  // script spelled out is known.
+  private typeAnnotation(declaration: Token, annotation: TypeAnnotation | null = null): string {
+    if (this.typeMode === 'none') return '';
+    if (this.types && this.typeMode === 'inferred') return `: ${typeToString(this.types.typeOf(declaration))}`;
+    return `: ${annotation ? typeToString(fromAnnotation(annotation)) : 'any'}`;
+  }
+
+  private error(token: Token, code: DiagnosticCode, message: string): DiagnosticError {
+    return new DiagnosticError(createDiagnostic(code, message, tokenSpan(token)));
   }
 }
\ No newline at end of file
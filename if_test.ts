@@ -13,7 +13,7 @@ end
 console.log('Input:');
 console.log(test1);
 console.log('Output:');
-console.log(transpile(test1));
+console.log(transpile(test1, { optimize: false }));
 console.log('---\n');
 
 // Test 2: If with multiple conditions using AND
@@ -30,7 +30,7 @@ end
 console.log('Input:');
 console.log(test2);
 console.log('Output:');
-console.log(transpile(test2));
+console.log(transpile(test2, { optimize: false }));
 console.log('---\n');
 
 // Test 3: If with multiple conditions using OR
@@ -46,7 +46,7 @@ end
 console.log('Input:');
 console.log(test3);
 console.log('Output:');
-console.log(transpile(test3));
+console.log(transpile(test3, { optimize: false }));
 console.log('---\n');
 
 // Test 4: If-else statement
@@ -63,7 +63,7 @@ end
 console.log('Input:');
 console.log(test4);
 console.log('Output:');
-console.log(transpile(test4));
+console.log(transpile(test4, { optimize: false }));
 console.log('---\n');
 
 // Test 5: If-elseif-else statement
@@ -73,9 +73,9 @@ var score = 75
 
 if (score >= 90)
   print("A")
-elseif (score >= 80)
+elif (score >= 80)
   print("B")
-elseif (score >= 70)
+elif (score >= 70)
   print("C")
 else
   print("F")
@@ -84,7 +84,7 @@ end
 console.log('Input:');
 console.log(test5);
 console.log('Output:');
-console.log(transpile(test5));
+console.log(transpile(test5, { optimize: false }));
 console.log('---\n');
 
 // Test 6: Complex condition
@@ -103,7 +103,7 @@ end
 console.log('Input:');
 console.log(test6);
 console.log('Output:');
-console.log(transpile(test6));
+console.log(transpile(test6, { optimize: false }));
 console.log('---\n');
 
 // Test 7: Comparison operators
@@ -131,5 +131,5 @@ end
 console.log('Input:');
 console.log(test7);
 console.log('Output:');
-console.log(transpile(test7));
+console.log(transpile(test7, { optimize: false }));
 console.log('---\n');
@@ -0,0 +1,495 @@
+import { Lexer } from './lexer';
+import { Parser } from './parser';
+import { Resolver } from './resolver';
+import { TypeInferrer, TypeInfo, typeToString } from './types';
+import { Optimizer, Constant } from './optimizer';
+import { TypeScriptGenerator, TypeMode } from './generator';
+import { Diagnostic, DiagnosticError, Position } from './diagnostics';
+import { Stmt, Var } from './ast';
+import { Token, TokenType } from './tokens';
+import { AnalyzeOptions } from './transpiler';
+
+// Text that replaces the characters from start up to end
+export interface TextChange {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface IncrementalOptions extends AnalyzeOptions {
+  // Fold constants and remove dead code (default true)
+  optimize?: boolean;
+  // How declarations are typed (default 'inferred'); 'none' gives JavaScript
+  types?: TypeMode;
+}
+
+export interface IncrementalStats {
+  // Tokens scanned again for the edit
+  relexedTokens: number;
+  // Top-level statements parsed again, and those whose code was generated again
+  reparsedStatements: number;
+  regeneratedStatements: number;
+  // Top-level statements in the script
+  statements: number;
+}
+
+export interface IncrementalResult {
+  // Code for the last version of the script that had no errors
+  code: string;
+  // Errors in the current version, which leave the code as it was
+  diagnostics: Diagnostic[];
+  // The part of the previous code that changed, or null if none did
+  change: TextChange | null;
+  stats: IncrementalStats;
+}
+
+// A top-level statement, or the tokens the parser skipped after an error
+interface Slot {
+  // Indexes of its first token, the token after its last and the furthest
+  // token parsing it looked at
+  start: number;
+  end: number;
+  furthest: number;
+  stmt: Stmt | null;
+  errors: Diagnostic[];
+  // Tokens the parser made up for it, which move with the source
+  synthetic: Token[];
+  // Whether parsing it split a '>>' in the token list in two
+  splits: boolean;
+  // How many strings its first token is in an interpolated expression of.
+  // Only statements outside strings are safe to start scanning from.
+  depth: number;
+}
+
+// Code generated for a statement, with everything it was generated from
+// that other statements can change
+interface Chunk {
+  code: string;
+  // Whether optimizing left no statements, so the code takes no line
+  empty: boolean;
+  // Calls to TypeInfo while generating, with their answers
+  queries: Array<{ method: keyof TypeInfo; argument: any; answer: string }>;
+  // For each name in the statement: what it resolves to, whether it's
+  // reassigned, and the constant value of a declaration outside the statement
+  names: Array<{ token: Token; declaration: Token | undefined; reassigned: boolean; constant: Constant | undefined }>;
+}
+
+// Tracks how deep in interpolated expressions tokens are. An INTERPOLATION
+// token starting with a quote opens a string's expression; a STRING token
+// after one starts with the '}' that closed it.
+function interpolationDepth(tokens: Token[], from: number, to: number, depth: number): number {
+  for (let i = from; i < to; i++) {
+    const token = tokens[i];
+    if (token.type === TokenType.INTERPOLATION && token.lexeme[0] !== '}') depth++;
+    else if (token.type === TokenType.STRING && token.lexeme[0] === '}') depth--;
+  }
+  return depth;
+}
+
+function sameToken(a: Token, b: Token): boolean {
+  return a.type === b.type && a.lexeme === b.lexeme && a.offset === b.offset;
+}
+
+function byOffset(a: Diagnostic, b: Diagnostic): number {
+  return a.span.start.offset - b.span.start.offset;
+}
+
+// Answers TypeInfo calls from types, recording each call and its answer
+function recordingTypes(types: TypeInfo, chunk: Chunk): TypeInfo {
+  const record = <T>(method: keyof TypeInfo, argument: any, result: T, answer: string): T => {
+    chunk.queries.push({ method, argument, answer });
+    return result;
+  };
+  return {
+    typeOf: declaration => {
+      const type = types.typeOf(declaration);
+      return record('typeOf', declaration, type, typeToString(type));
+    },
+    returnTypeOf: fn => {
+      const type = types.returnTypeOf(fn);
+      return record('returnTypeOf', fn, type, typeToString(type));
+    },
+    isAsync: fn => {
+      const isAsync = types.isAsync(fn);
+      return record('isAsync', fn, isAsync, String(isAsync));
+    },
+    awaits: call => {
+      const awaits = types.awaits(call);
+      return record('awaits', call, awaits, String(awaits));
+    },
+    undeclaredFieldsOf: cls => {
+      const fields = types.undeclaredFieldsOf(cls);
+      return record('undeclaredFieldsOf', cls, fields, fields.join(','));
+    }
+  };
+}
+
+// The answer a call recorded by recordingTypes gets now
+function askAgain(types: TypeInfo, method: keyof TypeInfo, argument: any): string {
+  switch (method) {
+    case 'typeOf': return typeToString(types.typeOf(argument));
+    case 'returnTypeOf': return typeToString(types.returnTypeOf(argument));
+    case 'isAsync': return String(types.isAsync(argument));
+    case 'awaits': return String(types.awaits(argument));
+    case 'undeclaredFieldsOf': return types.undeclaredFieldsOf(argument).join(',');
+  }
+}
+
+/**
+ * Transpiles a script as it's being edited, redoing as little as it can.
+ *
+ * The tokens and top-level statements are kept between edits. An edit
+ * re-scans from the top-level statement before it up to the first one after
+ * it that scans the same, and re-parses only the statements whose tokens
+ * changed (or that looked ahead at tokens that changed). Tokens after the
+ * edit are moved rather than scanned again, and the statements they make up
+ * are reused as they are.
+ *
+ * Names and types still get checked across the whole script, since an edit
+ * anywhere can change them. Code is generated a top-level statement at a
+ * time and kept for statements whose tree, names and types are the same as
+ * last time, so only the parts of the output that changed are generated.
+ *
+ * Source maps aren't supported; use transpile() for those.
+ */
+export class IncrementalTranspiler {
+  private text: string;
+  private tokens: Token[] = [];
+  private slots: Slot[] = [];
+  private lexErrors: Diagnostic[] = [];
+  private chunks = new Map<Stmt, Chunk>();
+  // Code of each top-level statement that has any, in order
+  private output: string[] = [];
+  private errors: Diagnostic[] = [];
+
+  constructor(source: string, private options: IncrementalOptions = {}) {
+    this.text = source;
+    this.rebuild();
+    this.check();
+  }
+
+  get source(): string {
+    return this.text;
+  }
+
+  get code(): string {
+    return this.output.join('\n');
+  }
+
+  get diagnostics(): Diagnostic[] {
+    return this.errors;
+  }
+
+  /**
+   * Applies changes to the source one after another, so each one's offsets
+   * are in the source as the changes before it left it
+   * @returns The new code, what changed in it and how much work it took
+   * @throws RangeError if a change isn't inside the source, before applying any
+   */
+  edit(...changes: TextChange[]): IncrementalResult {
+    let length = this.text.length;
+    for (const { start, end, text } of changes) {
+      if (!Number.isInteger(start) || !Number.isInteger(end) || start < 0 || start > end || end > length || typeof text !== 'string') {
+        throw new RangeError(`Change ${start}-${end} isn't inside the source.`);
+      }
+      length += text.length - (end - start);
+    }
+
+    const previous = this.output;
+    const stats: IncrementalStats = { relexedTokens: 0, reparsedStatements: 0, regeneratedStatements: 0, statements: 0 };
+    let parsedDifferently = false;
+    for (const change of changes) {
+      if (this.apply(change, stats)) parsedDifferently = true;
+    }
+    // Only statements that parsed differently can change what the script
+    // means, though errors from checking it have to move with the source
+    const syntaxErrors = this.collectSyntaxErrors();
+    if (parsedDifferently || (syntaxErrors.length === 0 && this.errors.length > 0)) {
+      stats.regeneratedStatements = this.check();
+    } else {
+      this.errors = syntaxErrors;
+    }
+    stats.statements = this.slots.length;
+    return { code: this.code, diagnostics: this.errors, change: this.changeSince(previous), stats };
+  }
+
+  // Scans and parses the whole source again
+  private rebuild(): void {
+    const lexer = new Lexer(this.text);
+    this.tokens = lexer.scanTokens();
+    this.lexErrors = lexer.errors;
+    this.slots = [];
+    this.parse(0, 0, [], 0);
+  }
+
+  // Parses top-level statements from the token at index until it gets to
+  // the first of the suffix, which are left as they were once their
+  // indexes are moved by shift. Returns how many it parsed.
+  private parse(index: number, depth: number, suffix: Slot[], shift: number): number {
+    const parser = new Parser(this.tokens);
+    const parsed: Slot[] = [];
+    let next = 0;
+    let scanned = index;
+
+    for (;;) {
+      // Statements the new ones have run over get parsed again
+      while (next < suffix.length && suffix[next].start + shift < index) {
+        if (suffix[next].splits) return this.parseEverything();
+        next++;
+      }
+      if (next < suffix.length && suffix[next].start + shift === index) break;
+      if (this.tokens[index].type === TokenType.EOF) break;
+
+      depth = interpolationDepth(this.tokens, scanned, index, depth);
+      scanned = index;
+      const length = this.tokens.length;
+      const errors = parser.errors.length;
+      const synthetic = parser.syntheticTokens.length;
+      const { stmt, next: end, furthest } = parser.parseAt(index);
+      const splits = this.tokens.length - length;
+      shift += splits;
+      parsed.push({
+        start: index,
+        end,
+        furthest,
+        stmt,
+        errors: parser.errors.slice(errors),
+        synthetic: parser.syntheticTokens.slice(synthetic),
+        splits: splits > 0,
+        depth
+      });
+      index = end;
+    }
+
+    const reused = suffix.slice(next);
+    for (const slot of reused) {
+      slot.start += shift;
+      slot.end += shift;
+      slot.furthest += shift;
+    }
+    this.slots.push(...parsed, ...reused);
+    return parsed.length;
+  }
+
+  private parseEverything(): number {
+    this.rebuild();
+    return this.slots.length;
+  }
+
+  // Returns whether the top-level statements changed
+  private apply(change: TextChange, stats: IncrementalStats): boolean {
+    const old = this.text;
+    const { tokens, slots } = this;
+    const delta = change.text.length - (change.end - change.start);
+    this.text = old.slice(0, change.start) + change.text + old.slice(change.end);
+
+    // Scan from the last statement starting before the change, outside any
+    // string, until reaching where a statement after it started before
+    let first = slots.length - 1;
+    while (first >= 0 && (tokens[slots[first].start].offset >= change.start || slots[first].depth > 0)) first--;
+    const from = first >= 0 ? slots[first].start : 0;
+    const start: Position = first >= 0 ? tokens[from] : { line: 1, column: 1, offset: 0 };
+
+    let stop = first + 1;
+    while (stop < slots.length && tokens[slots[stop].start].offset < change.end) stop++;
+    const lexer = new Lexer(this.text, { line: start.line, column: start.column, offset: start.offset });
+    const scanned = lexer.scanUntil(offset => {
+      while (stop < slots.length && (slots[stop].depth > 0 || tokens[slots[stop].start].offset + delta < offset)) stop++;
+      return stop < slots.length && tokens[slots[stop].start].offset + delta === offset;
+    });
+    const reachedEnd = scanned.length > 0 && scanned[scanned.length - 1].type === TokenType.EOF;
+    const to = reachedEnd ? tokens.length : slots[stop].start;
+    const stopOffset = reachedEnd ? Infinity : tokens[to].offset;
+    stats.relexedTokens += scanned.length;
+
+    // Tokens that scanned the same before the change are kept, so
+    // statements that only looked at those don't need parsing again
+    let same = 0;
+    while (same < scanned.length && from + same < to && scanned[same].offset < change.start && sameToken(scanned[same], tokens[from + same])) {
+      scanned[same] = tokens[from + same];
+      same++;
+    }
+    const changed = from + same;
+    this.tokens = tokens.slice(0, changed).concat(scanned.slice(same), tokens.slice(to));
+    const shift = this.tokens.length - tokens.length;
+
+    // Move everything after the scanned part along with the source
+    const removed = old.slice(change.start, change.end);
+    const lineDelta = change.text.split('\n').length - removed.split('\n').length;
+    const lineBreak = old.indexOf('\n', change.end);
+    const endOfLine = lineBreak === -1 ? Infinity : lineBreak + 1;
+    const newEnd = change.start + change.text.length;
+    const columnDelta = delta - ((this.text.lastIndexOf('\n', newEnd - 1) + 1) - (old.lastIndexOf('\n', change.end - 1) + 1));
+    const move = (position: Position): void => {
+      if (position.offset < endOfLine) position.column += columnDelta;
+      position.offset += delta;
+      position.line += lineDelta;
+    };
+    const moved = (position: Position): Position => {
+      const copy = { ...position };
+      move(copy);
+      return copy;
+    };
+    const moveDiagnostic = (diagnostic: Diagnostic): Diagnostic =>
+      ({ ...diagnostic, span: { start: moved(diagnostic.span.start), end: moved(diagnostic.span.end) } });
+
+    for (let i = to + shift; i < this.tokens.length; i++) move(this.tokens[i]);
+    for (let i = stop; i < slots.length; i++) {
+      slots[i].synthetic.forEach(move);
+      slots[i].errors = slots[i].errors.map(moveDiagnostic);
+    }
+    this.lexErrors = [
+      ...this.lexErrors.filter(error => error.span.start.offset < start.offset),
+      ...lexer.errors,
+      ...this.lexErrors.filter(error => error.span.start.offset >= stopOffset).map(moveDiagnostic)
+    ];
+
+    // Parse again from the first statement that looked at a changed token.
+    // Statements before it keep their indexes.
+    let reparse = 0;
+    while (reparse < slots.length && slots[reparse].furthest < changed) reparse++;
+    // A '>>' split while parsing would be back in one piece from scanning
+    for (let i = reparse; i < Math.max(first, 0); i++) {
+      if (slots[i].splits) {
+        stats.reparsedStatements += this.parseEverything();
+        return true;
+      }
+    }
+    const index = reparse < slots.length ? slots[reparse].start : (slots.length > 0 ? slots[slots.length - 1].end : 0);
+    const depth = reparse < slots.length ? slots[reparse].depth : 0;
+    this.slots = slots.slice(0, reparse);
+    const parsed = this.parse(index, depth, reachedEnd ? [] : slots.slice(stop), shift);
+    stats.reparsedStatements += parsed;
+    return parsed > 0 || this.slots.length !== slots.length;
+  }
+
+  private collectSyntaxErrors(): Diagnostic[] {
+    const errors = [...this.lexErrors];
+    for (const slot of this.slots) errors.push(...slot.errors);
+    return errors.sort(byOffset);
+  }
+
+  // Checks the script and generates code for it if it has no errors.
+  // Returns how many statements had code generated.
+  private check(): number {
+    this.errors = this.collectSyntaxErrors();
+    if (this.errors.length > 0) return 0;
+
+    const statements: Stmt[] = [];
+    for (const slot of this.slots) {
+      if (slot.stmt) statements.push(slot.stmt);
+    }
+    const resolver = new Resolver({ hostGlobals: this.options.hostGlobals, bindings: this.options.bindings });
+    resolver.resolve(statements);
+    if (resolver.errors.length > 0) {
+      this.errors = resolver.errors;
+      return 0;
+    }
+    const inferrer = new TypeInferrer(resolver.resolutions, this.options.bindings);
+    const types = inferrer.infer(statements);
+    if (inferrer.errors.length > 0) {
+      this.errors = inferrer.errors;
+      return 0;
+    }
+
+    const optimizer = this.options.optimize === false ? null : new Optimizer(resolver.resolutions, resolver.reassigned);
+    const chunks = new Map<Stmt, Chunk>();
+    const output: string[] = [];
+    let generated = 0;
+    try {
+      for (const slot of this.slots) {
+        if (!slot.stmt) continue;
+        let chunk = this.chunks.get(slot.stmt);
+        if (chunk && this.isCurrent(chunk, slot, types, resolver, optimizer)) {
+          // Later statements still need the value if it's a constant
+          if (optimizer && slot.stmt instanceof Var) optimizer.optimizeStatement(slot.stmt);
+        } else {
+          chunk = this.generate(slot, types, resolver, optimizer);
+          generated++;
+        }
+        chunks.set(slot.stmt, chunk);
+        if (!chunk.empty) output.push(chunk.code);
+      }
+    } catch (error) {
+      if (!(error instanceof DiagnosticError)) throw error;
+      this.errors = [error.diagnostic];
+      return generated;
+    }
+    this.chunks = chunks;
+    this.output = output;
+    return generated;
+  }
+
+  private generate(slot: Slot, types: TypeInfo, resolver: Resolver, optimizer: Optimizer | null): Chunk {
+    const chunk: Chunk = { code: '', empty: false, queries: [], names: [] };
+    // Names first, so constants are the ones the optimizer uses
+    chunk.names = this.namesIn(slot).map(token => {
+      const declaration = resolver.resolutions.get(token);
+      return {
+        token,
+        declaration,
+        reassigned: resolver.reassigned.has(token),
+        constant: this.constantOutside(slot, declaration, optimizer)
+      };
+    });
+    const program = optimizer ? optimizer.optimizeStatement(slot.stmt!) : [slot.stmt!];
+    chunk.code = new TypeScriptGenerator(recordingTypes(types, chunk), this.options.bindings, this.options.types).generate(program);
+    chunk.empty = program.length === 0;
+    return chunk;
+  }
+
+  // Whether generating the statement again would give the same code
+  private isCurrent(chunk: Chunk, slot: Slot, types: TypeInfo, resolver: Resolver, optimizer: Optimizer | null): boolean {
+    return chunk.names.every(name =>
+      resolver.resolutions.get(name.token) === name.declaration &&
+      resolver.reassigned.has(name.token) === name.reassigned &&
+      this.constantOutside(slot, name.declaration, optimizer) === name.constant
+    ) && chunk.queries.every(query => askAgain(types, query.method, query.argument) === query.answer);
+  }
+
+  // Names the statement uses or declares, which are what other statements
+  // can change the meaning of
+  private namesIn(slot: Slot): Token[] {
+    const names: Token[] = [];
+    for (let i = slot.start; i < slot.end; i++) {
+      if (this.tokens[i].type === TokenType.IDENTIFIER) names.push(this.tokens[i]);
+    }
+    for (const token of slot.synthetic) {
+      if (token.type === TokenType.IDENTIFIER) names.push(token);
+    }
+    return names;
+  }
+
+  // Constants declared inside the statement come from optimizing it, so only
+  // others can make its code out of date
+  private constantOutside(slot: Slot, declaration: Token | undefined, optimizer: Optimizer | null): Constant | undefined {
+    if (!declaration || !optimizer) return undefined;
+    const inside = declaration.offset >= this.tokens[slot.start].offset && declaration.offset < this.tokens[slot.end].offset;
+    return inside ? undefined : optimizer.constantOf(declaration);
+  }
+
+  // The smallest change from the code made of the previous chunks to the current code
+  private changeSince(previous: string[]): TextChange | null {
+    const current = this.output;
+    if (previous === current) return null;
+    const before = previous.join('\n');
+    const after = current.join('\n');
+
+    // Skip whole statements first, then characters
+    let start = 0;
+    for (let i = 0; i < previous.length && i < current.length && previous[i] === current[i]; i++) {
+      start += previous[i].length + 1;
+    }
+    start = Math.min(start, before.length, after.length);
+    while (start < before.length && start < after.length && before[start] === after[start]) start++;
+    let end = 0;
+    for (let i = 1; i <= previous.length && i <= current.length && previous[previous.length - i] === current[current.length - i]; i++) {
+      end += previous[previous.length - i].length + 1;
+    }
+    end = Math.min(end, before.length - start, after.length - start);
+    while (end < before.length - start && end < after.length - start && before[before.length - end - 1] === after[after.length - end - 1]) end++;
+
+    if (before.length === after.length && start === before.length) return null;
+    return { start, end: before.length - end, text: after.slice(start, after.length - end) };
+  }
+}
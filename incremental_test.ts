@@ -0,0 +1,124 @@
+import { IncrementalTranspiler, IncrementalResult } from './incremental';
+import { transpile, TranspileError } from './transpiler';
+import { formatDiagnostic } from './diagnostics';
+
+console.log('=== Testing Incremental Transpiling ===\n');
+
+const source = `var speed = 3
+var LIMIT = 10
+
+func move(dx, dy)
+  sprite.x += dx * speed
+  sprite.y += dy
+end
+
+class Enemy
+  var hp = 3
+  func hit(n)
+    self.hp -= n
+  end
+end
+
+on timer(2)
+  move(1, 0)
+  print("hp {LIMIT} left")
+end
+`;
+
+// Replaces the first occurrence of text in the session's source
+function replace(session: IncrementalTranspiler, text: string, replacement: string): IncrementalResult {
+  const start = session.source.indexOf(text);
+  return session.edit({ start, end: start + text.length, text: replacement });
+}
+
+function show(result: IncrementalResult) {
+  const { stats } = result;
+  console.log(`Parsed ${stats.reparsedStatements}/${stats.statements} statements, generated ${stats.regeneratedStatements}`);
+  if (result.change) console.log(`Changed ${result.change.start}-${result.change.end}: ${JSON.stringify(result.change.text)}`);
+  else console.log('Code unchanged');
+  result.diagnostics.forEach(diagnostic => console.log(formatDiagnostic(diagnostic)));
+}
+
+// Whether the session agrees with transpiling its source from scratch
+function matchesFullTranspile(session: IncrementalTranspiler, lastCode: string): boolean {
+  try {
+    const code = transpile(session.source);
+    return session.diagnostics.length === 0 && session.code === code;
+  } catch (error) {
+    if (!(error instanceof TranspileError)) throw error;
+    return session.code === lastCode && JSON.stringify(session.diagnostics) === JSON.stringify(error.diagnostics);
+  }
+}
+
+// Test 1: Editing inside a function re-parses and generates only that function
+console.log('Test 1: Edit inside a function');
+const session = new IncrementalTranspiler(source);
+show(replace(session, 'sprite.y += dy', 'sprite.y -= dy'));
+console.log(matchesFullTranspile(session, ''));
+console.log('---\n');
+
+// Test 2: Comments and whitespace only move what comes after them
+console.log('Test 2: Comments and blank lines');
+show(session.edit({ start: 0, end: 0, text: '// Player\n\n' }));
+show(replace(session, 'class Enemy', '// Enemies\nclass Enemy'));
+console.log(matchesFullTranspile(session, ''));
+console.log('---\n');
+
+// Test 3: Syntax errors keep the last code until they're fixed
+console.log('Test 3: Errors while typing');
+const before = session.code;
+show(replace(session, '  move(1, 0)', '  move(1, '));
+show(replace(session, 'hp -= n', 'hp -= m'));
+console.log(session.code === before);
+show(replace(session, 'hp -= m', 'hp -= n'));
+show(replace(session, '  move(1, ', '  move(1, 0)'));
+console.log(session.code === before);
+console.log('---\n');
+
+// Test 4: A constant's value is inlined, so statements using it are generated again
+console.log('Test 4: Changing a constant');
+show(replace(session, 'LIMIT = 10', 'LIMIT = 20'));
+show(replace(session, 'LIMIT = 20', 'LIMIT = 20\nLIMIT += 1'));
+console.log(matchesFullTranspile(session, ''));
+console.log('---\n');
+
+// Test 5: Edits that change how later text scans, like opening a string or
+// a comment, and several edits at once
+console.log('Test 5: Strings, comments and batches');
+show(replace(session, 'func move', '/* func move'));
+show(replace(session, '/* func move', 'func move'));
+show(replace(session, 'print("hp', 'print(hp'));
+show(replace(session, 'print(hp', 'print("hp'));
+const end = session.source.length;
+const speed = session.source.indexOf('speed = 3');
+show(session.edit(
+  { start: end, end, text: 'var grid: list<list<number>> = []\n' },
+  { start: speed, end: speed + 'speed = 3'.length, text: 'speed = 4' }
+));
+console.log(matchesFullTranspile(session, ''));
+console.log('---\n');
+
+// Test 6: Random edits always agree with transpiling from scratch
+console.log('Test 6: Random edits');
+const pieces = ['\n', ' ', 'x', '(', ')', '"', '{', '}', 'end\n', 'var y = 1\n', '// note\n', '/*', '*/', '>>', '+= 2', 'func f()\n', 'LIMIT', '@'];
+let seed = 42;
+function random(n: number): number {
+  seed = (seed * 1103515245 + 12345) % 2147483648;
+  return seed % n;
+}
+let edits = 0;
+let mismatches = 0;
+for (let run = 0; run < 20; run++) {
+  const fuzzed = new IncrementalTranspiler(source);
+  let lastCode = fuzzed.code;
+  for (let step = 0; step < 15; step++) {
+    const start = random(fuzzed.source.length + 1);
+    const end = Math.min(fuzzed.source.length, start + random(3) * random(6));
+    const result = fuzzed.edit({ start, end, text: random(3) === 0 ? '' : pieces[random(pieces.length)] });
+    edits++;
+    if (!matchesFullTranspile(fuzzed, lastCode)) mismatches++;
+    lastCode = result.code;
+  }
+}
+console.log(`${edits} edits, ${mismatches} mismatches`);
+console.log('---\n');
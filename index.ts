@@ -1,7 +1,20 @@
 // Main entry point for WispScript transpiler
-export { transpile } from './transpiler';
-export { Lexer } from './lexer';
-export { Parser } from './parser';
-export { TypeScriptGenerator } from './generator';
-export { TokenType, Token, TokenImpl } from './tokens';
-export * from './ast';
\ No newline at end of file
+export { transpile, analyze, emit, TranspileError, TranspileOptions, TranspileResult, AnalyzeOptions, Analysis } from './transpiler';
+export { Lexer, KEYWORDS } from './lexer';
+export { Parser, ParseError, SourceRanges } from './parser';
+export { TypeScriptGenerator, SourceMapOptions, TypeMode } from './generator';
+export { Resolver, ResolverOptions, DEFAULT_HOST_GLOBALS } from './resolver';
+export { TypeInferrer, TypeInfo, WispType, typeToString } from './types';
+export { Optimizer } from './optimizer';
+export { Bindings, FunctionBinding, HookBinding, RunContext, Arity, SPRITE_ENGINE } from './bindings';
+export { ModuleLoader, ModuleHost, MemoryModuleHost, Module, ModuleError, resolvePath } from './modules';
+export { Interpreter, InterpreterHost, ObjectHost, RuntimeError, run, runModule } from './interpreter';
+export { SourceMap, SourceMapBuilder, originalPosition } from './sourcemap';
+export { SpriteRuntime, Sprite, RuntimeOptions, ScriptOutput } from './runtime';
+export { Simulation, SimulationOptions, FrameSnapshot, SpriteSnapshot } from './simulation';
+export { format, FormatOptions } from './formatter';
+export { WispDocument, RenameError, DocumentSymbol, SymbolKind, Hover, Completion, CompletionKind, TextEdit } from './language';
+export { IncrementalTranspiler, IncrementalOptions, IncrementalResult, IncrementalStats, TextChange } from './incremental';
+export { TokenType, Token, TokenImpl, Comment } from './tokens';
+export * from './ast';
+export * from './diagnostics';
\ No newline at end of file
@@ -0,0 +1,105 @@
+import { transpile } from './transpiler';
+
+console.log('=== Testing Index Access and Assignment ===\n');
+
+// Test 1: Reading list elements
+console.log('Test 1: list[i]');
+const test1 = `
+var items = [10, 20, 30]
+print(items[0])
+for (var i = 0; i < items.length; i++)
+  print(items[i])
+end
+`;
+console.log('Input:');
+console.log(test1);
+console.log('Output:');
+console.log(transpile(test1));
+console.log('---\n');
+
+// Test 2: Writing list elements and object keys
+console.log('Test 2: list[i] = v and object[key] = v');
+const test2 = `
+var grid = [[0, 0], [0, 0]]
+grid[1][0] = 5
+var stats = {hp: 10}
+stats["hp"] = 20
+`;
+console.log('Input:');
+console.log(test2);
+console.log('Output:');
+console.log(transpile(test2));
+console.log('---\n');
+
+// Test 3: Compound assignment and increments on indexes
+console.log('Test 3: +=, -=, ++ and -- on indexes');
+const test3 = `
+var inventory = [0, 0, 0]
+var clone = createClone()
+inventory[2] += 5
+inventory[1] -= 1
+inventory[0]++
+--inventory[0]
+clone.data.age++
+`;
+console.log('Input:');
+console.log(test3);
+console.log('Output:');
+console.log(transpile(test3));
+console.log('---\n');
+
+// Test 4: Index on calls and properties
+console.log('Test 4: Chained access');
+const test4 = `
+var level = {tiles: [], width: 8}
+var x = 1
+var y = 2
+func getRow(n)
+  return level.tiles
+end
+var tile = level.tiles[y * level.width + x]
+print(getRow(2)[3].costume)
+`;
+console.log('Input:');
+console.log(test4);
+console.log('Output:');
+console.log(transpile(test4));
+console.log('---\n');
+
+// Test 5: A bracket on a new line starts a list literal
+console.log('Test 5: List literal on the next line');
+const test5 = `
+func show(n)
+  print(n)
+end
+var b = 1
+var a = b
+[1, 2].forEach(show)
+`;
+console.log('Input:');
+console.log(test5);
+console.log('Output:');
+console.log(transpile(test5));
+console.log('---\n');
+
+// Test 6: The list and index of a compound assignment are evaluated once
+console.log('Test 6: Side effects in compound assignments');
+const test6 = `
+var counts = [0, 0, 0]
+var calls = 0
+func next()
+  calls += 1
+  return calls
+end
+func lists()
+  return [counts]
+end
+counts[next()] += 10
+counts[next()]++
+lists()[0][0] *= 2
+`;
+console.log('Input:');
+console.log(test6);
+console.log('Output:');
+console.log(transpile(test6));
+console.log('---\n');
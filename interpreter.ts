@@ -0,0 +1,670 @@
+import { Token, TokenType } from './tokens';
+import { DiagnosticCode, DiagnosticError, createDiagnostic, tokenSpan } from './diagnostics';
+import { analyze, AnalyzeOptions } from './transpiler';
+import { Module, ModuleHost, ModuleLoader, ModuleError } from './modules';
+import { Bindings, RunContext, SPRITE_ENGINE, functionBinding, hookBinding, eventBinding } from './bindings';
+import {
+  Expr, Stmt, ExprVisitor, StmtVisitor,
+  Binary, Unary, Literal, Variable, Call, Get, Assign, Set, Logical, Index, IndexSet, Template, Lambda, New, Self, Super,
+  Var, Expression, Print, Function, Return, If, While, For, ForIn, Break, Continue, Import, Export, Class, On
+} from './ast';
+
+/**
+ * The engine a script runs against. Provides the names the generated
+ * TypeScript expects at runtime (sprite, Keyboard, Key, createClone,
+ * forever, ...) and receives the output of print().
+ */
+export interface InterpreterHost {
+  has(name: string): boolean;
+  get(name: string): unknown;
+  print(value: unknown): void;
+}
+
+// A host whose names are the keys of a plain object
+export class ObjectHost implements InterpreterHost {
+  constructor(
+    private values: Record<string, unknown> = {},
+    private output: (value: unknown) => void = value => console.log(value)
+  ) {}
+
+  has(name: string): boolean {
+    return name in this.values;
+  }
+
+  get(name: string): unknown {
+    return this.values[name];
+  }
+
+  print(value: unknown): void {
+    this.output(value);
+  }
+}
+
+/**
+ * Thrown when a running script does something the generated TypeScript
+ * would also fail on, like calling a value that isn't a function.
+ */
+export class RuntimeError extends DiagnosticError {
+  constructor(token: Token, code: DiagnosticCode, message: string) {
+    super(createDiagnostic(code, message, tokenSpan(token)));
+    this.name = 'RuntimeError';
+  }
+}
+
+class Environment {
+  readonly values = new Map<string, unknown>();
+
+  constructor(readonly enclosing: Environment | null = null) {}
+
+  // The innermost environment that defines name
+  find(name: string): Environment | null {
+    let environment: Environment | null = this;
+    while (environment && !environment.values.has(name)) {
+      environment = environment.enclosing;
+    }
+    return environment;
+  }
+
+  copy(): Environment {
+    const environment = new Environment(this.enclosing);
+    this.values.forEach((value, name) => environment.values.set(name, value));
+    return environment;
+  }
+}
+
+// Stands in for an imported name. Reads go through to the exporting
+// module's scope, so they see later assignments like ES module imports do.
+class ImportBinding {
+  constructor(readonly environment: Environment, readonly name: string) {}
+}
+
+// A class, whether a script declared it or the host provides it
+type Constructor = { new (...args: unknown[]): object; prototype: object };
+
+// Thrown to unwind to the enclosing function or loop
+class ReturnSignal {
+  constructor(readonly value: unknown) {}
+}
+class BreakSignal {}
+class ContinueSignal {}
+
+/**
+ * Runs WispScript directly by walking the AST, behaving the way the
+ * generated TypeScript does: operators follow JavaScript semantics,
+ * blocks are scoped like `let`, functions are hoisted, and names the
+ * script doesn't declare come from the host.
+ *
+ * WispScript functions are plain JavaScript functions, so the host can
+ * take them as callbacks (e.g. forever) and scripts can pass them to
+ * methods like forEach. Classes are JavaScript constructors in the same
+ * way, and can extend ones the host provides.
+ *
+ * Scripts run synchronously. Where generated code awaits wait(), ask() and
+ * the like, the interpreter calls the host's versions and carries on with
+ * whatever they return, so hosts that need scripts to pause implement them
+ * as blocking calls (e.g. by advancing a simulated clock).
+ */
+export class Interpreter implements ExprVisitor<unknown>, StmtVisitor<void> {
+  // What `global` vars and functions are stored on, globals.* in the generated code
+  readonly globals: Record<string, unknown>;
+  private builtins: Environment;
+  private environment: Environment;
+  // Top-level scopes of the modules that have run
+  private moduleScopes = new Map<Module, Environment>();
+  // The module whose code is running, if it was loaded by a ModuleLoader
+  private module: Module | null = null;
+
+  constructor(private host: InterpreterHost = new ObjectHost(), private bindings: Bindings = SPRITE_ENGINE) {
+    this.globals = host.has('globals') ? host.get('globals') as Record<string, unknown> : {};
+
+    this.builtins = new Environment();
+    this.builtins.values.set('globals', this.globals);
+    this.builtins.values.set('Math', Math);
+    this.environment = new Environment(this.builtins);
+  }
+
+  // Runs top-level statements. Later calls see what earlier ones declared.
+  interpret(statements: Stmt[]): void {
+    this.executeBlock(statements, this.environment);
+  }
+
+  // Runs a module without errors after the modules it imports. Every module
+  // runs once, in its own top-level scope, however many others import it.
+  interpretModule(module: Module): void {
+    if (this.moduleScopes.has(module)) return;
+    const environment = new Environment(this.builtins);
+    this.moduleScopes.set(module, environment);
+    module.imports.forEach(entry => this.interpretModule(entry.module));
+
+    const previous = this.module;
+    this.module = module;
+    try {
+      this.executeBlock(module.analysis!.statements, environment);
+    } finally {
+      this.module = previous;
+    }
+  }
+
+  // Expression visitors
+  visitBinaryExpr(expr: Binary): unknown {
+    return this.binary(expr.operator, this.evaluate(expr.left), this.evaluate(expr.right));
+  }
+
+  visitUnaryExpr(expr: Unary): unknown {
+    const right: any = this.evaluate(expr.right);
+
+    switch (expr.operator.type) {
+      case TokenType.MINUS: return -right;
+      case TokenType.NOT: return !right;
+      default:
+        throw new RuntimeError(expr.operator, DiagnosticCode.UnknownOperator, `Unknown unary operator: ${expr.operator.lexeme}`);
+    }
+  }
+
+  visitLiteralExpr(expr: Literal): unknown {
+    if (Array.isArray(expr.value)) {
+      return expr.value.map((element: Expr) => this.evaluate(element));
+    }
+
+    if (expr.value instanceof Map) {
+      const object: Record<string, unknown> = {};
+      expr.value.forEach((value: Expr, key: string) => object[key] = this.evaluate(value));
+      return object;
+    }
+
+    return expr.value;
+  }
+
+  visitVariableExpr(expr: Variable): unknown {
+    return this.lookup(expr.name.lexeme, expr.name);
+  }
+
+  visitCallExpr(expr: Call): unknown {
+    const callee = expr.callee instanceof Variable ? expr.callee.name.lexeme : null;
+
+    const binding = callee !== null ? functionBinding(this.bindings, callee) : null;
+    if (binding?.run) {
+      const args = binding.lazy ? expr.args.map(arg => this.deferred(arg)) : expr.args.map(arg => this.evaluate(arg));
+      return binding.run(args, expr, this.runContext(expr.paren));
+    }
+
+    // Methods are called with their object as `this`, e.g. items.push(1)
+    if (expr.callee instanceof Get) {
+      const object = this.evaluate(expr.callee.object);
+      return this.callMethod(object, expr.callee.name.lexeme, expr.args.map(arg => this.evaluate(arg)), expr.callee.name);
+    }
+
+    const fn = this.evaluate(expr.callee);
+    return this.callFunction(fn, undefined, expr.args.map(arg => this.evaluate(arg)), expr.paren);
+  }
+
+  visitGetExpr(expr: Get): unknown {
+    return this.getProperty(this.evaluate(expr.object), expr.name.lexeme, expr.name);
+  }
+
+  visitAssignExpr(expr: Assign): unknown {
+    const value = this.evaluate(expr.value);
+    const environment = this.environment.find(expr.name.lexeme);
+    if (!environment) {
+      throw new RuntimeError(expr.name, DiagnosticCode.UnboundName, `Undefined variable '${expr.name.lexeme}'.`);
+    }
+    environment.values.set(expr.name.lexeme, value);
+    return value;
+  }
+
+  visitSetExpr(expr: Set): unknown {
+    const object = this.evaluate(expr.object);
+    const compound = expr.compound;
+    const value = compound
+      ? this.binary(compound.operator, this.getProperty(object, expr.name.lexeme, expr.name), this.evaluate(compound.right))
+      : this.evaluate(expr.value);
+    this.setProperty(object, expr.name.lexeme, value, expr.name);
+    return value;
+  }
+
+  visitLogicalExpr(expr: Logical): unknown {
+    const left = this.evaluate(expr.left);
+
+    if (expr.operator.type === TokenType.OR) {
+      return left ? left : this.evaluate(expr.right);
+    }
+    return left ? this.evaluate(expr.right) : left;
+  }
+
+  visitIndexExpr(expr: Index): unknown {
+    const object = this.evaluate(expr.object);
+    const index = this.evaluate(expr.index);
+    return this.getProperty(object, index, expr.bracket);
+  }
+
+  visitIndexSetExpr(expr: IndexSet): unknown {
+    const object = this.evaluate(expr.object);
+    const index = this.evaluate(expr.index);
+    const compound = expr.compound;
+    const value = compound
+      ? this.binary(compound.operator, this.getProperty(object, index, expr.bracket), this.evaluate(compound.right))
+      : this.evaluate(expr.value);
+    this.setProperty(object, index, value, expr.bracket);
+    return value;
+  }
+
+  visitTemplateExpr(expr: Template): unknown {
+    return expr.expressions.reduce(
+      (text: string, part, i) => text + String(this.evaluate(part)) + expr.strings[i + 1], expr.strings[0]);
+  }
+
+  visitLambdaExpr(expr: Lambda): unknown {
+    return this.makeFunction(expr);
+  }
+
+  visitNewExpr(expr: New): unknown {
+    const cls = this.evaluate(expr.callee);
+    const args = expr.args.map(arg => this.evaluate(arg));
+    // Arrow functions, which WispScript functions are, have no prototype
+    if (typeof cls !== 'function' || !cls.prototype) {
+      throw new RuntimeError(expr.keyword, DiagnosticCode.NotAClass, `Can only use 'new' with a class, not ${this.describe(cls)}.`);
+    }
+    return Reflect.construct(cls, args);
+  }
+
+  visitSelfExpr(expr: Self): unknown {
+    return this.lookup('self', expr.keyword);
+  }
+
+  visitSuperExpr(expr: Super): unknown {
+    if (expr.method.lexeme === 'init') return this.lookup('super.init', expr.keyword);
+    const superclass = this.lookup('super', expr.keyword) as { prototype: unknown };
+    const method = this.getProperty(superclass.prototype, expr.method.lexeme, expr.method);
+    return typeof method === 'function' ? method.bind(this.lookup('self', expr.keyword)) : method;
+  }
+
+  // Statement visitors
+  visitVarStmt(stmt: Var): void {
+    const value = this.evaluate(stmt.initializer);
+    if ((stmt as any).isGlobal) {
+      this.globals[stmt.name.lexeme] = value;
+    } else {
+      this.environment.values.set(stmt.name.lexeme, value);
+    }
+  }
+
+  visitExpressionStmt(stmt: Expression): void {
+    this.evaluate(stmt.expression);
+  }
+
+  visitPrintStmt(stmt: Print): void {
+    this.host.print(this.evaluate(stmt.expression));
+  }
+
+  visitFunctionStmt(stmt: Function): void {
+    const fn = this.makeFunction(stmt);
+    const name = stmt.name.lexeme;
+    const hook = hookBinding(this.bindings, name);
+
+    if ((stmt as any).isGlobal) {
+      this.globals[name] = fn;
+    } else if (hook) {
+      hook.run(fn, this.runContext(stmt.name));
+    } else {
+      this.environment.values.set(name, fn);
+    }
+  }
+
+  visitReturnStmt(stmt: Return): void {
+    throw new ReturnSignal(stmt.value ? this.evaluate(stmt.value) : undefined);
+  }
+
+  visitIfStmt(stmt: If): void {
+    if (this.evaluate(stmt.condition)) {
+      this.executeBlock(stmt.thenBranch, new Environment(this.environment));
+      return;
+    }
+
+    for (const branch of stmt.elseifBranches) {
+      if (this.evaluate(branch.condition)) {
+        this.executeBlock(branch.body, new Environment(this.environment));
+        return;
+      }
+    }
+
+    if (stmt.elseBranch) {
+      this.executeBlock(stmt.elseBranch, new Environment(this.environment));
+    }
+  }
+
+  visitWhileStmt(stmt: While): void {
+    while (this.evaluate(stmt.condition)) {
+      if (this.executeLoopBody(stmt.body, new Environment(this.environment)) === 'break') break;
+    }
+  }
+
+  visitForStmt(stmt: For): void {
+    const previous = this.environment;
+    this.environment = new Environment(previous);
+    try {
+      stmt.initializer?.accept(this);
+      while (!stmt.condition || this.evaluate(stmt.condition)) {
+        if (this.executeLoopBody(stmt.body, new Environment(this.environment)) === 'break') break;
+        // Like let in a for loop, every iteration gets its own copy of the
+        // loop variable, so closures keep the value from their iteration
+        this.environment = this.environment.copy();
+        if (stmt.increment) this.evaluate(stmt.increment);
+      }
+    } finally {
+      this.environment = previous;
+    }
+  }
+
+  visitForInStmt(stmt: ForIn): void {
+    const indexed = stmt.indexVar.lexeme !== '_';
+    let iterable: any = this.evaluate(stmt.iterable);
+    if (indexed) {
+      iterable = this.callMethod(iterable, 'entries', [], stmt.itemVar);
+    }
+    if (iterable === null || iterable === undefined || typeof iterable[Symbol.iterator] !== 'function') {
+      throw new RuntimeError(stmt.itemVar, DiagnosticCode.NotIterable, `Can't loop over ${this.describe(iterable)}.`);
+    }
+
+    for (const entry of iterable) {
+      const environment = new Environment(this.environment);
+      if (indexed) {
+        environment.values.set(stmt.indexVar.lexeme, entry[0]);
+        environment.values.set(stmt.itemVar.lexeme, entry[1]);
+      } else {
+        environment.values.set(stmt.itemVar.lexeme, entry);
+      }
+      if (this.executeLoopBody(stmt.body, new Environment(environment)) === 'break') break;
+    }
+  }
+
+  visitBreakStmt(stmt: Break): void {
+    throw new BreakSignal();
+  }
+
+  visitContinueStmt(stmt: Continue): void {
+    throw new ContinueSignal();
+  }
+
+  visitImportStmt(stmt: Import): void {
+    const entry = this.module?.imports.find(candidate => candidate.stmt === stmt);
+    const scope = entry && this.moduleScopes.get(entry.module);
+    if (!scope) {
+      throw new RuntimeError(stmt.path, DiagnosticCode.ModuleNotLoaded,
+        `'${stmt.path.literal}' isn't loaded. Run scripts with imports through runModule().`);
+    }
+    for (const name of stmt.names) {
+      this.environment.values.set(name.lexeme, new ImportBinding(scope, name.lexeme));
+    }
+  }
+
+  visitExportStmt(stmt: Export): void {
+    stmt.declaration.accept(this);
+  }
+
+  visitOnStmt(stmt: On): void {
+    const event = eventBinding(this.bindings, stmt.event.lexeme);
+    if (!event) {
+      throw new RuntimeError(stmt.event, DiagnosticCode.UnknownEvent, `Unknown event '${stmt.event.lexeme}'.`);
+    }
+    const args = stmt.args.map(arg => this.evaluate(arg));
+    const closure = this.environment;
+    const handler = () => this.invoke({ params: [], body: stmt.body }, new Environment(closure), []);
+    event.run(args, handler, stmt, this.runContext(stmt.event));
+  }
+
+  visitClassStmt(stmt: Class): void {
+    const superclass = stmt.superclass ? this.evaluate(stmt.superclass) : null;
+    if (stmt.superclass && (typeof superclass !== 'function' || !superclass.prototype)) {
+      throw new RuntimeError(stmt.superclass.name, DiagnosticCode.NotAClass,
+        `Can only inherit from a class, not ${this.describe(superclass)}.`);
+    }
+    this.environment.values.set(stmt.name.lexeme, this.makeClass(stmt, superclass as Constructor | null));
+  }
+
+  private evaluate(expr: Expr): unknown {
+    return expr.accept(this);
+  }
+
+  // Applies a binary operator to values already evaluated
+  private binary(operator: Token, left: any, right: any): unknown {
+    switch (operator.type) {
+      case TokenType.PLUS: return left + right;
+      case TokenType.MINUS: return left - right;
+      case TokenType.MULTIPLY: return left * right;
+      case TokenType.DIVIDE: return left / right;
+      case TokenType.MODULO: return left % right;
+      case TokenType.FLOOR_DIVIDE: return Math.floor(left / right);
+      case TokenType.POWER: return left ** right;
+      case TokenType.BIT_AND: return left & right;
+      case TokenType.BIT_OR: return left | right;
+      case TokenType.BIT_XOR: return left ^ right;
+      case TokenType.SHIFT_LEFT: return left << right;
+      case TokenType.SHIFT_RIGHT: return left >> right;
+      case TokenType.GREATER: return left > right;
+      case TokenType.GREATER_EQUAL: return left >= right;
+      case TokenType.LESS: return left < right;
+      case TokenType.LESS_EQUAL: return left <= right;
+      case TokenType.EQUAL_EQUAL: return left === right;
+      case TokenType.BANG_EQUAL: return left !== right;
+      default:
+        throw new RuntimeError(operator, DiagnosticCode.UnknownOperator, `Unknown binary operator: ${operator.lexeme}`);
+    }
+  }
+
+  private executeBlock(statements: Stmt[], environment: Environment): void {
+    const previous = this.environment;
+    this.environment = environment;
+    try {
+      // Imports and functions are hoisted like in the generated TypeScript.
+      // Global and hook functions are assignments and calls there, so they
+      // run in order.
+      const hoisted = (stmt: Stmt): boolean => {
+        if (stmt instanceof Export) return hoisted(stmt.declaration);
+        if (stmt instanceof Import) return true;
+        return stmt instanceof Function && !(stmt as any).isGlobal && !hookBinding(this.bindings, stmt.name.lexeme);
+      };
+      statements.filter(hoisted).forEach(stmt => stmt.accept(this));
+      statements.filter(stmt => !hoisted(stmt)).forEach(stmt => stmt.accept(this));
+    } finally {
+      this.environment = previous;
+    }
+  }
+
+  private executeLoopBody(body: Stmt[], environment: Environment): 'break' | 'next' {
+    try {
+      this.executeBlock(body, environment);
+    } catch (signal) {
+      if (signal instanceof BreakSignal) return 'break';
+      if (!(signal instanceof ContinueSignal)) throw signal;
+    }
+    return 'next';
+  }
+
+  // A function that evaluates expr where it appears, whenever it's called
+  private deferred(expr: Expr): () => unknown {
+    const environment = this.environment;
+    return () => {
+      const previous = this.environment;
+      this.environment = environment;
+      try {
+        return this.evaluate(expr);
+      } finally {
+        this.environment = previous;
+      }
+    };
+  }
+
+  // Host functions get plain JS functions, so they can call them back directly
+  private makeFunction(stmt: Function | Lambda): (...args: unknown[]) => unknown {
+    const closure = this.environment;
+    return (...args: unknown[]) => this.invoke(stmt, new Environment(closure), args);
+  }
+
+  // Runs a function's body in environment, with its parameters bound to args
+  private invoke(stmt: { params: Token[]; body: Stmt[] }, environment: Environment, args: unknown[]): unknown {
+    stmt.params.forEach((param, i) => environment.values.set(param.lexeme, args[i]));
+    try {
+      this.executeBlock(stmt.body, environment);
+    } catch (signal) {
+      if (signal instanceof ReturnSignal) return signal.value;
+      throw signal;
+    }
+    return undefined;
+  }
+
+  // Builds the constructor the generated class would be. In a subclass the
+  // instance only exists once init calls super.init(...), which constructs
+  // the superclass with Reflect.construct where TypeScript calls super().
+  private makeClass(stmt: Class, superclass: Constructor | null): Constructor {
+    const interpreter = this;
+    const environment = new Environment(this.environment);
+    if (superclass) environment.values.set('super', superclass);
+    const init = stmt.methods.find(method => method.name.lexeme === 'init');
+
+    const cls = function (this: unknown, ...args: unknown[]): object {
+      const target = new.target as unknown as Constructor | undefined;
+      if (!target) throw new TypeError(`Class constructor ${stmt.name.lexeme} cannot be invoked without 'new'`);
+
+      const construct = (superArgs: unknown[]): object => {
+        const self = superclass ? Reflect.construct(superclass, superArgs, target) : Object.create(target.prototype);
+        interpreter.initializeFields(stmt, environment, self);
+        return self;
+      };
+      if (!init) return construct(args);
+
+      const scope = new Environment(environment);
+      if (superclass) {
+        scope.values.set('self', undefined);
+        scope.values.set('super.init', (...superArgs: unknown[]) => {
+          scope.values.set('self', construct(superArgs));
+        });
+      } else {
+        scope.values.set('self', construct([]));
+      }
+      interpreter.invoke(init, scope, args);
+      return scope.values.get('self') as object;
+    } as unknown as Constructor;
+
+    Object.defineProperty(cls, 'name', { value: stmt.name.lexeme });
+    if (superclass) {
+      Object.setPrototypeOf(cls, superclass);
+      Object.setPrototypeOf(cls.prototype, superclass.prototype);
+    }
+    for (const method of stmt.methods) {
+      if (method === init) continue;
+      const value = function (this: unknown, ...args: unknown[]) {
+        const scope = new Environment(environment);
+        scope.values.set('self', this);
+        return interpreter.invoke(method, scope, args);
+      };
+      // Not enumerable, like methods declared in a class
+      Object.defineProperty(cls.prototype, method.name.lexeme, { value, writable: true, configurable: true });
+    }
+    return cls;
+  }
+
+  private initializeFields(stmt: Class, environment: Environment, self: object): void {
+    const previous = this.environment;
+    this.environment = new Environment(environment);
+    this.environment.values.set('self', self);
+    try {
+      for (const field of stmt.fields) {
+        this.setProperty(self, field.name.lexeme, this.evaluate(field.initializer), field.name);
+      }
+    } finally {
+      this.environment = previous;
+    }
+  }
+
+  // Lets bindings reach the host, reporting failures at the call or hook
+  private runContext(at: Token): RunContext {
+    return {
+      lookup: name => this.lookup(name, at),
+      getProperty: (object, name) => this.getProperty(object, name, at),
+      call: (fn, args) => this.callFunction(fn, undefined, args, at),
+      callMethod: (object, name, args) => this.callMethod(object, name, args, at)
+    };
+  }
+
+  private lookup(name: string, at: Token): unknown {
+    const environment = this.environment.find(name);
+    if (environment) {
+      const value = environment.values.get(name);
+      return value instanceof ImportBinding ? value.environment.values.get(value.name) : value;
+    }
+    if (this.host.has(name)) return this.host.get(name);
+    throw new RuntimeError(at, DiagnosticCode.UnboundName, `Undefined variable '${name}'.`);
+  }
+
+  private callFunction(fn: unknown, thisValue: unknown, args: unknown[], at: Token): unknown {
+    if (typeof fn !== 'function') {
+      throw new RuntimeError(at, DiagnosticCode.NotCallable, `Can only call functions, not ${this.describe(fn)}.`);
+    }
+    return fn.apply(thisValue, args);
+  }
+
+  private callMethod(object: unknown, name: string, args: unknown[], at: Token): unknown {
+    return this.callFunction(this.getProperty(object, name, at), object, args, at);
+  }
+
+  private getProperty(object: unknown, key: unknown, at: Token): unknown {
+    if (object === null || object === undefined) {
+      throw new RuntimeError(at, DiagnosticCode.NullAccess, `Can't read '${String(key)}' of ${object}.`);
+    }
+    return (object as any)[key as any];
+  }
+
+  private setProperty(object: unknown, key: unknown, value: unknown, at: Token): void {
+    if (object === null || object === undefined) {
+      throw new RuntimeError(at, DiagnosticCode.NullAccess, `Can't set '${String(key)}' on ${object}.`);
+    }
+    (object as any)[key as any] = value;
+  }
+
+  private describe(value: unknown): string {
+    if (value === null || value === undefined) return String(value);
+    if (Array.isArray(value)) return 'a list';
+    if (typeof value === 'function') return 'a function';
+    return typeof value === 'object' ? 'an object' : `${typeof value} ${JSON.stringify(value)}`;
+  }
+}
+
+/**
+ * Checks a script and runs it
+ * @returns The interpreter, for looking at globals or running more code
+ * @throws TranspileError if the script has compile errors, RuntimeError if it fails while running
+ */
+export function run(source: string, host: InterpreterHost = new ObjectHost(), options: AnalyzeOptions = {}): Interpreter {
+  const { statements } = analyze(source, options);
+  const interpreter = new Interpreter(host, options.bindings);
+  interpreter.interpret(statements);
+  return interpreter;
+}
+
+/**
+ * Loads a script and the scripts it imports through a ModuleHost, then runs
+ * them, each imported script before the ones that import it
+ * @returns The interpreter, for looking at globals
+ * @throws ModuleError for the first script with compile errors, RuntimeError if one fails while running
+ */
+export function runModule(
+  path: string,
+  modules: ModuleHost,
+  host: InterpreterHost = new ObjectHost(),
+  options: AnalyzeOptions = {}
+): Interpreter {
+  const loader = new ModuleLoader(modules, options);
+  const module = loader.load(path);
+  if (!module) {
+    throw new Error(`Can't find '${path}'.`);
+  }
+
+  const failed = loader.graph(module).find(candidate => candidate.errors.length > 0);
+  if (failed) {
+    throw new ModuleError(failed.path, failed.errors);
+  }
+
+  const interpreter = new Interpreter(host, options.bindings);
+  interpreter.interpretModule(module);
+  return interpreter;
+}
@@ -0,0 +1,138 @@
+import { run, ObjectHost, RuntimeError } from './interpreter';
+import { formatDiagnostic } from './diagnostics';
+
+console.log('=== Testing Interpreter ===\n');
+
+function show(code: string, values: Record<string, unknown> = {}) {
+  console.log('Input:');
+  console.log(code);
+  console.log('Output:');
+  try {
+    run(code, new ObjectHost(values));
+  } catch (error) {
+    if (!(error instanceof RuntimeError)) throw error;
+    console.log(formatDiagnostic(error.diagnostic));
+  }
+  console.log('---\n');
+}
+
+// Test 1: Expressions follow the generated code's semantics
+console.log('Test 1: Expressions');
+show(`
+var a = 10
+var b = 4
+print(a + b * 2)
+print(a / b)
+print("Score: " + a)
+print(a > b and "yes")
+print(0 or "fallback")
+print(not (a == 10))
+print(sqrt(16) + abs(-2) + max(1, 7))
+`);
+
+// Test 2: Control flow
+console.log('Test 2: Control flow');
+show(`
+var total = 0
+for (var i = 0; i < 10; i++)
+  if (i == 2)
+    continue
+  elif (i > 5)
+    break
+  end
+  total += i
+end
+print(total)
+for (i, name in ["ann", "bo"])
+  print(i + ": " + name)
+end
+var n = 3
+while (n > 0)
+  n -= 1
+end
+print(n)
+`);
+
+// Test 3: Functions, recursion, hoisting and closures
+console.log('Test 3: Functions');
+show(`
+print(fact(5))
+func fact(n)
+  if (n <= 1)
+    return 1
+  end
+  return n * fact(n - 1)
+end
+var steps = []
+func record(step)
+  steps.push(step * 10)
+end
+[1, 2, 3].forEach(record)
+print(steps)
+print(steps.length)
+`);
+
+// Test 4: Host objects, hooks and globals
+console.log('Test 4: Host');
+const sprite = { x: 0, y: 0 };
+const frames: Array<() => void> = [];
+const globals: Record<string, unknown> = {};
+show(`
+global var score = 0
+func _forever()
+  if (key_down("Right"))
+    sprite.x += 5
+  end
+  global score += 1
+end
+`, {
+  sprite,
+  Key: { Right: 'ArrowRight' },
+  Keyboard: { keyDown: (key: string) => key === 'ArrowRight' },
+  forever: (callback: () => void) => frames.push(callback),
+  globals
+});
+frames.forEach(frame => { frame(); frame(); });
+console.log('After 2 frames: sprite.x =', sprite.x, 'score =', globals.score);
+console.log('---\n');
+
+// Test 5: Runtime errors point at the source
+console.log('Test 5: Runtime errors');
+show(`
+var player = {name: "Wisp"}
+print(player.name)
+print(player.stats.hp)
+`);
+show(`
+var hp = 3
+sprite.jump()
+`, { sprite: {} });
+
+// Test 6: Compound assignments to list[i] and object.x evaluate list, i
+// and object once
+console.log('Test 6: Compound assignments');
+show(`
+var counts = [0, 0, 0]
+var calls = 0
+func next()
+  calls += 1
+  return calls
+end
+func lists()
+  print("lists")
+  return [counts]
+end
+counts[next()] += 10
+counts[next()]++
+lists()[0][0] -= 1
+print(counts)
+print(calls)
+var player = {x: 0}
+func target()
+  print("target")
+  return player
+end
+target().x += 5
+target().x++
+print(player.x)
+`);
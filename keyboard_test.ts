@@ -72,13 +72,13 @@ const test5 = `
 func handleInput()
   if (key_down("A"))
     sprite.x -= 5
-  elseif (key_down("D"))
+  elif (key_down("D"))
     sprite.x += 5
   end
   
   if (key_down("W"))
     sprite.y -= 5
-  elseif (key_down("S"))
+  elif (key_down("S"))
     sprite.y += 5
   end
 end
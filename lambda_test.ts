@@ -0,0 +1,93 @@
+import { transpile, TranspileError } from './transpiler';
+import { run, ObjectHost } from './interpreter';
+import { formatDiagnostic } from './diagnostics';
+
+console.log('=== Testing Lambdas ===\n');
+
+// A host whose Game.every calls back right away, as a stand-in for a timer
+const host = () => new ObjectHost({
+  Game: {
+    every(seconds: number, callback: (tick: number) => void) {
+      for (let tick = 1; tick <= 2; tick++) callback(tick * seconds);
+    }
+  }
+});
+
+function show(code: string) {
+  console.log('Input:');
+  console.log(code);
+  console.log('Output:');
+  try {
+    console.log(transpile(code));
+    console.log('Runs as:');
+    run(code, host());
+  } catch (error) {
+    if (!(error instanceof TranspileError)) throw error;
+    error.diagnostics.forEach(diagnostic => console.log(formatDiagnostic(diagnostic)));
+  }
+  console.log('---\n');
+}
+
+// Test 1: Both spellings, stored in vars and passed to list methods
+console.log('Test 1: func and arrow lambdas');
+show(`
+var scores = [40, 10, 30]
+var byScore = func (a, b) return a - b end
+scores.sort(byScore)
+print(scores)
+print(scores.map((x) => x * 2))
+print(scores.filter(x => x > 15))
+var point = (x, y) => {x: x, y: y}
+print(point(1, 2))
+print((1 + 2) * 3)
+`);
+
+// Test 2: Lambdas capture the variables around them, and can be returned
+console.log('Test 2: Closures');
+show(`
+func counter(start)
+  var count = start
+  return func ()
+    count += 1
+    return count
+  end
+end
+var next = counter(10)
+next()
+print(next())
+
+var total = 0
+Game.every(5, func (seconds)
+  total += seconds
+  print("tick at {seconds}")
+end)
+print(total)
+`);
+
+// Test 3: Annotations work like they do on declared functions
+console.log('Test 3: Annotated lambdas');
+show(`
+var half = func (n: number): number
+  return n / 2
+end
+var label = (name: string) => "Player " + name
+print(half(9))
+print(label("one"))
+`);
+
+// Test 4: Mistakes inside lambdas
+console.log('Test 4: Errors');
+show(`
+var pick = func (n: number): number
+  if (n > 0)
+    return "positive"
+  end
+end
+`);
+show(`
+while (true)
+  var stop = func () break end
+end
+`);
+show('var add = func (a, b) return a + b');
+show('var bad = (a, 1) => a');
@@ -0,0 +1,670 @@
+import { Comment, Token, TokenType } from './tokens';
+import { Lexer, KEYWORDS } from './lexer';
+import { Parser, SourceRanges } from './parser';
+import { Resolver, DEFAULT_HOST_GLOBALS } from './resolver';
+import { TypeInferrer, TypeInfo, formatType } from './types';
+import { AnalyzeOptions } from './transpiler';
+import { Bindings, SPRITE_ENGINE, functionBinding, hookBinding, eventBinding, describeArity } from './bindings';
+import { Diagnostic, Span, tokenSpan } from './diagnostics';
+import {
+  Expr, Stmt, ExprVisitor, StmtVisitor,
+  Binary, Unary, Literal, Variable, Call, Get, Assign, Set, Logical, Index, IndexSet, Template, Lambda, New, Self, Super,
+  Var, Expression, Print, Function, Return, If, While, For, ForIn, Break, Continue, Import, Export, Class, On
+} from './ast';
+
+export type SymbolKind = 'variable' | 'parameter' | 'function' | 'class' | 'field' | 'method' | 'import' | 'event';
+
+export type CompletionKind = 'keyword' | 'variable' | 'function' | 'class' | 'field' | 'method' | 'event';
+
+export interface DocumentSymbol {
+  name: string;
+  kind: SymbolKind;
+  // The whole declaration, and just its name
+  span: Span;
+  selectionSpan: Span;
+  children: DocumentSymbol[];
+}
+
+export interface Hover {
+  // Markdown: the declaration as a wisp code block, then its doc comment
+  contents: string;
+  span: Span;
+}
+
+export interface Completion {
+  label: string;
+  kind: CompletionKind;
+  // A type or signature to show next to the label
+  detail: string;
+}
+
+export interface TextEdit {
+  span: Span;
+  newText: string;
+}
+
+/**
+ * Thrown when a name can't be renamed, with a message for the user
+ */
+export class RenameError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RenameError';
+  }
+}
+
+// A block names can be declared in, by source offset
+interface Scope {
+  start: number;
+  end: number;
+  // How many functions enclose the scope. A function body runs after the
+  // code around it, so it can use names declared further down.
+  functionDepth: number;
+}
+
+// A name the script declares
+interface Declaration {
+  name: Token;
+  kind: SymbolKind;
+  // The statement declaring it, or the function or loop for parameters and
+  // loop variables
+  node: Stmt | Lambda;
+  scope: Scope;
+}
+
+/**
+ * Everything an editor asks about one script: its diagnostics, and what the
+ * names at a given offset refer to. Unlike analyze(), a document is checked
+ * as far as it can be despite errors, so hover and navigation keep working
+ * while the script is being edited. Diagnostics are those of the first
+ * stage that fails, as `wisp check` reports them.
+ *
+ * Only names the resolver tracks can be navigated to and renamed: vars,
+ * functions, classes, parameters, loop variables and imports. Fields and
+ * methods are looked up at runtime, so uses of them can't be told apart.
+ */
+export class WispDocument {
+  readonly diagnostics: Diagnostic[];
+  private tokens: Token[];
+  private comments: Comment[];
+  private statements: Stmt[];
+  private ranges: SourceRanges;
+  private resolutions: Map<Token, Token>;
+  private types: TypeInfo;
+  private declarations = new Map<Token, Declaration>();
+  private scopes: Scope[];
+  private classes: Array<{ node: Class; scope: Scope }>;
+  private events: Map<Token, On>;
+  private bindings: Bindings;
+  private hostGlobals: readonly string[];
+  // Kept apart from diagnostics, which leave them out after syntax errors
+  private nameErrors: Diagnostic[];
+
+  constructor(readonly source: string, private options: AnalyzeOptions = {}) {
+    this.bindings = options.bindings ?? SPRITE_ENGINE;
+    this.hostGlobals = options.hostGlobals ?? DEFAULT_HOST_GLOBALS;
+
+    const lexer = new Lexer(source);
+    this.tokens = lexer.scanTokens();
+    this.comments = lexer.comments;
+    const parser = new Parser(this.tokens);
+    this.statements = parser.parse();
+    this.ranges = parser.ranges;
+
+    const resolver = new Resolver({ hostGlobals: this.hostGlobals, bindings: this.bindings });
+    resolver.resolve(this.statements);
+    this.resolutions = resolver.resolutions;
+    this.nameErrors = resolver.errors;
+    const inferrer = new TypeInferrer(resolver.resolutions, this.bindings);
+    this.types = inferrer.infer(this.statements);
+
+    const syntax = [...lexer.errors, ...parser.errors]
+      .sort((a, b) => a.span.start.offset - b.span.start.offset);
+    this.diagnostics = syntax.length > 0 ? syntax
+      : resolver.errors.length > 0 ? resolver.errors
+      : inferrer.errors;
+
+    const collector = new DeclarationCollector(this.ranges, this.tokens, source.length);
+    collector.collect(this.statements);
+    collector.declarations.forEach(declaration => this.declarations.set(declaration.name, declaration));
+    this.scopes = collector.scopes;
+    this.classes = collector.classes;
+    this.events = collector.events;
+  }
+
+  // Where the name at offset is declared
+  definitionAt(offset: number): Span | null {
+    const declaration = this.declarationAt(offset);
+    return declaration ? tokenSpan(declaration.name) : null;
+  }
+
+  hoverAt(offset: number): Hover | null {
+    const token = this.nameAt(offset);
+    if (!token) return null;
+
+    const declaration = this.declarationOf(token);
+    const event = this.events.has(token) ? eventBinding(this.bindings, token.lexeme) : null;
+    const binding = functionBinding(this.bindings, token.lexeme);
+    let code: string;
+    let text = '';
+    if (declaration) {
+      code = this.describe(declaration);
+      text = this.docComment(declaration);
+      if (declaration.kind === 'function' && hookBinding(this.bindings, token.lexeme)) {
+        text = joinParagraphs(text, 'The engine calls this function itself.');
+      }
+    } else if (event) {
+      const args = event.args.map(arg => `${arg.name}: ${formatType(arg.type)}`);
+      code = `on ${token.lexeme}${args.length > 0 ? `(${args.join(', ')})` : ''}`;
+      text = 'An event the engine runs handlers for.';
+    } else if (binding) {
+      code = `func ${token.lexeme}(...)${binding.returns ? `: ${formatType(binding.returns)}` : ''}`;
+      text = `Built in, takes ${describeArity(binding.arity, 'argument')}.`;
+      if (binding.suspends) text += ' Waits before returning.';
+    } else if (this.hostGlobals.includes(token.lexeme)) {
+      code = token.lexeme;
+      text = 'Provided by the engine.';
+    } else {
+      return null;
+    }
+
+    return {
+      contents: joinParagraphs('```wisp\n' + code + '\n```', text),
+      span: tokenSpan(token)
+    };
+  }
+
+  completionsAt(offset: number): Completion[] {
+    // The name being typed, if any, doesn't count as context
+    const typed = this.nameAt(offset);
+    const before = this.tokenBefore(typed ? typed.offset : offset);
+
+    if (before?.type === TokenType.DOT) {
+      const object = this.tokenBefore(before.offset);
+      if (!object) return [];
+      if (object.type === TokenType.SELF) {
+        // 'self.' with nothing after it doesn't parse, which can take the
+        // whole class with it, so look at the script with a name typed in
+        return typed ? this.memberCompletions(offset)
+          : new WispDocument(`${this.source.slice(0, offset)}_${this.source.slice(offset)}`, this.options).memberCompletions(offset);
+      }
+      // Host objects, unless the script declares a name like theirs
+      const members = this.resolutions.has(object) ? undefined : this.bindings.members?.[object.lexeme];
+      return (members ?? []).map(member => ({ label: member, kind: 'field' as CompletionKind, detail: object.lexeme }));
+    }
+
+    if (before?.type === TokenType.ON) {
+      return Object.keys(this.bindings.events).map(name => ({
+        label: name,
+        kind: 'event' as CompletionKind,
+        detail: this.bindings.events[name].args.map(arg => `${arg.name}: ${formatType(arg.type)}`).join(', ')
+      }));
+    }
+
+    const completions: Completion[] = [];
+    const visible = this.visibleAt(offset);
+    visible.forEach(declaration => completions.push({
+      label: declaration.name.lexeme,
+      kind: declaration.kind === 'function' || declaration.kind === 'class' ? declaration.kind : 'variable',
+      detail: this.describe(declaration)
+    }));
+    for (const name of Object.keys(this.bindings.functions)) {
+      if (visible.has(name)) continue;
+      const binding = this.bindings.functions[name];
+      completions.push({ label: name, kind: 'function', detail: `takes ${describeArity(binding.arity, 'argument')}` });
+    }
+    for (const name of this.hostGlobals) {
+      if (!visible.has(name)) completions.push({ label: name, kind: 'variable', detail: 'engine' });
+    }
+    KEYWORDS.forEach((_, keyword) => completions.push({ label: keyword, kind: 'keyword', detail: '' }));
+    return completions;
+  }
+
+  // An outline of the script: its vars, functions, classes and event
+  // handlers, with the functions declared inside them
+  symbols(): DocumentSymbol[] {
+    return this.symbolsIn(this.statements, true);
+  }
+
+  // The name rename would change, for editors to check before asking for
+  // the new one
+  renameSpanAt(offset: number): Span {
+    this.renameTarget(offset);
+    return tokenSpan(this.nameAt(offset)!);
+  }
+
+  // Edits that rename the name at offset and every use of it
+  renameAt(offset: number, newName: string): TextEdit[] {
+    const declaration = this.renameTarget(offset);
+    const name = declaration.name.lexeme;
+    const tokens = new Lexer(newName).scanTokens();
+    if (tokens.length !== 2 || tokens[0].type !== TokenType.IDENTIFIER || tokens[0].lexeme !== newName) {
+      throw new RenameError(`'${newName}' isn't a valid name.`);
+    }
+
+    const references = this.references(declaration.name);
+    const edits = references.map(reference => ({ span: tokenSpan(reference), newText: newName }));
+
+    // A rename that clashes shows up as a new error, or as uses that now
+    // resolve to something else
+    const renamed = new WispDocument(applyEdits(this.source, edits), this.options);
+    const shift = references.filter(reference => reference.offset < declaration.name.offset).length *
+      (newName.length - name.length);
+    const renamedDeclaration = renamed.declarationAt(declaration.name.offset + shift);
+    if (renamed.nameErrors.length > this.nameErrors.length || !renamedDeclaration ||
+        renamed.references(renamedDeclaration.name).length !== references.length) {
+      throw new RenameError(`Renaming '${name}' to '${newName}' would clash with another name.`);
+    }
+    return edits;
+  }
+
+  private renameTarget(offset: number): Declaration {
+    const token = this.nameAt(offset);
+    if (!token) throw new RenameError("There's no name here to rename.");
+    const declaration = this.declarationOf(token);
+    if (!declaration) {
+      throw new RenameError(this.events.has(token) || functionBinding(this.bindings, token.lexeme) || this.hostGlobals.includes(token.lexeme)
+        ? `Can't rename '${token.lexeme}', it's built in.`
+        : `Can't rename '${token.lexeme}', only vars, functions, classes and parameters can be renamed.`);
+    }
+
+    const name = declaration.name.lexeme;
+    if (declaration.kind === 'import') {
+      throw new RenameError(`Can't rename '${name}' here, it's imported from another script.`);
+    }
+    if (this.isExported(declaration)) {
+      throw new RenameError(`Can't rename '${name}' here, other scripts may import it.`);
+    }
+    if (declaration.kind === 'function' && hookBinding(this.bindings, name)) {
+      throw new RenameError(`Can't rename '${name}', the engine calls it by that name.`);
+    }
+    return declaration;
+  }
+
+  private isExported(declaration: Declaration): boolean {
+    return this.statements.some(stmt => stmt instanceof Export && stmt.declaration === declaration.node);
+  }
+
+  // The declaration and every use of it, in source order
+  private references(declaration: Token): Token[] {
+    const references = [declaration];
+    this.resolutions.forEach((target, use) => {
+      if (target === declaration && use !== declaration) references.push(use);
+    });
+    return references.sort((a, b) => a.offset - b.offset);
+  }
+
+  private declarationAt(offset: number): Declaration | null {
+    const token = this.nameAt(offset);
+    return token && this.declarationOf(token);
+  }
+
+  private declarationOf(token: Token): Declaration | null {
+    return this.declarations.get(this.resolutions.get(token) ?? token) ?? null;
+  }
+
+  // The identifier the offset is in or just after
+  private nameAt(offset: number): Token | null {
+    return this.tokens.find(token =>
+      token.type === TokenType.IDENTIFIER && token.offset <= offset && offset <= token.offset + token.lexeme.length
+    ) ?? null;
+  }
+
+  private tokenBefore(offset: number): Token | null {
+    let before: Token | null = null;
+    for (const token of this.tokens) {
+      if (token.type === TokenType.EOF || token.offset + token.lexeme.length > offset) break;
+      before = token;
+    }
+    return before;
+  }
+
+  // Names usable at offset by name, innermost first. Vars and classes can
+  // only be used after their declaration, unless from a function body.
+  private visibleAt(offset: number): Map<string, Declaration> {
+    const depth = Math.max(...this.scopes
+      .filter(scope => scope.start <= offset && offset <= scope.end)
+      .map(scope => scope.functionDepth));
+
+    const visible = new Map<string, Declaration>();
+    this.declarations.forEach(declaration => {
+      const { scope } = declaration;
+      if (scope.start > offset || offset > scope.end) return;
+      const ordered = declaration.kind === 'variable' || declaration.kind === 'class';
+      if (ordered && declaration.name.offset > offset && depth === scope.functionDepth) return;
+
+      const shadowed = visible.get(declaration.name.lexeme);
+      if (!shadowed || shadowed.scope.start <= scope.start && scope.end <= shadowed.scope.end) {
+        visible.set(declaration.name.lexeme, declaration);
+      }
+    });
+    return visible;
+  }
+
+  // Fields and methods of the class around offset, and the ones it inherits
+  private memberCompletions(offset: number): Completion[] {
+    const around = this.classes.filter(({ scope }) => scope.start <= offset && offset <= scope.end);
+    let cls: Class | null = around.length > 0 ? around[around.length - 1].node : null;
+    const completions: Completion[] = [];
+    const seen: string[] = [];
+    // The depth limit guards against a cycle of superclasses
+    for (let depth = 0; cls && depth < 50; depth++) {
+      for (const field of cls.fields) {
+        if (seen.includes(field.name.lexeme)) continue;
+        seen.push(field.name.lexeme);
+        completions.push({ label: field.name.lexeme, kind: 'field', detail: cls.name.lexeme });
+      }
+      for (const method of cls.methods) {
+        if (seen.includes(method.name.lexeme)) continue;
+        seen.push(method.name.lexeme);
+        completions.push({ label: method.name.lexeme, kind: 'method', detail: cls.name.lexeme });
+      }
+      const superclass: Declaration | null = cls.superclass && this.declarationOf(cls.superclass.name);
+      cls = superclass && superclass.node instanceof Class ? superclass.node : null;
+    }
+    return completions;
+  }
+
+  // The declaration the way it would be written, with inferred types
+  private describe(declaration: Declaration): string {
+    const { name, node } = declaration;
+    const type = () => formatType(this.types.typeOf(name));
+    switch (declaration.kind) {
+      case 'function': {
+        const fn = node as Function;
+        const params = fn.params.map(param => `${param.lexeme}: ${formatType(this.types.typeOf(param))}`);
+        return `func ${name.lexeme}(${params.join(', ')}): ${formatType(this.types.returnTypeOf(fn))}`;
+      }
+      case 'class': {
+        const { superclass } = node as Class;
+        return `class ${name.lexeme}${superclass ? ` < ${superclass.name.lexeme}` : ''}`;
+      }
+      case 'import':
+        return `import { ${name.lexeme} } from ${(node as Import).path.lexeme}`;
+      case 'parameter':
+        return `(parameter) ${name.lexeme}: ${type()}`;
+      default:
+        return node instanceof ForIn ? `(loop variable) ${name.lexeme}: ${type()}` : `var ${name.lexeme}: ${type()}`;
+    }
+  }
+
+  // The // comments on the lines right above a declaration
+  private docComment(declaration: Declaration): string {
+    const range = declaration.node instanceof Stmt ? this.ranges.statements.get(declaration.node) : undefined;
+    if (!range || declaration.kind === 'parameter') return '';
+
+    const byLine = new Map<number, Comment>();
+    for (const comment of this.comments) {
+      const lineStart = comment.offset - comment.column + 1;
+      if (comment.text.startsWith('//') && this.source.slice(lineStart, comment.offset).trim() === '') {
+        byLine.set(comment.line, comment);
+      }
+    }
+
+    // Exported declarations start at their 'export'
+    const exported = this.statements.find(stmt => stmt instanceof Export && stmt.declaration === declaration.node);
+    let line = (exported ? this.ranges.statements.get(exported)!.start : range.start).line - 1;
+    const lines: string[] = [];
+    for (; byLine.has(line); line--) {
+      lines.unshift(byLine.get(line)!.text.replace(/^\/\/ ?/, ''));
+    }
+    return lines.join('\n');
+  }
+
+  // Vars are only listed at the top level, or it would list every local
+  private symbolsIn(statements: Stmt[], topLevel = false): DocumentSymbol[] {
+    const symbols: DocumentSymbol[] = [];
+    for (const statement of statements) {
+      const stmt = statement instanceof Export ? statement.declaration : statement;
+      if (stmt instanceof Var && topLevel) {
+        symbols.push(this.symbol(stmt, stmt.name, 'variable', []));
+      } else if (stmt instanceof Function) {
+        symbols.push(this.symbol(stmt, stmt.name, 'function', this.symbolsIn(stmt.body)));
+      } else if (stmt instanceof Class) {
+        const members = [
+          ...stmt.fields.map(field => this.symbol(field, field.name, 'field', [])),
+          ...stmt.methods.map(method => this.symbol(method, method.name, 'method', this.symbolsIn(method.body)))
+        ].sort((a, b) => a.span.start.offset - b.span.start.offset);
+        symbols.push(this.symbol(stmt, stmt.name, 'class', members));
+      } else if (stmt instanceof On) {
+        symbols.push(this.symbol(stmt, stmt.event, 'event', this.symbolsIn(stmt.body), `on ${stmt.event.lexeme}`));
+      }
+    }
+    return symbols;
+  }
+
+  private symbol(stmt: Stmt, name: Token, kind: SymbolKind, children: DocumentSymbol[], label = name.lexeme): DocumentSymbol {
+    const range = this.ranges.statements.get(stmt);
+    const selectionSpan = tokenSpan(name);
+    const span = range ? { start: tokenSpan(range.start).start, end: tokenSpan(range.end).end } : selectionSpan;
+    return { name: label, kind, span, selectionSpan, children };
+  }
+}
+
+function joinParagraphs(first: string, second: string): string {
+  return first && second ? `${first}\n\n${second}` : first || second;
+}
+
+// Edits must not overlap
+function applyEdits(source: string, edits: TextEdit[]): string {
+  let result = source;
+  [...edits]
+    .sort((a, b) => b.span.start.offset - a.span.start.offset)
+    .forEach(edit => {
+      result = result.slice(0, edit.span.start.offset) + edit.newText + result.slice(edit.span.end.offset);
+    });
+  return result;
+}
+
+/**
+ * Finds every name a script declares and the scope it's visible in, with
+ * the same blocks the Resolver uses. Scopes run from the start of the
+ * statement that opens them to the token ending their block.
+ */
+class DeclarationCollector implements ExprVisitor<void>, StmtVisitor<void> {
+  readonly declarations: Declaration[] = [];
+  // Every scope, outermost first
+  readonly scopes: Scope[] = [];
+  readonly classes: Array<{ node: Class; scope: Scope }> = [];
+  // Event handlers by their event name token
+  readonly events = new Map<Token, On>();
+  private scope: Scope;
+  // The parser makes tokens up, e.g. the index of 'for (x in list)', which
+  // aren't in the source and can't be navigated to
+  private real: WeakSet<Token>;
+
+  constructor(private ranges: SourceRanges, tokens: Token[], length: number) {
+    this.scope = { start: 0, end: length, functionDepth: 0 };
+    this.scopes.push(this.scope);
+    this.real = new WeakSet(tokens);
+  }
+
+  collect(statements: Stmt[]): void {
+    this.visitAll(statements);
+  }
+
+  // Expression visitors
+  visitBinaryExpr(expr: Binary): void {
+    this.visitAll([expr.left, expr.right]);
+  }
+
+  visitUnaryExpr(expr: Unary): void {
+    expr.right.accept(this);
+  }
+
+  visitLiteralExpr(expr: Literal): void {
+    if (Array.isArray(expr.value)) {
+      this.visitAll(expr.value);
+    } else if (expr.value instanceof Map) {
+      this.visitAll([...expr.value.values()]);
+    }
+  }
+
+  visitVariableExpr(expr: Variable): void {}
+
+  visitCallExpr(expr: Call): void {
+    this.visitAll([expr.callee, ...expr.args]);
+  }
+
+  visitGetExpr(expr: Get): void {
+    expr.object.accept(this);
+  }
+
+  visitAssignExpr(expr: Assign): void {
+    expr.value.accept(this);
+  }
+
+  visitSetExpr(expr: Set): void {
+    this.visitAll([expr.object, expr.value]);
+  }
+
+  visitLogicalExpr(expr: Logical): void {
+    this.visitAll([expr.left, expr.right]);
+  }
+
+  visitIndexExpr(expr: Index): void {
+    this.visitAll([expr.object, expr.index]);
+  }
+
+  visitIndexSetExpr(expr: IndexSet): void {
+    this.visitAll([expr.object, expr.index, expr.value]);
+  }
+
+  visitTemplateExpr(expr: Template): void {
+    this.visitAll(expr.expressions);
+  }
+
+  visitLambdaExpr(expr: Lambda): void {
+    // An arrow function's body is a single expression, with no 'end'
+    const end = this.ranges.blockEnds.get(expr.body)?.offset ?? this.scope.end;
+    this.function(expr, expr.start.offset, end);
+  }
+
+  visitNewExpr(expr: New): void {
+    this.visitAll([expr.callee, ...expr.args]);
+  }
+
+  visitSelfExpr(expr: Self): void {}
+
+  visitSuperExpr(expr: Super): void {}
+
+  // Statement visitors
+  visitVarStmt(stmt: Var): void {
+    stmt.initializer.accept(this);
+    if (!(stmt as any).isGlobal) this.declare(stmt.name, 'variable', stmt);
+  }
+
+  visitExpressionStmt(stmt: Expression): void {
+    stmt.expression.accept(this);
+  }
+
+  visitPrintStmt(stmt: Print): void {
+    stmt.expression.accept(this);
+  }
+
+  visitFunctionStmt(stmt: Function): void {
+    if (!(stmt as any).isGlobal) this.declare(stmt.name, 'function', stmt);
+    this.function(stmt, this.start(stmt), this.end(stmt.body));
+  }
+
+  visitReturnStmt(stmt: Return): void {
+    if (stmt.value) stmt.value.accept(this);
+  }
+
+  visitIfStmt(stmt: If): void {
+    stmt.condition.accept(this);
+    // Each branch starts where the one before it ends
+    let start = this.start(stmt);
+    const branches = [stmt.thenBranch, ...stmt.elseifBranches.map(branch => branch.body)];
+    if (stmt.elseBranch) branches.push(stmt.elseBranch);
+    stmt.elseifBranches.forEach(branch => branch.condition.accept(this));
+    for (const branch of branches) {
+      const end = this.end(branch);
+      this.block(start, end, () => this.visitAll(branch));
+      start = end;
+    }
+  }
+
+  visitWhileStmt(stmt: While): void {
+    stmt.condition.accept(this);
+    this.block(this.start(stmt), this.end(stmt.body), () => this.visitAll(stmt.body));
+  }
+
+  visitForStmt(stmt: For): void {
+    this.block(this.start(stmt), this.end(stmt.body), () => {
+      if (stmt.initializer) stmt.initializer.accept(this);
+      if (stmt.condition) stmt.condition.accept(this);
+      if (stmt.increment) stmt.increment.accept(this);
+      this.visitAll(stmt.body);
+    });
+  }
+
+  visitForInStmt(stmt: ForIn): void {
+    stmt.iterable.accept(this);
+    this.block(this.start(stmt), this.end(stmt.body), () => {
+      this.declare(stmt.indexVar, 'variable', stmt);
+      this.declare(stmt.itemVar, 'variable', stmt);
+      this.visitAll(stmt.body);
+    });
+  }
+
+  visitBreakStmt(stmt: Break): void {}
+
+  visitContinueStmt(stmt: Continue): void {}
+
+  visitImportStmt(stmt: Import): void {
+    stmt.names.forEach(name => this.declare(name, 'import', stmt));
+  }
+
+  visitExportStmt(stmt: Export): void {
+    stmt.declaration.accept(this);
+  }
+
+  visitClassStmt(stmt: Class): void {
+    this.declare(stmt.name, 'class', stmt);
+    const end = this.ranges.statements.get(stmt)?.end.offset ?? this.scope.end;
+    this.classes.push({ node: stmt, scope: { start: this.start(stmt), end, functionDepth: this.scope.functionDepth } });
+    stmt.fields.forEach(field => field.initializer.accept(this));
+    stmt.methods.forEach(method => this.function(method, this.start(method), this.end(method.body)));
+  }
+
+  visitOnStmt(stmt: On): void {
+    this.events.set(stmt.event, stmt);
+    this.visitAll(stmt.args);
+    this.function({ params: [], body: stmt.body }, this.start(stmt), this.end(stmt.body));
+  }
+
+  private function(fn: Function | Lambda | { params: Token[]; body: Stmt[] }, start: number, end: number): void {
+    const enclosing = this.scope;
+    this.scope = { start, end, functionDepth: enclosing.functionDepth + 1 };
+    this.scopes.push(this.scope);
+    fn.params.forEach(param => this.declare(param, 'parameter', fn as Function | Lambda));
+    this.visitAll(fn.body);
+    this.scope = enclosing;
+  }
+
+  private block(start: number, end: number, visit: () => void): void {
+    const enclosing = this.scope;
+    this.scope = { start, end, functionDepth: enclosing.functionDepth };
+    this.scopes.push(this.scope);
+    visit();
+    this.scope = enclosing;
+  }
+
+  private declare(name: Token, kind: SymbolKind, node: Stmt | Lambda): void {
+    if (this.real.has(name)) this.declarations.push({ name, kind, node, scope: this.scope });
+  }
+
+  private visitAll(nodes: Array<Expr | Stmt>): void {
+    nodes.forEach(node => node instanceof Stmt ? node.accept(this) : node.accept(this));
+  }
+
+  private start(stmt: Stmt): number {
+    return this.ranges.statements.get(stmt)?.start.offset ?? this.scope.start;
+  }
+
+  // Where a block's closing 'end' (or 'elif' or 'else') is
+  private end(block: Stmt[]): number {
+    return this.ranges.blockEnds.get(block)?.offset ?? this.scope.end;
+  }
+}
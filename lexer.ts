@@ -1,43 +1,89 @@
-import { Token, TokenImpl, TokenType } from './tokens';
+import { Comment, Token, TokenImpl, TokenType } from './tokens';
+import { Diagnostic, DiagnosticCode, Position, Span, createDiagnostic } from './diagnostics';
+
+// Reserved words, which can't be used as names
+export const KEYWORDS: ReadonlyMap<string, TokenType> = new Map([
+  ['var', TokenType.VAR],
+  ['print', TokenType.PRINT],
+  ['func', TokenType.FUNC],
+  ['return', TokenType.RETURN],
+  ['end', TokenType.END],
+  ['if', TokenType.IF],
+  ['else', TokenType.ELSE],
+  ['elif', TokenType.ELIF],
+  ['and', TokenType.AND],
+  ['or', TokenType.OR],
+  ['not', TokenType.NOT],
+  ['for', TokenType.FOR],
+  ['while', TokenType.WHILE],
+  ['in', TokenType.IN],
+  ['global', TokenType.GLOBAL],
+  ['break', TokenType.BREAK],
+  ['continue', TokenType.CONTINUE],
+  ['import', TokenType.IMPORT],
+  ['export', TokenType.EXPORT],
+  ['class', TokenType.CLASS],
+  ['new', TokenType.NEW],
+  ['self', TokenType.SELF],
+  ['super', TokenType.SUPER],
+  ['on', TokenType.ON],
+  ['true', TokenType.TRUE],
+  ['false', TokenType.FALSE]
+]);
 
 export class Lexer {
   private source: string;
   private tokens: Token[] = [];
+  readonly errors: Diagnostic[] = [];
+  // Comments in the order they appear, which parsing ignores
+  readonly comments: Comment[] = [];
   private start = 0;
   private current = 0;
   private line = 1;
+  // Offset of the first character on the current line, for columns
+  private lineStart = 0;
+  // Position of the token being scanned, since strings can span lines
+  private startLine = 1;
+  private startColumn = 1;
+  // Strings whose interpolated expression is being scanned, innermost last.
+  // depth counts the braces opened inside the expression, so only the
+  // matching '}' goes back to scanning the string.
+  private interpolations: { quote: string; start: Position; depth: number }[] = [];
 
-  private keywords = new Map<string, TokenType>([
-    ['var', TokenType.VAR],
-    ['print', TokenType.PRINT],
-    ['func', TokenType.FUNC],
-    ['return', TokenType.RETURN],
-    ['end', TokenType.END],
-    ['if', TokenType.IF],
-    ['else', TokenType.ELSE],
-    ['elif', TokenType.ELIF],
-    ['and', TokenType.AND],
-    ['or', TokenType.OR],
-    ['not', TokenType.NOT],
-    ['for', TokenType.FOR],
-    ['while', TokenType.WHILE],
-    ['in', TokenType.IN],
-    ['global', TokenType.GLOBAL],
-    ['true', TokenType.TRUE],
-    ['false', TokenType.FALSE]
-  ]);
-
-  constructor(source: string) {
+  // Scanning can start partway through the source, at a position outside
+  // any string or comment, to re-scan only the part of a script that changed
+  constructor(source: string, start: Position = { line: 1, column: 1, offset: 0 }) {
     this.source = source;
+    this.current = start.offset;
+    this.line = start.line;
+    this.lineStart = start.offset - start.column + 1;
   }
 
   scanTokens(): Token[] {
+    return this.scanUntil(() => false);
+  }
+
+  /**
+   * Scans until stop() returns true for the offset of the next character,
+   * which it's asked between tokens outside of strings, or to the end of the
+   * source, which adds the EOF token. Returns the tokens scanned.
+   */
+  scanUntil(stop: (offset: number) => boolean): Token[] {
     while (!this.isAtEnd()) {
+      if (this.interpolations.length === 0 && stop(this.current)) return this.tokens;
       this.start = this.current;
+      this.startLine = this.line;
+      this.startColumn = this.current - this.lineStart + 1;
       this.scanToken();
     }
 
-    this.tokens.push(new TokenImpl(TokenType.EOF, '', null, this.line));
+    // Strings still waiting for the '}' of an interpolated expression
+    for (const { start } of this.interpolations) {
+      this.errors.push(createDiagnostic(DiagnosticCode.UnterminatedString, 'Unterminated string.', { start, end: this.currentSpan().end }));
+    }
+
+    const column = this.current - this.lineStart + 1;
+    this.tokens.push(new TokenImpl(TokenType.EOF, '', null, this.line, column, this.current));
     return this.tokens;
   }
 
@@ -51,7 +97,7 @@ export class Lexer {
         // Ignore whitespace
         break;
       case '\n':
-        this.line++;
+        this.newLine();
         break;
       case '+':
         if (this.peek() === '+') {
@@ -76,7 +122,41 @@ export class Lexer {
         }
         break;
       case '*':
-        this.addToken(TokenType.MULTIPLY);
+        if (this.peek() === '*') {
+          this.advance();
+          this.addToken(TokenType.POWER);
+        } else if (this.peek() === '=') {
+          this.advance();
+          this.addToken(TokenType.MULTIPLY_EQUAL);
+        } else {
+          this.addToken(TokenType.MULTIPLY);
+        }
+        break;
+      case '%':
+        if (this.peek() === '=') {
+          this.advance();
+          this.addToken(TokenType.MODULO_EQUAL);
+        } else {
+          this.addToken(TokenType.MODULO);
+        }
+        break;
+      case '~':
+        // Floor division is ~/ since // starts a comment
+        if (this.peek() === '/') {
+          this.advance();
+          this.addToken(TokenType.FLOOR_DIVIDE);
+        } else {
+          this.error(DiagnosticCode.UnexpectedCharacter, `Unexpected character: ${c}`);
+        }
+        break;
+      case '&':
+        this.addToken(TokenType.BIT_AND);
+        break;
+      case '|':
+        this.addToken(TokenType.BIT_OR);
+        break;
+      case '^':
+        this.addToken(TokenType.BIT_XOR);
         break;
       case '/':
         if (this.peek() === '/') {
@@ -84,6 +164,7 @@ export class Lexer {
           while (this.peek() !== '\n' && !this.isAtEnd()) {
             this.advance();
           }
+          this.addComment();
         } else if (this.peek() === '*') {
           // Multi-line comment
           this.advance(); // consume *
@@ -93,9 +174,12 @@ export class Lexer {
               this.advance(); // consume /
               break;
             }
-            if (this.peek() === '\n') this.line++;
-            this.advance();
+            if (this.advance() === '\n') this.newLine();
           }
+          this.addComment();
+        } else if (this.peek() === '=') {
+          this.advance();
+          this.addToken(TokenType.DIVIDE_EQUAL);
         } else {
           this.addToken(TokenType.DIVIDE);
         }
@@ -104,6 +188,9 @@ export class Lexer {
         if (this.peek() === '=') {
           this.advance();
           this.addToken(TokenType.EQUAL_EQUAL);
+        } else if (this.peek() === '>') {
+          this.advance();
+          this.addToken(TokenType.ARROW);
         } else {
           this.addToken(TokenType.EQUAL);
         }
@@ -112,6 +199,9 @@ export class Lexer {
         if (this.peek() === '=') {
           this.advance();
           this.addToken(TokenType.GREATER_EQUAL);
+        } else if (this.peek() === '>') {
+          this.advance();
+          this.addToken(TokenType.SHIFT_RIGHT);
         } else {
           this.addToken(TokenType.GREATER);
         }
@@ -120,6 +210,9 @@ export class Lexer {
         if (this.peek() === '=') {
           this.advance();
           this.addToken(TokenType.LESS_EQUAL);
+        } else if (this.peek() === '<') {
+          this.advance();
+          this.addToken(TokenType.SHIFT_LEFT);
         } else {
           this.addToken(TokenType.LESS);
         }
@@ -129,7 +222,7 @@ export class Lexer {
           this.advance();
           this.addToken(TokenType.BANG_EQUAL);
         } else {
-          throw new Error(`Unexpected character: ${c} at line ${this.line}`);
+          this.error(DiagnosticCode.UnexpectedCharacter, `Unexpected character: ${c}`);
         }
         break;
       case '(':
@@ -145,11 +238,21 @@ export class Lexer {
         this.addToken(TokenType.RIGHT_BRACKET);
         break;
       case '{':
+        if (this.interpolations.length > 0) this.interpolations[this.interpolations.length - 1].depth++;
         this.addToken(TokenType.LEFT_BRACE);
         break;
-      case '}':
-        this.addToken(TokenType.RIGHT_BRACE);
+      case '}': {
+        const interpolation = this.interpolations[this.interpolations.length - 1];
+        if (interpolation && interpolation.depth === 0) {
+          // The end of an interpolated expression, so the string carries on
+          this.interpolations.pop();
+          this.string(interpolation.quote, interpolation.start);
+        } else {
+          if (interpolation) interpolation.depth--;
+          this.addToken(TokenType.RIGHT_BRACE);
+        }
         break;
+      }
       case ',':
         this.addToken(TokenType.COMMA);
         break;
@@ -174,7 +277,7 @@ export class Lexer {
         } else if (this.isAlpha(c)) {
           this.identifier();
         } else {
-          throw new Error(`Unexpected character: ${c} at line ${this.line}`);
+          this.error(DiagnosticCode.UnexpectedCharacter, `Unexpected character: ${c}`);
         }
         break;
     }
@@ -186,28 +289,72 @@ export class Lexer {
     }
 
     const text = this.source.substring(this.start, this.current);
-    const type = this.keywords.get(text) || TokenType.IDENTIFIER;
+    const type = KEYWORDS.get(text) || TokenType.IDENTIFIER;
     this.addToken(type);
   }
 
-  private string(quote: string): void {
+  // Scans the rest of a string after its opening quote, or after the '}'
+  // of an interpolated expression. start is where the whole string began.
+  private string(quote: string, start: Position = this.tokenStart()): void {
+    let value = '';
+
     while (this.peek() !== quote && !this.isAtEnd()) {
-      if (this.peek() === '\n') this.line++;
-      this.advance();
+      const c = this.advance();
+      if (c === '\\') {
+        value += this.escape();
+      } else if (c === '{') {
+        // "Score: {score}" - the expression is scanned as ordinary tokens,
+        // up to the '}' that ends it
+        this.addToken(TokenType.INTERPOLATION, value);
+        this.interpolations.push({ quote, start, depth: 0 });
+        return;
+      } else {
+        if (c === '\n') this.newLine();
+        value += c;
+      }
     }
 
     if (this.isAtEnd()) {
-      throw new Error(`Unterminated string at line ${this.line}`);
+      this.errors.push(createDiagnostic(DiagnosticCode.UnterminatedString, 'Unterminated string.', { start, end: this.currentSpan().end }));
+      return;
     }
 
     // Consume closing quote
     this.advance();
-
-    // Get string value without quotes
-    const value = this.source.substring(this.start + 1, this.current - 1);
     this.addToken(TokenType.STRING, value);
   }
 
+  // Called after consuming a backslash in a string, returns the character it stands for
+  private escape(): string {
+    if (this.isAtEnd()) return '';
+    const c = this.advance();
+
+    switch (c) {
+      case 'n': return '\n';
+      case 't': return '\t';
+      case 'r': return '\r';
+      case '0': return '\0';
+      case '\\':
+      case '"':
+      case "'":
+      case '{':
+      case '}':
+        return c;
+      case '\n':
+        // A backslash at the end of a line continues the string on the next one
+        this.newLine();
+        return '';
+      default: {
+        const column = this.current - this.lineStart - 1;
+        this.errors.push(createDiagnostic(DiagnosticCode.InvalidEscape, `Unknown escape sequence '\\${c}'.`, {
+          start: { line: this.line, column, offset: this.current - 2 },
+          end: { line: this.line, column: column + 2, offset: this.current }
+        }));
+        return c;
+      }
+    }
+  }
+
   private number(): void {
     while (this.isDigit(this.peek())) {
       this.advance();
@@ -257,7 +404,34 @@ export class Lexer {
 
   private addToken(type: TokenType, literal: any = null): void {
     const text = this.source.substring(this.start, this.current);
-    this.tokens.push(new TokenImpl(type, text, literal, this.line));
+    this.tokens.push(new TokenImpl(type, text, literal, this.startLine, this.startColumn, this.start));
+  }
+
+  private addComment(): void {
+    const text = this.source.substring(this.start, this.current).replace(/\s+$/, '');
+    this.comments.push({ text, line: this.startLine, column: this.startColumn, offset: this.start });
+  }
+
+  // Called after consuming a '\n'
+  private newLine(): void {
+    this.line++;
+    this.lineStart = this.current;
+  }
+
+  // Record the error and keep scanning so every bad character gets reported
+  private error(code: DiagnosticCode, message: string): void {
+    this.errors.push(createDiagnostic(code, message, this.currentSpan()));
+  }
+
+  private tokenStart(): Position {
+    return { line: this.startLine, column: this.startColumn, offset: this.start };
+  }
+
+  // Span from the start of the token being scanned to the current character
+  private currentSpan(): Span {
+    const start = this.tokenStart();
+    const end: Position = { line: this.line, column: this.current - this.lineStart + 1, offset: this.current };
+    return { start, end };
   }
 
   private isAtEnd(): boolean {
@@ -0,0 +1,80 @@
+import { transpile, TranspileError } from './transpiler';
+import { formatDiagnostic } from './diagnostics';
+
+console.log('=== Testing Break and Continue ===\n');
+
+function show(code: string) {
+  console.log('Input:');
+  console.log(code);
+  console.log('Output:');
+  try {
+    console.log(transpile(code));
+  } catch (error) {
+    if (!(error instanceof TranspileError)) throw error;
+    error.diagnostics.forEach(diagnostic => console.log(formatDiagnostic(diagnostic)));
+  }
+  console.log('---\n');
+}
+
+// Test 1: break in a while loop
+console.log('Test 1: break in while');
+show(`
+var lives = 3
+while (true)
+  lives -= 1
+  if (lives <= 0)
+    break
+  end
+end
+`);
+
+// Test 2: continue in a C-style for loop
+console.log('Test 2: continue in for');
+show(`
+for (var i = 0; i < 10; i++)
+  if (i == 3)
+    continue
+  end
+  print(i)
+end
+`);
+
+// Test 3: for-in with an index stays a real loop
+console.log('Test 3: break and continue in for-in');
+show(`
+var enemies = [5, 0, 3, 8]
+for (i, hp in enemies)
+  if (hp == 0)
+    continue
+  end
+  if (i > 2)
+    break
+  end
+  print(hp)
+end
+for (hp in enemies)
+  if (hp > 4)
+    break
+  end
+end
+`);
+
+// Test 4: Outside of a loop is an error
+console.log('Test 4: break and continue outside a loop');
+show(`
+break
+if (true)
+  continue
+end
+`);
+
+// Test 5: A function body doesn't inherit the enclosing loop
+console.log('Test 5: break inside a function inside a loop');
+show(`
+while (true)
+  func stop()
+    break
+  end
+  break
+end
+`);
@@ -0,0 +1,257 @@
+import { WispDocument, RenameError, SymbolKind, CompletionKind, DocumentSymbol } from './language';
+import { format } from './formatter';
+import { TranspileError } from './transpiler';
+import { Diagnostic, DiagnosticSeverity, Span } from './diagnostics';
+
+/**
+ * A Language Server Protocol server for .wisp files, talking JSON-RPC over
+ * stdin and stdout. Point an editor's generic LSP client at `npx tsx lsp.ts`.
+ *
+ * Documents are synced in full and checked again on every change, which
+ * publishes their diagnostics. Pass `hostGlobals` in the client's
+ * initializationOptions to target an engine with different names.
+ */
+
+interface Position {
+  // Both 0-based; characters are UTF-16 code units, like JavaScript strings
+  line: number;
+  character: number;
+}
+
+interface Range {
+  start: Position;
+  end: Position;
+}
+
+interface Message {
+  id?: number | string;
+  method?: string;
+  params?: any;
+}
+
+interface OpenDocument {
+  document: WispDocument;
+  // Offset of the start of each line, to turn positions into offsets
+  lineStarts: number[];
+}
+
+// Error codes from the JSON-RPC and LSP specifications
+const PARSE_ERROR = -32700;
+const METHOD_NOT_FOUND = -32601;
+const INTERNAL_ERROR = -32603;
+const REQUEST_FAILED = -32803;
+
+// CompletionItemKind, SymbolKind and DiagnosticSeverity numbers from the LSP
+const COMPLETION_KINDS: Record<CompletionKind, number> = {
+  keyword: 14, variable: 6, function: 3, class: 7, field: 5, method: 2, event: 23
+};
+const SYMBOL_KINDS: Record<SymbolKind, number> = {
+  variable: 13, parameter: 13, function: 12, class: 5, field: 8, method: 6, import: 13, event: 24
+};
+const SEVERITIES: Record<DiagnosticSeverity, number> = {
+  [DiagnosticSeverity.Error]: 1,
+  [DiagnosticSeverity.Warning]: 2,
+  [DiagnosticSeverity.Info]: 3
+};
+
+const documents = new Map<string, OpenDocument>();
+let hostGlobals: string[] | undefined;
+let shutdownRequested = false;
+
+function send(message: object): void {
+  const json = JSON.stringify({ jsonrpc: '2.0', ...message });
+  process.stdout.write(`Content-Length: ${Buffer.byteLength(json, 'utf-8')}\r\n\r\n${json}`);
+}
+
+function notify(method: string, params: object): void {
+  send({ method, params });
+}
+
+class RequestError extends Error {
+  constructor(public code: number, message: string) {
+    super(message);
+    this.name = 'RequestError';
+  }
+}
+
+function open(uri: string, text: string): void {
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') lineStarts.push(i + 1);
+  }
+  const document = new WispDocument(text, { hostGlobals });
+  documents.set(uri, { document, lineStarts });
+  notify('textDocument/publishDiagnostics', { uri, diagnostics: document.diagnostics.map(toLspDiagnostic) });
+}
+
+function get(uri: string): OpenDocument {
+  const open = documents.get(uri);
+  if (!open) throw new RequestError(REQUEST_FAILED, `${uri} isn't open.`);
+  return open;
+}
+
+function offsetAt(open: OpenDocument, position: Position): number {
+  const line = Math.min(position.line, open.lineStarts.length - 1);
+  const end = line + 1 < open.lineStarts.length ? open.lineStarts[line + 1] : open.document.source.length;
+  return Math.min(open.lineStarts[line] + position.character, end);
+}
+
+// Spans are 1-based
+function toRange(span: Span): Range {
+  return {
+    start: { line: span.start.line - 1, character: span.start.column - 1 },
+    end: { line: span.end.line - 1, character: span.end.column - 1 }
+  };
+}
+
+function toLspDiagnostic(diagnostic: Diagnostic): object {
+  return {
+    range: toRange(diagnostic.span),
+    severity: SEVERITIES[diagnostic.severity],
+    code: diagnostic.code,
+    source: 'wisp',
+    message: diagnostic.message
+  };
+}
+
+function toLspSymbol(symbol: DocumentSymbol): object {
+  return {
+    name: symbol.name,
+    kind: SYMBOL_KINDS[symbol.kind],
+    range: toRange(symbol.span),
+    selectionRange: toRange(symbol.selectionSpan),
+    children: symbol.children.map(toLspSymbol)
+  };
+}
+
+// Results of requests, by method. Notifications return nothing.
+const handlers: Record<string, (params: any) => unknown> = {
+  'initialize': params => {
+    hostGlobals = params?.initializationOptions?.hostGlobals;
+    return {
+      capabilities: {
+        // Full text on every change
+        textDocumentSync: 1,
+        definitionProvider: true,
+        hoverProvider: true,
+        completionProvider: { triggerCharacters: ['.'] },
+        documentSymbolProvider: true,
+        renameProvider: { prepareProvider: true },
+        documentFormattingProvider: true
+      },
+      serverInfo: { name: 'wisp' }
+    };
+  },
+  'initialized': () => undefined,
+  'shutdown': () => {
+    shutdownRequested = true;
+    return null;
+  },
+  'exit': () => process.exit(shutdownRequested ? 0 : 1),
+
+  'textDocument/didOpen': ({ textDocument }) => open(textDocument.uri, textDocument.text),
+  'textDocument/didChange': ({ textDocument, contentChanges }) => {
+    open(textDocument.uri, contentChanges[contentChanges.length - 1].text);
+  },
+  'textDocument/didClose': ({ textDocument }) => {
+    documents.delete(textDocument.uri);
+    notify('textDocument/publishDiagnostics', { uri: textDocument.uri, diagnostics: [] });
+  },
+
+  'textDocument/definition': ({ textDocument, position }) => {
+    const open = get(textDocument.uri);
+    const span = open.document.definitionAt(offsetAt(open, position));
+    return span && { uri: textDocument.uri, range: toRange(span) };
+  },
+  'textDocument/hover': ({ textDocument, position }) => {
+    const open = get(textDocument.uri);
+    const hover = open.document.hoverAt(offsetAt(open, position));
+    return hover && { contents: { kind: 'markdown', value: hover.contents }, range: toRange(hover.span) };
+  },
+  'textDocument/completion': ({ textDocument, position }) => {
+    const open = get(textDocument.uri);
+    return open.document.completionsAt(offsetAt(open, position)).map(completion => ({
+      label: completion.label,
+      kind: COMPLETION_KINDS[completion.kind],
+      detail: completion.detail || undefined
+    }));
+  },
+  'textDocument/documentSymbol': ({ textDocument }) => get(textDocument.uri).document.symbols().map(toLspSymbol),
+  'textDocument/prepareRename': ({ textDocument, position }) => {
+    const open = get(textDocument.uri);
+    return toRange(open.document.renameSpanAt(offsetAt(open, position)));
+  },
+  'textDocument/rename': ({ textDocument, position, newName }) => {
+    const open = get(textDocument.uri);
+    const edits = open.document.renameAt(offsetAt(open, position), newName);
+    return { changes: { [textDocument.uri]: edits.map(edit => ({ range: toRange(edit.span), newText: edit.newText })) } };
+  },
+  // Replaces the whole document, or leaves it alone if it has syntax errors
+  'textDocument/formatting': ({ textDocument, options }) => {
+    const open = get(textDocument.uri);
+    const { source } = open.document;
+    let formatted: string;
+    try {
+      formatted = format(source, { indent: options.insertSpaces ? ' '.repeat(options.tabSize) : '\t' });
+    } catch (error) {
+      if (!(error instanceof TranspileError)) throw error;
+      return null;
+    }
+    const lastLine = open.lineStarts.length - 1;
+    const end = { line: lastLine, character: source.length - open.lineStarts[lastLine] };
+    return formatted === source ? [] : [{ range: { start: { line: 0, character: 0 }, end }, newText: formatted }];
+  }
+};
+
+function handle(body: string): void {
+  let message: Message;
+  try {
+    message = JSON.parse(body);
+  } catch {
+    send({ id: null, error: { code: PARSE_ERROR, message: 'Invalid JSON.' } });
+    return;
+  }
+
+  const isRequest = message.id !== undefined;
+  const handler = message.method !== undefined && Object.prototype.hasOwnProperty.call(handlers, message.method)
+    ? handlers[message.method]
+    : null;
+  if (!handler) {
+    // Notifications the server doesn't know, like $/cancelRequest, can be ignored
+    if (isRequest) send({ id: message.id, error: { code: METHOD_NOT_FOUND, message: `Unknown method '${message.method}'.` } });
+    return;
+  }
+
+  try {
+    const result = handler(message.params);
+    if (isRequest) send({ id: message.id, result: result ?? null });
+  } catch (error) {
+    const code = error instanceof RenameError ? REQUEST_FAILED
+      : error instanceof RequestError ? error.code
+      : INTERNAL_ERROR;
+    if (code === INTERNAL_ERROR) console.error(error);
+    if (isRequest) send({ id: message.id, error: { code, message: error instanceof Error ? error.message : String(error) } });
+  }
+}
+
+// Messages are a Content-Length header, a blank line, then that many bytes of JSON
+let buffer = Buffer.alloc(0);
+process.stdin.on('data', (chunk: Buffer) => {
+  buffer = Buffer.concat([buffer, chunk]);
+  for (;;) {
+    const headerEnd = buffer.indexOf('\r\n\r\n');
+    if (headerEnd === -1) return;
+    const length = /Content-Length: *(\d+)/i.exec(buffer.subarray(0, headerEnd).toString('ascii'));
+    const start = headerEnd + 4;
+    if (!length) {
+      buffer = buffer.subarray(start);
+      continue;
+    }
+    const end = start + Number(length[1]);
+    if (buffer.length < end) return;
+    const body = buffer.subarray(start, end).toString('utf-8');
+    buffer = buffer.subarray(end);
+    handle(body);
+  }
+});
+process.stdin.on('end', () => process.exit(shutdownRequested ? 0 : 1));
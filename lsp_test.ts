@@ -0,0 +1,151 @@
+import { spawnSync } from 'child_process';
+import { WispDocument, RenameError } from './language';
+import { formatDiagnostic } from './diagnostics';
+
+console.log('=== Testing Language Server ===\n');
+
+const source = `// How fast the player moves
+var speed = 3
+
+// Moves the sprite by dx, dy
+func move(dx, dy)
+  sprite.x += dx * speed
+  sprite.y += dy
+end
+
+class Enemy
+  var hp = 3
+  func hit(n)
+    self.hp -= n
+  end
+end
+
+class Boss < Enemy
+  func roar()
+
+  end
+end
+
+on timer(2)
+  move(1, 0)
+end
+
+for (item in [1, 2])
+  print(floor(item))
+end
+`;
+const document = new WispDocument(source);
+
+// Offset of a piece of the source, plus some characters into it
+function at(text: string, delta: number = 0): number {
+  return source.indexOf(text) + delta;
+}
+
+function rename(doc: WispDocument, offset: number, newName: string) {
+  try {
+    const edits = doc.renameAt(offset, newName);
+    console.log(`${edits.length} edits: ${edits.map(edit => `${edit.span.start.line}:${edit.span.start.column}`).join(', ')}`);
+  } catch (error) {
+    if (!(error instanceof RenameError)) throw error;
+    console.log(`Error: ${error.message}`);
+  }
+}
+
+// Test 1: Go to definition
+console.log('Test 1: Definitions');
+for (const use of ['speed\n', 'move(1', 'dx * speed', 'Enemy\n  func roar', 'item))']) {
+  const span = document.definitionAt(at(use));
+  console.log(`${JSON.stringify(use)} -> ${span ? `${span.start.line}:${span.start.column}` : 'nothing'}`);
+}
+console.log(document.definitionAt(at('sprite.x')));
+console.log('---\n');
+
+// Test 2: Hover shows declarations with their inferred types and doc comments
+console.log('Test 2: Hover');
+for (const name of ['speed =', 'move(dx', 'dy)', 'Boss', 'timer', 'floor', 'sprite.x', 'item in']) {
+  console.log(document.hoverAt(at(name))?.contents ?? 'nothing');
+  console.log();
+}
+console.log('---\n');
+
+// Test 3: Completion for names in scope, members and events
+console.log('Test 3: Completion');
+const labels = (offset: number) => document.completionsAt(offset)
+  .filter(completion => completion.kind !== 'keyword')
+  .map(completion => `${completion.label} (${completion.kind}${completion.detail ? `: ${completion.detail}` : ''})`);
+const inRoar = at('roar()\n') + 'roar()\n'.length;
+console.log(labels(inRoar).slice(0, 8));
+console.log(document.completionsAt(inRoar).filter(completion => completion.kind === 'keyword').length, 'keywords');
+console.log(labels(at('sprite.y') + 7));
+console.log(labels(at('hp -=')));
+console.log(labels(at('timer')));
+const incomplete = new WispDocument('class Pet\n  var name = "Rex"\n  func speak()\n    self.\n  end\nend\nMath.');
+console.log(incomplete.completionsAt(incomplete.source.indexOf('self.') + 5).map(completion => completion.label));
+console.log(incomplete.completionsAt(incomplete.source.length).map(completion => completion.label).slice(0, 6));
+console.log('---\n');
+
+// Test 4: Document symbols
+console.log('Test 4: Symbols');
+const outline = (symbols: ReturnType<WispDocument['symbols']>, indent: string = ''): void => symbols.forEach(symbol => {
+  console.log(`${indent}${symbol.kind} ${symbol.name} (lines ${symbol.span.start.line}-${symbol.span.end.line})`);
+  outline(symbol.children, indent + '  ');
+});
+outline(document.symbols());
+console.log('---\n');
+
+// Test 5: Rename, and renames that would change what the script means
+console.log('Test 5: Rename');
+rename(document, at('speed ='), 'pace');
+rename(document, at('(dx', 1), 'x');
+rename(document, at('speed ='), 'move');
+rename(document, at('(dx', 1), 'dy');
+rename(document, at('Enemy\n  var'), 'Foe');
+rename(document, at('floor'), 'round_down');
+rename(document, at('speed ='), '2fast');
+rename(document, at('hp -='), 'health');
+const modules = new WispDocument('import { vector } from "./lib/vector"\nexport func double(v)\n  return vector(v.x * 2, v.y * 2)\nend\nfunc _forever()\nend');
+rename(modules, modules.source.indexOf('vector('), 'vec');
+rename(modules, modules.source.indexOf('double'), 'twice');
+rename(modules, modules.source.indexOf('_forever'), 'loop');
+console.log('---\n');
+
+// Test 6: Diagnostics, while names keep working despite syntax errors
+console.log('Test 6: Diagnostics');
+const broken = new WispDocument('var lives = 3\nprint(livs)\nfunc lose()\n  lives -= 1\nend\nif (lives\n');
+broken.diagnostics.forEach(diagnostic => console.log(formatDiagnostic(diagnostic)));
+const span = broken.definitionAt(broken.source.indexOf('lives -='));
+console.log(`lives -> ${span?.start.line}:${span?.start.column}`);
+new WispDocument('var lives = 3\nprint(livs)').diagnostics.forEach(diagnostic => console.log(formatDiagnostic(diagnostic)));
+console.log('---\n');
+
+// Test 7: A session with the server over stdio
+console.log('Test 7: Server');
+const uri = 'file:///game/player.wisp';
+const messages = [
+  { id: 1, method: 'initialize', params: { capabilities: {} } },
+  { method: 'initialized', params: {} },
+  { method: 'textDocument/didOpen', params: { textDocument: { uri, languageId: 'wisp', version: 1, text: 'var score = 0\nprint(scor)\n' } } },
+  { method: 'textDocument/didChange', params: { textDocument: { uri, version: 2 }, contentChanges: [{ text: 'var score = 0\nprint(score)\n' }] } },
+  { id: 2, method: 'textDocument/hover', params: { textDocument: { uri }, position: { line: 1, character: 8 } } },
+  { id: 3, method: 'textDocument/definition', params: { textDocument: { uri }, position: { line: 1, character: 8 } } },
+  { id: 4, method: 'textDocument/rename', params: { textDocument: { uri }, position: { line: 0, character: 5 }, newName: 'points' } },
+  { id: 5, method: 'textDocument/prepareRename', params: { textDocument: { uri }, position: { line: 1, character: 2 } } },
+  { id: 6, method: 'textDocument/documentSymbol', params: { textDocument: { uri } } },
+  { method: 'textDocument/didChange', params: { textDocument: { uri, version: 3 }, contentChanges: [{ text: 'var score=0\nfunc add(n)\n score+=n\nend\n' }] } },
+  { id: 7, method: 'textDocument/formatting', params: { textDocument: { uri }, options: { tabSize: 2, insertSpaces: true } } },
+  { id: 8, method: 'textDocument/codeLens', params: { textDocument: { uri } } },
+  { id: 9, method: 'shutdown' },
+  { method: 'exit' }
+];
+const input = messages.map(message => {
+  const json = JSON.stringify({ jsonrpc: '2.0', ...message });
+  return `Content-Length: ${Buffer.byteLength(json)}\r\n\r\n${json}`;
+}).join('');
+const result = spawnSync('npx', ['tsx', 'lsp.ts'], { input, encoding: 'utf-8' });
+for (const body of result.stdout.split(/Content-Length: \d+\r\n\r\n/).filter(Boolean)) {
+  const message = JSON.parse(body);
+  if (message.result?.capabilities) message.result.capabilities = Object.keys(message.result.capabilities);
+  console.log(JSON.stringify(message));
+}
+console.log(result.stderr.trim());
+console.log(`(exit code ${result.status})`);
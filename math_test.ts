@@ -14,6 +14,8 @@ var b = ceil(3.2)
 var c = round(3.5)
 
 // Other math
+var x = 3
+var y = 4
 var distance = sqrt(pow(x, 2) + pow(y, 2))
 var maximum = max(10, 20, 30)
 var minimum = min(5, 3, 8)
@@ -0,0 +1,172 @@
+import { Token } from './tokens';
+import { Diagnostic, DiagnosticCode, createDiagnostic, tokenSpan } from './diagnostics';
+import { analyze, Analysis, AnalyzeOptions, TranspileError } from './transpiler';
+import { Stmt, Import, Export } from './ast';
+
+/**
+ * Where ModuleLoader reads scripts from. Paths are whatever the host uses
+ * to name a file; the loader only passes them back and compares them.
+ */
+export interface ModuleHost {
+  // Path of the script `specifier` refers to from inside the script at `from`
+  resolve(specifier: string, from: string): string;
+  // Contents of the script, or null if there's no such file
+  read(path: string): string | null;
+}
+
+// A host whose files are the keys of a plain object, e.g. for tests or the browser
+export class MemoryModuleHost implements ModuleHost {
+  constructor(private files: Record<string, string> = {}) {}
+
+  resolve(specifier: string, from: string): string {
+    return resolvePath(specifier, from);
+  }
+
+  read(path: string): string | null {
+    return Object.prototype.hasOwnProperty.call(this.files, path) ? this.files[path] : null;
+  }
+}
+
+/**
+ * Resolves a specifier like "./helpers" or "../lib/vector.wisp" against the
+ * '/'-separated path of the importing script. The .wisp extension is optional.
+ */
+export function resolvePath(specifier: string, from: string): string {
+  const parts = from.split('/').slice(0, -1);
+  for (const part of specifier.split('/')) {
+    if (part === '..' && parts.length > 0 && parts[parts.length - 1] !== '..') {
+      parts.pop();
+    } else if (part !== '.' && part !== '') {
+      parts.push(part);
+    }
+  }
+
+  const path = parts.join('/');
+  return path.endsWith('.wisp') ? path : `${path}.wisp`;
+}
+
+export interface Module {
+  path: string;
+  source: string;
+  // Null when the script itself has errors
+  analysis: Analysis | null;
+  // The module each import loads, in source order. Imports that failed are left out.
+  imports: { stmt: Import; module: Module }[];
+  // The script's own errors, or those of its imports
+  errors: Diagnostic[];
+}
+
+/**
+ * Thrown for a set of modules that can't run, with the path of the first
+ * module that has errors
+ */
+export class ModuleError extends TranspileError {
+  constructor(public path: string, diagnostics: Diagnostic[]) {
+    super(diagnostics);
+    this.message = `${path}: ${this.message}`;
+    this.name = 'ModuleError';
+  }
+}
+
+/**
+ * Loads scripts and the scripts they import through a ModuleHost. Each one
+ * is analyzed on its own; the loader then checks that every imported script
+ * exists, exports the names asked for, and doesn't import itself back.
+ *
+ * Errors are recorded on the module whose import failed rather than thrown,
+ * so one bad script doesn't hide problems in the others.
+ */
+export class ModuleLoader {
+  // Every module loaded so far, by path
+  private modules = new Map<string, Module>();
+  // Paths of the modules whose imports are being loaded, innermost last
+  private loading: string[] = [];
+
+  constructor(private host: ModuleHost, private options: AnalyzeOptions = {}) {}
+
+  /**
+   * Loads a script and everything it imports. Modules are cached, so
+   * loading several scripts that share imports only reads those once.
+   * @returns null if the host has no such script
+   */
+  load(path: string): Module | null {
+    const cached = this.modules.get(path);
+    if (cached) return cached;
+
+    const source = this.host.read(path);
+    if (source === null) return null;
+
+    const module: Module = { path, source, analysis: null, imports: [], errors: [] };
+    this.modules.set(path, module);
+
+    try {
+      module.analysis = analyze(source, this.options);
+    } catch (error) {
+      if (!(error instanceof TranspileError)) throw error;
+      module.errors.push(...error.diagnostics);
+      return module;
+    }
+
+    this.loading.push(path);
+    try {
+      for (const stmt of module.analysis.statements) {
+        if (stmt instanceof Import) this.loadImport(module, stmt);
+      }
+    } finally {
+      this.loading.pop();
+    }
+
+    return module;
+  }
+
+  // The module and everything it imports, each import before its importers
+  graph(module: Module): Module[] {
+    const order: Module[] = [];
+    const visit = (current: Module) => {
+      if (order.includes(current)) return;
+      current.imports.forEach(entry => visit(entry.module));
+      order.push(current);
+    };
+    visit(module);
+    return order;
+  }
+
+  private loadImport(importer: Module, stmt: Import): void {
+    const path = this.host.resolve(stmt.path.literal, importer.path);
+
+    const cycleStart = this.loading.indexOf(path);
+    if (cycleStart !== -1) {
+      const cycle = [...this.loading.slice(cycleStart), path].join(' -> ');
+      this.error(importer, stmt.path, DiagnosticCode.ImportCycle, `Import cycle: ${cycle}.`);
+      return;
+    }
+
+    const module = this.load(path);
+    if (!module) {
+      this.error(importer, stmt.path, DiagnosticCode.ModuleNotFound, `Can't find '${stmt.path.literal}' (looked for ${path}).`);
+      return;
+    }
+    importer.imports.push({ stmt, module });
+
+    // A script with errors of its own reports them itself
+    if (!module.analysis) return;
+    const exported = exportedNames(module.analysis.statements);
+    for (const name of stmt.names) {
+      if (!exported.has(name.lexeme)) {
+        this.error(importer, name, DiagnosticCode.MissingExport, `'${stmt.path.literal}' doesn't export '${name.lexeme}'.`);
+      }
+    }
+  }
+
+  private error(module: Module, token: Token, code: DiagnosticCode, message: string): void {
+    module.errors.push(createDiagnostic(code, message, tokenSpan(token)));
+  }
+}
+
+function exportedNames(statements: Stmt[]): Set<string> {
+  const names = new Set<string>();
+  for (const stmt of statements) {
+    if (stmt instanceof Export) names.add(stmt.declaration.name.lexeme);
+  }
+  return names;
+}
@@ -0,0 +1,146 @@
+import { emit, transpile, TranspileError } from './transpiler';
+import { ModuleLoader, MemoryModuleHost, ModuleError } from './modules';
+import { runModule } from './interpreter';
+import { formatDiagnostic } from './diagnostics';
+
+console.log('=== Testing Modules ===\n');
+
+// Loads entry and prints the TypeScript or errors of every module it uses
+function show(files: Record<string, string>, entry: string = 'main.wisp') {
+  const loader = new ModuleLoader(new MemoryModuleHost(files));
+  const module = loader.load(entry)!;
+
+  for (const current of loader.graph(module)) {
+    console.log(`${current.path}:`);
+    if (current.errors.length > 0) {
+      current.errors.forEach(diagnostic => console.log(formatDiagnostic(diagnostic)));
+    } else {
+      console.log(emit(current.analysis!, current.source));
+    }
+  }
+  console.log('---\n');
+}
+
+function showErrors(code: string) {
+  console.log('Input:');
+  console.log(code);
+  console.log('Output:');
+  try {
+    console.log(transpile(code));
+  } catch (error) {
+    if (!(error instanceof TranspileError)) throw error;
+    error.diagnostics.forEach(diagnostic => console.log(formatDiagnostic(diagnostic)));
+  }
+  console.log('---\n');
+}
+
+const helpers = `
+export func vector(x, y)
+  return {x: x, y: y}
+end
+
+export func add(a, b)
+  return vector(a.x + b.x, a.y + b.y)
+end
+
+export var ORIGIN = vector(0, 0)
+var unused = "not exported"
+`;
+
+// Test 1: Imports and exports become ES module syntax
+console.log('Test 1: Generated imports and exports');
+show({
+  'main.wisp': `
+import { vector, add } from "./lib/helpers"
+import { spawn } from "./particles.wisp"
+
+var velocity = vector(1, 2)
+sprite.x = add(velocity, velocity).x
+spawn(10)
+`,
+  'lib/helpers.wisp': helpers,
+  'particles.wisp': `
+import { vector, ORIGIN } from "./lib/helpers"
+
+export func spawn(count)
+  for (var i = 0; i < count; i++)
+    var clone = createClone()
+    clone.velocity = vector(random() - 0.5, random())
+  end
+end
+`
+});
+
+// Test 2: Scripts that don't exist or don't export a name
+console.log('Test 2: Missing module and missing export');
+show({
+  'main.wisp': `
+import { vector, scale } from "./lib/helpers"
+import { explode } from "./effects"
+`,
+  'lib/helpers.wisp': helpers
+});
+
+// Test 3: Scripts that import each other
+console.log('Test 3: Import cycle');
+show({
+  'main.wisp': 'import { b } from "./b"\nexport func a()\nend',
+  'b.wisp': 'import { c } from "./c"\nexport func b()\nend',
+  'c.wisp': 'import { a } from "./main"\nexport func c()\nend'
+});
+
+// Test 4: Mistakes each script can have on its own
+console.log('Test 4: Misplaced imports and exports');
+showErrors(`
+import { speed } from "./settings"
+speed = 10
+
+func setup()
+  import { vector } from "./helpers"
+  export var ready = true
+end
+`);
+showErrors('export global var score = 0');
+showErrors('import { vector } "./helpers"');
+
+// Test 5: Running modules. Each runs once, and imports see later assignments.
+console.log('Test 5: Running modules');
+runModule('game/main.wisp', new MemoryModuleHost({
+  'game/main.wisp': `
+import { add, score, reset } from "./score"
+import { log } from "../shared/log"
+add(5)
+add(10)
+log(score)
+reset()
+print(score)
+`,
+  'game/score.wisp': `
+export var score = 0
+print("score.wisp runs")
+export func add(points)
+  score += points
+end
+export func reset()
+  score = 0
+end
+`,
+  'shared/log.wisp': `
+import { score } from "../game/score"
+export func log(label)
+  print("score: " + label + " / " + score)
+end
+`
+}));
+
+// A script with errors stops the whole program from running
+try {
+  runModule('main.wisp', new MemoryModuleHost({
+    'main.wisp': 'import { add } from "./score"\nadd(1)',
+    'score.wisp': 'export func add(points)\n  totl += points\nend'
+  }));
+} catch (error) {
+  if (!(error instanceof ModuleError)) throw error;
+  console.log(error.message);
+}
+console.log('---\n');
@@ -12,7 +12,7 @@ end
 console.log('Input:');
 console.log(test1);
 console.log('Output:');
-console.log(transpile(test1));
+console.log(transpile(test1, { optimize: false }));
 console.log('Expected: (!(sprite.x > 500))');
 console.log('---\n');
 
@@ -26,12 +26,13 @@ end
 console.log('Input:');
 console.log(test2);
 console.log('Output:');
-console.log(transpile(test2));
+console.log(transpile(test2, { optimize: false }));
 console.log('---\n');
 
 // Test 3: NOT with variable
 console.log('Test 3: not is_alive');
 const test3 = `
+var is_alive = true
 if (not is_alive)
   print("test")
 end
@@ -39,5 +40,5 @@ end
 console.log('Input:');
 console.log(test3);
 console.log('Output:');
-console.log(transpile(test3));
+console.log(transpile(test3, { optimize: false }));
 console.log('---\n');
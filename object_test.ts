@@ -47,3 +47,22 @@ try {
   console.log('Error:', e.message);
 }
 console.log('---\n');
+
+// Test 4: The object of a compound assignment is evaluated once
+console.log('Test 4: Compound assignment to a property');
+const test4 = `
+var player = {x: 0, lives: 3}
+func target()
+  print("target")
+  return player
+end
+target().x += 5
+target().lives--
+`;
+console.log('Input:', test4);
+try {
+  console.log('Output:', transpile(test4));
+} catch (e) {
+  console.log('Error:', e.message);
+}
+console.log('---\n');
@@ -0,0 +1,63 @@
+import { transpile } from './transpiler';
+import { run } from './interpreter';
+
+console.log('=== Testing Operators ===\n');
+
+function show(code: string) {
+  console.log('Input:');
+  console.log(code);
+  console.log('Output:');
+  console.log(transpile(code, { optimize: false }));
+  console.log('Folded:');
+  console.log(transpile(code));
+  console.log('Runs as:');
+  run(code);
+  console.log('---\n');
+}
+
+// Test 1: Remainder, floor division and powers
+console.log('Test 1: Arithmetic');
+show(`
+var index = 19
+print(index % 8)
+print(index ~/ 8)
+print(-7 ~/ 2)
+print(2 ** 3 ** 2)
+print(-2 ** 2)
+print(2 ** -1)
+print(1 + 2 * 3 % 4)
+`);
+
+// Test 2: Compound assignments, on vars, fields and globals
+console.log('Test 2: Compound assignments');
+show(`
+var frame = 7
+frame *= 3
+frame /= 2
+frame %= 4
+print(frame)
+var tile = {size: 3}
+tile.size *= 4
+global scale = 9
+global scale /= 3
+print(tile.size * global scale)
+`);
+
+// Test 3: Bitwise operators bind tighter than comparisons
+console.log('Test 3: Bitwise operators');
+show(`
+var SOLID = 1
+var WATER = 2
+var flags = SOLID | WATER | 8
+print(flags & WATER == WATER)
+print(flags ^ SOLID)
+print(1 << 4 + 1)
+print(256 >> 2 & 15)
+`);
+
+// Test 4: A >> closing two type arguments isn't a shift
+console.log('Test 4: Nested list types');
+show(`
+var grid: list<list<number>> = [[1, 2], [3, 4]]
+print(grid[1][0] << 1)
+`);
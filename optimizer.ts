@@ -0,0 +1,349 @@
+import { Token, TokenType } from './tokens';
+import {
+  Expr, Stmt, ExprVisitor, StmtVisitor,
+  Binary, Unary, Literal, Variable, Call, Get, Assign, Set, Logical, Index, IndexSet, Template, Lambda, New, Self, Super,
+  Var, Expression, Print, Function, Return, If, While, For, ForIn, Break, Continue, Import, Export, Class, On
+} from './ast';
+
+// Values the optimizer can compute with at compile time
+export type Constant = number | string | boolean | null;
+
+function isConstant(expr: Expr): expr is Literal {
+  return expr instanceof Literal && (expr.value === null || typeof expr.value !== 'object');
+}
+
+// Folds a binary operator with TypeScript's runtime semantics, or returns
+// undefined if the result isn't worth writing as a literal
+function foldBinary(operator: TokenType, left: Constant, right: Constant): Constant | undefined {
+  const numbers = typeof left === 'number' && typeof right === 'number';
+  const strings = typeof left === 'string' && typeof right === 'string';
+
+  switch (operator) {
+    case TokenType.PLUS:
+      if (numbers) return finite((left as number) + (right as number));
+      if (typeof left === 'string' || typeof right === 'string') return String(left) + String(right);
+      return undefined;
+    case TokenType.MINUS:
+      return numbers ? finite((left as number) - (right as number)) : undefined;
+    case TokenType.MULTIPLY:
+      return numbers ? finite((left as number) * (right as number)) : undefined;
+    case TokenType.DIVIDE:
+      return numbers ? finite((left as number) / (right as number)) : undefined;
+    case TokenType.MODULO:
+      return numbers ? finite((left as number) % (right as number)) : undefined;
+    case TokenType.FLOOR_DIVIDE:
+      return numbers ? finite(Math.floor((left as number) / (right as number))) : undefined;
+    case TokenType.POWER:
+      return numbers ? finite((left as number) ** (right as number)) : undefined;
+    case TokenType.BIT_AND:
+      return numbers ? (left as number) & (right as number) : undefined;
+    case TokenType.BIT_OR:
+      return numbers ? (left as number) | (right as number) : undefined;
+    case TokenType.BIT_XOR:
+      return numbers ? (left as number) ^ (right as number) : undefined;
+    case TokenType.SHIFT_LEFT:
+      return numbers ? (left as number) << (right as number) : undefined;
+    case TokenType.SHIFT_RIGHT:
+      return numbers ? (left as number) >> (right as number) : undefined;
+    case TokenType.GREATER:
+      return numbers || strings ? (left as number) > (right as number) : undefined;
+    case TokenType.GREATER_EQUAL:
+      return numbers || strings ? (left as number) >= (right as number) : undefined;
+    case TokenType.LESS:
+      return numbers || strings ? (left as number) < (right as number) : undefined;
+    case TokenType.LESS_EQUAL:
+      return numbers || strings ? (left as number) <= (right as number) : undefined;
+    case TokenType.EQUAL_EQUAL:
+      return left === right;
+    case TokenType.BANG_EQUAL:
+      return left !== right;
+    default:
+      return undefined;
+  }
+}
+
+// Infinity and NaN have no literal, so 1 / 0 is left as written
+function finite(value: number): number | undefined {
+  return Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Simplifies the AST before code generation. Folds expressions whose
+ * operands are constants, replaces vars that are never reassigned with
+ * their constant value, and removes code that can't run: if/elif branches
+ * with a constant condition, loops whose condition is always false, and
+ * statements after a return, break or continue.
+ *
+ * Returns a new tree and leaves its input alone. Name tokens are shared
+ * with the input, so the resolver's resolutions still apply to it.
+ */
+export class Optimizer implements ExprVisitor<Expr>, StmtVisitor<Stmt[]> {
+  // Values of constant vars, by declaring token
+  private constants = new Map<Token, Constant>();
+
+  constructor(
+    // As built by Resolver
+    private resolutions: Map<Token, Token>,
+    private reassigned: WeakSet<Token>
+  ) {}
+
+  optimize(statements: Stmt[]): Stmt[] {
+    return this.block(statements);
+  }
+
+  /**
+   * Optimizes one top-level statement, for optimizing a script a statement
+   * at a time. Every var statement before it has to have been passed in
+   * first, so their constants are known.
+   */
+  optimizeStatement(stmt: Stmt): Stmt[] {
+    return stmt.accept(this);
+  }
+
+  // Value of a constant var optimized so far, by its declaring token
+  constantOf(declaration: Token): Constant | undefined {
+    return this.constants.get(declaration);
+  }
+
+  // Expression visitors
+  visitBinaryExpr(expr: Binary): Expr {
+    const left = this.expr(expr.left);
+    const right = this.expr(expr.right);
+
+    if (isConstant(left) && isConstant(right)) {
+      const value = foldBinary(expr.operator.type, left.value, right.value);
+      if (value !== undefined) return new Literal(value);
+    }
+    return new Binary(left, expr.operator, right);
+  }
+
+  visitUnaryExpr(expr: Unary): Expr {
+    const right = this.expr(expr.right);
+
+    if (isConstant(right)) {
+      if (expr.operator.type === TokenType.NOT) return new Literal(!right.value);
+      if (expr.operator.type === TokenType.MINUS && typeof right.value === 'number') return new Literal(-right.value);
+    }
+    return new Unary(expr.operator, right);
+  }
+
+  visitLiteralExpr(expr: Literal): Expr {
+    if (Array.isArray(expr.value)) {
+      return new Literal(expr.value.map((element: Expr) => this.expr(element)));
+    }
+
+    if (expr.value instanceof Map) {
+      const properties = new Map<string, Expr>();
+      expr.value.forEach((value: Expr, key: string) => properties.set(key, this.expr(value)));
+      return new Literal(properties);
+    }
+
+    return expr;
+  }
+
+  visitVariableExpr(expr: Variable): Expr {
+    const declaration = this.resolutions.get(expr.name);
+    if (declaration && this.constants.has(declaration)) {
+      return new Literal(this.constants.get(declaration));
+    }
+    return expr;
+  }
+
+  visitCallExpr(expr: Call): Expr {
+    return new Call(this.expr(expr.callee), expr.paren, expr.args.map(arg => this.expr(arg)));
+  }
+
+  visitGetExpr(expr: Get): Expr {
+    return new Get(this.expr(expr.object), expr.name);
+  }
+
+  visitAssignExpr(expr: Assign): Expr {
+    return new Assign(expr.name, this.expr(expr.value));
+  }
+
+  visitSetExpr(expr: Set): Expr {
+    return new Set(this.expr(expr.object), expr.name, this.expr(expr.value));
+  }
+
+  visitLogicalExpr(expr: Logical): Expr {
+    const left = this.expr(expr.left);
+    const right = this.expr(expr.right);
+
+    // and/or evaluate to one of their operands, picked by the left one
+    if (isConstant(left)) {
+      const pickLeft = expr.operator.type === TokenType.AND ? !left.value : !!left.value;
+      return pickLeft ? left : right;
+    }
+    return new Logical(left, expr.operator, right);
+  }
+
+  visitIndexExpr(expr: Index): Expr {
+    return new Index(this.expr(expr.object), expr.bracket, this.expr(expr.index));
+  }
+
+  visitIndexSetExpr(expr: IndexSet): Expr {
+    return new IndexSet(this.expr(expr.object), expr.bracket, this.expr(expr.index), this.expr(expr.value));
+  }
+
+  visitTemplateExpr(expr: Template): Expr {
+    // Constant parts are written into the text around them
+    const strings = [expr.strings[0]];
+    const expressions: Expr[] = [];
+    expr.expressions.forEach((part, i) => {
+      const optimized = this.expr(part);
+      if (isConstant(optimized)) {
+        strings[strings.length - 1] += String(optimized.value) + expr.strings[i + 1];
+      } else {
+        expressions.push(optimized);
+        strings.push(expr.strings[i + 1]);
+      }
+    });
+
+    return expressions.length === 0 ? new Literal(strings[0]) : new Template(expr.start, strings, expressions);
+  }
+
+  visitLambdaExpr(expr: Lambda): Expr {
+    return new Lambda(expr.start, expr.params, this.block(expr.body), expr.paramTypes, expr.returnType);
+  }
+
+  visitNewExpr(expr: New): Expr {
+    return new New(expr.keyword, this.expr(expr.callee), expr.paren, expr.args.map(arg => this.expr(arg)));
+  }
+
+  visitSelfExpr(expr: Self): Expr {
+    return expr;
+  }
+
+  visitSuperExpr(expr: Super): Expr {
+    return expr;
+  }
+
+  // Statement visitors
+  visitVarStmt(stmt: Var): Stmt[] {
+    const initializer = this.expr(stmt.initializer);
+    if (!(stmt as any).isGlobal && !this.reassigned.has(stmt.name) && isConstant(initializer)) {
+      this.constants.set(stmt.name, initializer.value);
+    }
+    return [this.copyFlags(new Var(stmt.name, initializer, stmt.type), stmt)];
+  }
+
+  visitExpressionStmt(stmt: Expression): Stmt[] {
+    return [new Expression(this.expr(stmt.expression))];
+  }
+
+  visitPrintStmt(stmt: Print): Stmt[] {
+    return [new Print(stmt.keyword, this.expr(stmt.expression))];
+  }
+
+  visitFunctionStmt(stmt: Function): Stmt[] {
+    const body = this.block(stmt.body);
+    return [this.copyFlags(new Function(stmt.name, stmt.params, body, stmt.paramTypes, stmt.returnType), stmt)];
+  }
+
+  visitReturnStmt(stmt: Return): Stmt[] {
+    return [new Return(stmt.keyword, stmt.value ? this.expr(stmt.value) : null)];
+  }
+
+  visitIfStmt(stmt: If): Stmt[] {
+    const branches: { condition: Expr; body: Stmt[] }[] = [];
+    let elseBranch = stmt.elseBranch;
+
+    for (const branch of [{ condition: stmt.condition, body: stmt.thenBranch }, ...stmt.elseifBranches]) {
+      const condition = this.expr(branch.condition);
+      if (isConstant(condition)) {
+        if (!condition.value) continue;
+        // Always taken, so it's the else for whatever came before it
+        elseBranch = branch.body;
+        break;
+      }
+      branches.push({ condition, body: this.block(branch.body) });
+    }
+
+    const optimizedElse = elseBranch ? this.block(elseBranch) : null;
+    if (branches.length === 0) {
+      return optimizedElse ? this.unwrap(optimizedElse) : [];
+    }
+
+    const [first, ...rest] = branches;
+    return [new If(first.condition, first.body, rest, optimizedElse)];
+  }
+
+  visitWhileStmt(stmt: While): Stmt[] {
+    const condition = this.expr(stmt.condition);
+    if (isConstant(condition) && !condition.value) return [];
+    return [new While(condition, this.block(stmt.body))];
+  }
+
+  visitForStmt(stmt: For): Stmt[] {
+    const initializer = stmt.initializer ? stmt.initializer.accept(this)[0] : null;
+    const condition = stmt.condition ? this.expr(stmt.condition) : null;
+    const increment = stmt.increment ? this.expr(stmt.increment) : null;
+    return [new For(initializer, condition, increment, this.block(stmt.body))];
+  }
+
+  visitForInStmt(stmt: ForIn): Stmt[] {
+    return [new ForIn(stmt.indexVar, stmt.itemVar, this.expr(stmt.iterable), this.block(stmt.body))];
+  }
+
+  visitBreakStmt(stmt: Break): Stmt[] {
+    return [stmt];
+  }
+
+  visitContinueStmt(stmt: Continue): Stmt[] {
+    return [stmt];
+  }
+
+  visitImportStmt(stmt: Import): Stmt[] {
+    return [stmt];
+  }
+
+  visitExportStmt(stmt: Export): Stmt[] {
+    return [new Export(stmt.keyword, stmt.declaration.accept(this)[0] as Var | Function | Class)];
+  }
+
+  visitClassStmt(stmt: Class): Stmt[] {
+    const fields = stmt.fields.map(field => new Var(field.name, this.expr(field.initializer), field.type));
+    const methods = stmt.methods.map(method =>
+      new Function(method.name, method.params, this.block(method.body), method.paramTypes, method.returnType));
+    return [new Class(stmt.name, stmt.superclass, fields, methods)];
+  }
+
+  visitOnStmt(stmt: On): Stmt[] {
+    return [new On(stmt.keyword, stmt.event, stmt.args.map(arg => this.expr(arg)), this.block(stmt.body))];
+  }
+
+  private expr(expr: Expr): Expr {
+    return expr.accept(this);
+  }
+
+  private block(statements: Stmt[]): Stmt[] {
+    const result: Stmt[] = [];
+    let reachable = true;
+
+    for (const stmt of statements) {
+      // Functions are hoisted, so they can still be called from above
+      if (reachable || stmt instanceof Function) {
+        result.push(...stmt.accept(this));
+      }
+      if (stmt instanceof Return || stmt instanceof Break || stmt instanceof Continue) {
+        reachable = false;
+      }
+    }
+
+    return result;
+  }
+
+  // Splices an always-taken branch into the enclosing block. Declarations
+  // would leak out of their scope, so a branch with any keeps an if (true).
+  private unwrap(body: Stmt[]): Stmt[] {
+    if (body.some(stmt => stmt instanceof Var || stmt instanceof Function)) {
+      return [new If(new Literal(true), body, [], null)];
+    }
+    return body;
+  }
+
+  private copyFlags<T extends Stmt>(node: T, original: Stmt): T {
+    (node as any).isGlobal = (original as any).isGlobal;
+    return node;
+  }
+}
@@ -0,0 +1,88 @@
+import { transpile } from './transpiler';
+
+console.log('=== Testing Optimizer ===\n');
+
+function show(code: string) {
+  console.log('Input:');
+  console.log(code);
+  console.log('Output:');
+  console.log(transpile(code));
+  console.log('---\n');
+}
+
+// Test 1: Constant folding
+console.log('Test 1: Folding');
+show(`
+var area = 4 * (2 + 3)
+var half = -area / 2
+var big = area > 10 and area <= 20
+var title = "Level " + 3
+var mood = not false or sprite.happy
+print(sprite.x + 2 * 8)
+`);
+
+// Test 2: Vars that are never reassigned are propagated
+console.log('Test 2: Constant propagation');
+show(`
+var SPEED = 5
+var GRAVITY = SPEED * 2
+var lives = 3
+lives -= 1
+func fall()
+  sprite.y -= GRAVITY
+end
+print(lives)
+`);
+
+// Test 3: Constant if and elif branches
+console.log('Test 3: Dead branches');
+show(`
+var DEBUG = false
+var LEVEL = 2
+if (DEBUG)
+  print("debug")
+elif (LEVEL == 1)
+  print("one")
+elif (sprite.x > 0)
+  print("right")
+elif (LEVEL == 2)
+  print("two")
+else
+  print("other")
+end
+if (LEVEL > 1)
+  var boss = "dragon"
+  print(boss)
+end
+while (DEBUG)
+  print("never")
+end
+`);
+
+// Test 4: Code after return, break and continue
+console.log('Test 4: Unreachable code');
+show(`
+func check(hp)
+  return hp > 0
+  print("unreachable")
+  helper()
+  func helper()
+    print("hoisted")
+  end
+end
+while (true)
+  break
+  print("never")
+end
+`);
+
+// Test 5: Debug builds skip the optimizer
+console.log('Test 5: optimize: false');
+const debug = `
+var SPEED = 5
+if (SPEED > 3)
+  print(SPEED * 2)
+end
+`;
+console.log(transpile(debug, { optimize: false }));
+console.log('---\n');
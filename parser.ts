@@ -1,12 +1,56 @@
 import { Token, TokenType } from './tokens';
+import { Diagnostic, DiagnosticCode, createDiagnostic, tokenSpan } from './diagnostics';
 import { 
-  Expr, Stmt, Binary, Unary, Literal, Variable, Call, Get, Assign, Set, Logical,
-  Var, Expression, Print, Function, Return, If, While, For, ForIn
+  Expr, Stmt, Binary, Unary, Literal, Variable, Call, Get, Assign, Set, Logical, Index, IndexSet, Template, Lambda, New, Self, Super,
+  Var, Expression, Print, Function, Return, If, While, For, ForIn, Break, Continue, Import, Export, Class, On,
+  TypeAnnotation, NamedType, ListType, ObjectType
 } from './ast';
 
+// Type names annotations can use besides list<T> and object shapes
+const NAMED_TYPES = ['number', 'string', 'bool', 'any'];
+
+// The operator each compound assignment applies, e.g. x *= 2 is x = x * 2
+const COMPOUND_ASSIGNMENTS = new Map<TokenType, TokenType>([
+  [TokenType.PLUS_EQUAL, TokenType.PLUS],
+  [TokenType.MINUS_EQUAL, TokenType.MINUS],
+  [TokenType.MULTIPLY_EQUAL, TokenType.MULTIPLY],
+  [TokenType.DIVIDE_EQUAL, TokenType.DIVIDE],
+  [TokenType.MODULO_EQUAL, TokenType.MODULO]
+]);
+
+export class ParseError extends Error {
+  constructor(public diagnostic: Diagnostic) {
+    super(diagnostic.message);
+    this.name = 'ParseError';
+  }
+}
+
+/**
+ * Where statements and blocks are in the source, for tools that print the
+ * tree back out like the formatter
+ */
+export interface SourceRanges {
+  // The first and last token of each statement, and of class members
+  statements: Map<Stmt, { start: Token; end: Token }>;
+  // The token after each block: 'end', 'elif', 'else' or the end of file
+  blockEnds: Map<Stmt[], Token>;
+  // The STRING and INTERPOLATION tokens each string and template is written with
+  strings: Map<Expr, Token[]>;
+}
+
 export class Parser {
   private tokens: Token[];
   private current = 0;
+  // Number of loops enclosing the code being parsed, for break and continue
+  private loopDepth = 0;
+  readonly errors: Diagnostic[] = [];
+  readonly ranges: SourceRanges = { statements: new Map(), blockEnds: new Map(), strings: new Map() };
+  // Tokens made up while parsing that aren't in the token list, like the
+  // '+' of 'x += 1', so incremental parsing can move them with the source
+  readonly syntheticTokens: Token[] = [];
+  // Index of the furthest token looked at, which is as far as the
+  // statement being parsed depends on
+  private furthest = 0;
 
   constructor(tokens: Token[]) {
     this.tokens = tokens;
@@ -18,10 +62,30 @@ export class Parser {
       const stmt = this.declaration();
       if (stmt) statements.push(stmt);
     }
+    this.ranges.blockEnds.set(statements, this.peek());
     return statements;
   }
 
+  /**
+   * Parses the one top-level statement starting at the token at index, to
+   * re-parse part of a script after an edit. Returns the statement (null if
+   * it had errors), the index of the token after it and of the furthest
+   * token it looked at.
+   */
+  parseAt(index: number): { stmt: Stmt | null; next: number; furthest: number } {
+    this.current = index;
+    this.furthest = index;
+    const stmt = this.declaration();
+    return { stmt, next: this.current, furthest: this.furthest };
+  }
+
   private declaration(): Stmt | null {
+    const start = this.peek();
+    const stmt = this.declarationOrNull();
+    return stmt && this.record(stmt, start);
+  }
+
+  private declarationOrNull(): Stmt | null {
     try {
       // Check if this is a global declaration (global func or global var)
       if (this.check(TokenType.GLOBAL)) {
@@ -42,68 +106,224 @@ export class Parser {
         this.current = checkpoint;
       }
       
-      if (this.match(TokenType.FUNC)) return this.functionDeclaration(false);
+      // 'func (' starts a lambda, which is an expression
+      const lambda = this.check(TokenType.FUNC) && this.peekNext().type === TokenType.LEFT_PAREN;
+      if (!lambda && this.match(TokenType.FUNC)) return this.functionDeclaration(false);
       if (this.match(TokenType.VAR)) return this.varDeclaration(false);
+      if (this.match(TokenType.CLASS)) return this.classDeclaration();
+      if (this.match(TokenType.ON)) return this.onDeclaration();
+      if (this.match(TokenType.IMPORT)) return this.importDeclaration();
+      if (this.match(TokenType.EXPORT)) return this.exportDeclaration();
       return this.statement();
     } catch (error) {
+      if (!(error instanceof ParseError)) throw error;
+      // Record the error and skip ahead to the next statement so the rest
+      // of the script still gets checked
+      this.errors.push(error.diagnostic);
       this.synchronize();
-      throw error;
+      return null;
     }
   }
 
-  private functionDeclaration(isGlobal: boolean = false): Stmt {
+  private functionDeclaration(isGlobal: boolean = false): Function {
     const name = this.consume(TokenType.IDENTIFIER, "Expect function name.");
     this.consume(TokenType.LEFT_PAREN, "Expect '(' after function name.");
+    const { params, paramTypes } = this.parameters();
+    const returnType = this.match(TokenType.COLON) ? this.typeAnnotation(true) : null;
+    const body = this.functionBody();
     
-    const parameters: Token[] = [];
+    const func = new Function(name, params, body, paramTypes, returnType);
+    // Mark as global by storing it in a property (we'll add this to the AST)
+    (func as any).isGlobal = isGlobal;
+    return func;
+  }
+
+  // Parameter names and annotations after the '(', up to and including the ')'
+  private parameters(): { params: Token[]; paramTypes: (TypeAnnotation | null)[] } {
+    const params: Token[] = [];
+    const paramTypes: (TypeAnnotation | null)[] = [];
     if (!this.check(TokenType.RIGHT_PAREN)) {
       do {
-        parameters.push(this.consume(TokenType.IDENTIFIER, "Expect parameter name."));
+        params.push(this.consume(TokenType.IDENTIFIER, "Expect parameter name."));
+        paramTypes.push(this.match(TokenType.COLON) ? this.typeAnnotation() : null);
       } while (this.match(TokenType.COMMA));
     }
     this.consume(TokenType.RIGHT_PAREN, "Expect ')' after parameters.");
-    
-    // Parse function body until 'end'
+    return { params, paramTypes };
+  }
+
+  private functionBody(): Stmt[] {
+    // Parse function body until 'end'. Loops around the function don't
+    // count inside it, so 'break' can't jump out of the function.
     const body: Stmt[] = [];
-    while (!this.check(TokenType.END) && !this.isAtEnd()) {
-      const stmt = this.declaration();
-      if (stmt) body.push(stmt);
+    const enclosingLoopDepth = this.loopDepth;
+    this.loopDepth = 0;
+    try {
+      while (!this.check(TokenType.END) && !this.isAtEnd()) {
+        const stmt = this.declaration();
+        if (stmt) body.push(stmt);
+      }
+    } finally {
+      this.loopDepth = enclosingLoopDepth;
     }
+    this.ranges.blockEnds.set(body, this.peek());
     this.consume(TokenType.END, "Expect 'end' after function body.");
-    
-    const func = new Function(name, parameters, body);
-    // Mark as global by storing it in a property (we'll add this to the AST)
-    (func as any).isGlobal = isGlobal;
-    return func;
+    return body;
   }
 
-  private varDeclaration(isGlobal: boolean = false): Stmt {
+  private classDeclaration(): Class {
+    const name = this.consume(TokenType.IDENTIFIER, "Expect class name.");
+    const superclass = this.match(TokenType.LESS)
+      ? new Variable(this.consume(TokenType.IDENTIFIER, "Expect superclass name after '<'."))
+      : null;
+
+    const fields: Var[] = [];
+    const methods: Function[] = [];
+    while (!this.check(TokenType.END) && !this.isAtEnd()) {
+      const start = this.peek();
+      try {
+        if (this.match(TokenType.VAR)) {
+          fields.push(this.record(this.varDeclaration(), start));
+        } else if (this.match(TokenType.FUNC)) {
+          methods.push(this.record(this.functionDeclaration(), start));
+        } else {
+          throw this.error(this.peek(), `Expect 'var' or 'func' in class body. Got ${this.describe(this.peek())}`, DiagnosticCode.ExpectedToken);
+        }
+      } catch (error) {
+        // Skip to the next member, so the class's 'end' still closes it
+        if (!(error instanceof ParseError)) throw error;
+        this.errors.push(error.diagnostic);
+        this.synchronize();
+      }
+    }
+    this.consume(TokenType.END, "Expect 'end' after class body.");
+    return new Class(name, superclass, fields, methods);
+  }
+
+  // on start ... end, or on key_pressed("Space") ... end
+  private onDeclaration(): On {
+    const keyword = this.previous();
+    const event = this.consume(TokenType.IDENTIFIER, "Expect event name after 'on'.");
+    let args: Expr[] = [];
+    if (this.match(TokenType.LEFT_PAREN)) {
+      args = this.arguments();
+      this.consume(TokenType.RIGHT_PAREN, "Expect ')' after event arguments.");
+    }
+    return new On(keyword, event, args, this.functionBody());
+  }
+
+  private varDeclaration(isGlobal: boolean = false): Var {
     const name = this.consume(TokenType.IDENTIFIER, "Expect variable name.");
+    const type = this.match(TokenType.COLON) ? this.typeAnnotation() : null;
     
     const initializer = this.match(TokenType.EQUAL) 
       ? this.expression() 
       : new Literal(null);
 
-    const varStmt = new Var(name, initializer);
+    const varStmt = new Var(name, initializer, type);
     // Mark as global
     (varStmt as any).isGlobal = isGlobal;
     return varStmt;
   }
 
+  // import { name, ... } from "path"
+  private importDeclaration(): Stmt {
+    const keyword = this.previous();
+    this.consume(TokenType.LEFT_BRACE, "Expect '{' after 'import'.");
+
+    const names: Token[] = [];
+    if (!this.check(TokenType.RIGHT_BRACE)) {
+      do {
+        names.push(this.consume(TokenType.IDENTIFIER, "Expect name to import."));
+      } while (this.match(TokenType.COMMA));
+    }
+    this.consume(TokenType.RIGHT_BRACE, "Expect '}' after imported names.");
+
+    // 'from' isn't reserved, so scripts can still use it as a name
+    if (!this.check(TokenType.IDENTIFIER) || this.peek().lexeme !== 'from') {
+      throw this.error(this.peek(), `Expect 'from' after imported names. Got ${this.describe(this.peek())}`, DiagnosticCode.ExpectedToken);
+    }
+    this.advance();
+
+    const path = this.consume(TokenType.STRING, "Expect module path after 'from'.");
+    return new Import(keyword, names, path);
+  }
+
+  private exportDeclaration(): Stmt {
+    const keyword = this.previous();
+    const start = this.peek();
+    if (this.match(TokenType.FUNC)) {
+      return new Export(keyword, this.record(this.functionDeclaration(false), start));
+    }
+    if (this.match(TokenType.VAR)) {
+      return new Export(keyword, this.record(this.varDeclaration(false), start));
+    }
+    if (this.match(TokenType.CLASS)) {
+      return new Export(keyword, this.record(this.classDeclaration(), start));
+    }
+    throw this.error(this.peek(), `Expect 'func', 'var' or 'class' after 'export'. Got ${this.describe(this.peek())}`, DiagnosticCode.ExpectedToken);
+  }
+
+  // number | string | bool | any | list<T> | {name: T, ...}, and void for return types
+  private typeAnnotation(isReturnType: boolean = false): TypeAnnotation {
+    if (this.match(TokenType.LEFT_BRACE)) {
+      const brace = this.previous();
+      const fields: { name: Token; type: TypeAnnotation }[] = [];
+      if (!this.check(TokenType.RIGHT_BRACE)) {
+        do {
+          const fieldName = this.consume(TokenType.IDENTIFIER, "Expect field name.");
+          this.consume(TokenType.COLON, "Expect ':' after field name.");
+          fields.push({ name: fieldName, type: this.typeAnnotation() });
+        } while (this.match(TokenType.COMMA));
+      }
+      this.consume(TokenType.RIGHT_BRACE, "Expect '}' after object type fields.");
+      return new ObjectType(brace, fields);
+    }
+
+    const name = this.consume(TokenType.IDENTIFIER, "Expect type.");
+    if (name.lexeme === 'list') {
+      this.consume(TokenType.LESS, "Expect '<' after 'list'.");
+      const element = this.typeAnnotation();
+      // The lexer reads the end of list<list<number>> as a '>>' shift
+      if (this.check(TokenType.SHIFT_RIGHT)) this.splitShift();
+      this.consume(TokenType.GREATER, "Expect '>' after list element type.");
+      return new ListType(name, element);
+    }
+
+    const known = NAMED_TYPES.includes(name.lexeme) || (isReturnType && name.lexeme === 'void');
+    if (!known) {
+      const message = name.lexeme === 'void'
+        ? "'void' can only be used as a return type."
+        : `Unknown type '${name.lexeme}'.`;
+      this.errors.push(this.error(name, message, DiagnosticCode.UnknownType).diagnostic);
+    }
+    return new NamedType(name);
+  }
+
   private statement(): Stmt {
     if (this.match(TokenType.PRINT)) return this.printStatement();
     if (this.match(TokenType.RETURN)) return this.returnStatement();
     if (this.match(TokenType.IF)) return this.ifStatement();
     if (this.match(TokenType.WHILE)) return this.whileStatement();
     if (this.match(TokenType.FOR)) return this.forStatement();
+    if (this.match(TokenType.BREAK)) return this.loopControlStatement(new Break(this.previous()));
+    if (this.match(TokenType.CONTINUE)) return this.loopControlStatement(new Continue(this.previous()));
     return this.expressionStatement();
   }
 
+  private loopControlStatement(stmt: Break | Continue): Stmt {
+    if (this.loopDepth === 0) {
+      this.errors.push(this.error(stmt.keyword, `Can't use '${stmt.keyword.lexeme}' outside of a loop.`, DiagnosticCode.LoopControlOutsideLoop).diagnostic);
+    }
+    return stmt;
+  }
+
   private printStatement(): Stmt {
+    const keyword = this.previous();
     this.consume(TokenType.LEFT_PAREN, "Expect '(' after 'print'.");
     const value = this.expression();
     this.consume(TokenType.RIGHT_PAREN, "Expect ')' after value.");
-    return new Print(value);
+    return new Print(keyword, value);
   }
 
   private returnStatement(): Stmt {
@@ -126,6 +346,7 @@ export class Parser {
       const stmt = this.declaration();
       if (stmt) thenBranch.push(stmt);
     }
+    this.ranges.blockEnds.set(thenBranch, this.peek());
 
     // Parse elif branches
     const elseifBranches: { condition: Expr; body: Stmt[] }[] = [];
@@ -139,6 +360,7 @@ export class Parser {
         const stmt = this.declaration();
         if (stmt) elseifBody.push(stmt);
       }
+      this.ranges.blockEnds.set(elseifBody, this.peek());
       elseifBranches.push({ condition: elseifCondition, body: elseifBody });
     }
 
@@ -150,6 +372,7 @@ export class Parser {
         const stmt = this.declaration();
         if (stmt) elseBranch.push(stmt);
       }
+      this.ranges.blockEnds.set(elseBranch, this.peek());
     }
 
     this.consume(TokenType.END, "Expect 'end' after if statement.");
@@ -161,14 +384,26 @@ export class Parser {
     const condition = this.expression();
     this.consume(TokenType.RIGHT_PAREN, "Expect ')' after while condition.");
 
+    const body = this.loopBody("Expect 'end' after while body.");
+    return new While(condition, body);
+  }
+
+  // Parses a loop body up to and including its 'end'
+  private loopBody(endMessage: string): Stmt[] {
     const body: Stmt[] = [];
-    while (!this.check(TokenType.END) && !this.isAtEnd()) {
-      const stmt = this.declaration();
-      if (stmt) body.push(stmt);
+    this.loopDepth++;
+    try {
+      while (!this.check(TokenType.END) && !this.isAtEnd()) {
+        const stmt = this.declaration();
+        if (stmt) body.push(stmt);
+      }
+    } finally {
+      this.loopDepth--;
     }
 
-    this.consume(TokenType.END, "Expect 'end' after while body.");
-    return new While(condition, body);
+    this.ranges.blockEnds.set(body, this.peek());
+    this.consume(TokenType.END, endMessage);
+    return body;
   }
 
   private forStatement(): Stmt {
@@ -188,13 +423,7 @@ export class Parser {
       const iterable = this.expression();
       this.consume(TokenType.RIGHT_PAREN, "Expect ')' after for-in.");
       
-      const body: Stmt[] = [];
-      while (!this.check(TokenType.END) && !this.isAtEnd()) {
-        const stmt = this.declaration();
-        if (stmt) body.push(stmt);
-      }
-      
-      this.consume(TokenType.END, "Expect 'end' after for body.");
+      const body = this.loopBody("Expect 'end' after for body.");
       return new ForIn(firstToken, itemVar, iterable, body);
     } else if (this.check(TokenType.IN)) {
       // for (item in items) - no index
@@ -202,15 +431,9 @@ export class Parser {
       const iterable = this.expression();
       this.consume(TokenType.RIGHT_PAREN, "Expect ')' after for-in.");
       
-      const body: Stmt[] = [];
-      while (!this.check(TokenType.END) && !this.isAtEnd()) {
-        const stmt = this.declaration();
-        if (stmt) body.push(stmt);
-      }
-      
-      this.consume(TokenType.END, "Expect 'end' after for body.");
+      const body = this.loopBody("Expect 'end' after for body.");
       // Use dummy token for index since we don't need it
-      const dummyIndex = { type: TokenType.IDENTIFIER, lexeme: '_', literal: null, line: 0 } as Token;
+      const dummyIndex = this.syntheticToken(TokenType.IDENTIFIER, '_', firstToken);
       return new ForIn(dummyIndex, firstToken, iterable, body);
     }
     
@@ -242,14 +465,7 @@ export class Parser {
     }
     this.consume(TokenType.RIGHT_PAREN, "Expect ')' after for clauses.");
 
-    // Parse body
-    const body: Stmt[] = [];
-    while (!this.check(TokenType.END) && !this.isAtEnd()) {
-      const stmt = this.declaration();
-      if (stmt) body.push(stmt);
-    }
-
-    this.consume(TokenType.END, "Expect 'end' after for body.");
+    const body = this.loopBody("Expect 'end' after for body.");
     return new For(initializer, condition, increment, body);
   }
 
@@ -257,7 +473,7 @@ export class Parser {
     // Check if this is a global assignment: global name = value
     if (this.check(TokenType.GLOBAL)) {
       const checkpoint = this.current;
-      this.advance(); // consume 'global'
+      const keyword = this.advance(); // consume 'global'
       
       if (this.check(TokenType.IDENTIFIER)) {
         const name = this.advance();
@@ -265,24 +481,16 @@ export class Parser {
         if (this.match(TokenType.EQUAL)) {
           // It's a global assignment: global name = value
           const value = this.expression();
-          const globalsVar = new Variable({ type: TokenType.IDENTIFIER, lexeme: 'globals', literal: null, line: name.line });
+          const globalsVar = new Variable(this.syntheticToken(TokenType.IDENTIFIER, 'globals', keyword));
           const setExpr = new Set(globalsVar, name, value);
           return new Expression(setExpr);
-        } else if (this.match(TokenType.PLUS_EQUAL)) {
-          // global name += value
-          const value = this.expression();
-          const globalsVar = new Variable({ type: TokenType.IDENTIFIER, lexeme: 'globals', literal: null, line: name.line });
-          const getExpr = new Get(globalsVar, name);
-          const addExpr = new Binary(getExpr, { type: TokenType.PLUS, lexeme: '+', literal: null, line: name.line }, value);
-          const setExpr = new Set(globalsVar, name, addExpr);
-          return new Expression(setExpr);
-        } else if (this.match(TokenType.MINUS_EQUAL)) {
-          // global name -= value
+        } else if (this.match(...COMPOUND_ASSIGNMENTS.keys())) {
+          // global name += value, and the other compound assignments
+          const operator = this.compoundOperator(this.previous());
           const value = this.expression();
-          const globalsVar = new Variable({ type: TokenType.IDENTIFIER, lexeme: 'globals', literal: null, line: name.line });
+          const globalsVar = new Variable(this.syntheticToken(TokenType.IDENTIFIER, 'globals', keyword));
           const getExpr = new Get(globalsVar, name);
-          const subExpr = new Binary(getExpr, { type: TokenType.MINUS, lexeme: '-', literal: null, line: name.line }, value);
-          const setExpr = new Set(globalsVar, name, subExpr);
+          const setExpr = new Set(globalsVar, name, new Binary(getExpr, operator, value));
           return new Expression(setExpr);
         }
       }
@@ -302,41 +510,54 @@ export class Parser {
   private assignment(): Expr {
     const expr = this.logicalOr();
 
-    if (this.match(TokenType.EQUAL)) {
-      const value = this.assignment();
+    if (this.match(TokenType.EQUAL, ...COMPOUND_ASSIGNMENTS.keys())) {
+      const equals = this.previous();
+      let value = this.assignment();
 
-      if (expr instanceof Variable) {
-        return new Assign(expr.name, value);
-      } else if (expr instanceof Get) {
-        return new Set(expr.object, expr.name, value);
+      // x += v is sugar for x = x + v
+      if (equals.type !== TokenType.EQUAL) {
+        value = new Binary(expr, this.compoundOperator(equals), value);
       }
 
-      throw new Error('Invalid assignment target.');
-    } else if (this.match(TokenType.PLUS_EQUAL)) {
-      const value = this.assignment();
-      
-      if (expr instanceof Variable) {
-        return new Assign(expr.name, new Binary(expr, { type: TokenType.PLUS, lexeme: '+', literal: null, line: 0 }, value));
-      } else if (expr instanceof Get) {
-        return new Set(expr.object, expr.name, new Binary(expr, { type: TokenType.PLUS, lexeme: '+', literal: null, line: 0 }, value));
-      }
+      const assignment = this.assignTo(expr, value);
+      if (assignment) return assignment;
 
-      throw new Error('Invalid assignment target.');
-    } else if (this.match(TokenType.MINUS_EQUAL)) {
-      const value = this.assignment();
-      
-      if (expr instanceof Variable) {
-        return new Assign(expr.name, new Binary(expr, { type: TokenType.MINUS, lexeme: '-', literal: null, line: 0 }, value));
-      } else if (expr instanceof Get) {
-        return new Set(expr.object, expr.name, new Binary(expr, { type: TokenType.MINUS, lexeme: '-', literal: null, line: 0 }, value));
-      }
-
-      throw new Error('Invalid assignment target.');
+      // The parser isn't confused here, so report without unwinding
+      this.errors.push(this.error(equals, 'Invalid assignment target.', DiagnosticCode.InvalidAssignmentTarget).diagnostic);
     }
 
     return expr;
   }
 
+  // Builds the assignment of value to target, or null if target can't be assigned to
+  private assignTo(target: Expr, value: Expr): Expr | null {
+    if (target instanceof Variable) {
+      return new Assign(target.name, value);
+    } else if (target instanceof Get) {
+      return new Set(target.object, target.name, value);
+    } else if (target instanceof Index) {
+      return new IndexSet(target.object, target.bracket, target.index, value);
+    }
+    return null;
+  }
+
+  // The '+' of a '+=', placed at the '+='
+  private compoundOperator(equals: Token): Token {
+    return this.syntheticToken(COMPOUND_ASSIGNMENTS.get(equals.type)!, equals.lexeme.slice(0, -1), equals);
+  }
+
+  // Builds target = target + 1 (or - 1) for ++ and --
+  private increment(target: Expr, operator: Token): Expr {
+    const step = operator.type === TokenType.PLUS_PLUS
+      ? this.syntheticToken(TokenType.PLUS, '+', operator)
+      : this.syntheticToken(TokenType.MINUS, '-', operator);
+    const assignment = this.assignTo(target, new Binary(target, step, new Literal(1)));
+    if (assignment) return assignment;
+
+    const message = operator.type === TokenType.PLUS_PLUS ? 'Invalid increment target.' : 'Invalid decrement target.';
+    throw this.error(operator, message, DiagnosticCode.InvalidIncrementTarget);
+  }
+
   private logicalOr(): Expr {
     let expr = this.logicalAnd();
 
@@ -372,17 +593,35 @@ export class Parser {
   }
 
   private comparison(): Expr {
-    let expr = this.addition();
+    let expr = this.bitwiseOr();
 
     while (this.match(TokenType.GREATER, TokenType.GREATER_EQUAL, TokenType.LESS, TokenType.LESS_EQUAL, TokenType.EQUAL_EQUAL, TokenType.BANG_EQUAL)) {
       const operator = this.previous();
-      const right = this.addition();
+      const right = this.bitwiseOr();
       expr = new Binary(expr, operator, right);
     }
 
     return expr;
   }
 
+  // Bitwise operators bind tighter than comparisons, so flags & MASK == 0
+  // means (flags & MASK) == 0
+  private bitwiseOr(): Expr {
+    return this.binaryLevel(() => this.bitwiseXor(), TokenType.BIT_OR);
+  }
+
+  private bitwiseXor(): Expr {
+    return this.binaryLevel(() => this.bitwiseAnd(), TokenType.BIT_XOR);
+  }
+
+  private bitwiseAnd(): Expr {
+    return this.binaryLevel(() => this.shift(), TokenType.BIT_AND);
+  }
+
+  private shift(): Expr {
+    return this.binaryLevel(() => this.addition(), TokenType.SHIFT_LEFT, TokenType.SHIFT_RIGHT);
+  }
+
   private addition(): Expr {
     let expr = this.multiplication();
 
@@ -398,7 +637,7 @@ export class Parser {
   private multiplication(): Expr {
     let expr = this.unary();
 
-    while (this.match(TokenType.DIVIDE, TokenType.MULTIPLY)) {
+    while (this.match(TokenType.DIVIDE, TokenType.MULTIPLY, TokenType.MODULO, TokenType.FLOOR_DIVIDE)) {
       const operator = this.previous();
       const right = this.unary();
       expr = new Binary(expr, operator, right);
@@ -407,6 +646,19 @@ export class Parser {
     return expr;
   }
 
+  // Parses a left-associative chain of operand (operator operand)*
+  private binaryLevel(operand: () => Expr, ...operators: TokenType[]): Expr {
+    let expr = operand();
+
+    while (this.match(...operators)) {
+      const operator = this.previous();
+      const right = operand();
+      expr = new Binary(expr, operator, right);
+    }
+
+    return expr;
+  }
+
   private unary(): Expr {
     if (this.match(TokenType.MINUS)) {
       const operator = this.previous();
@@ -414,40 +666,34 @@ export class Parser {
       return new Unary(operator, right);
     }
 
-    if (this.match(TokenType.PLUS_PLUS)) {
+    if (this.match(TokenType.PLUS_PLUS, TokenType.MINUS_MINUS)) {
+      const operator = this.previous();
       const right = this.unary();
-      if (right instanceof Variable) {
-        return new Assign(right.name, new Binary(right, { type: TokenType.PLUS, lexeme: '+', literal: null, line: 0 }, new Literal(1)));
-      }
-      throw new Error('Invalid increment target.');
+      return this.increment(right, operator);
     }
 
-    if (this.match(TokenType.MINUS_MINUS)) {
+    return this.power();
+  }
+
+  // ** is right-associative and binds tighter than a minus on its left,
+  // so -2 ** 2 is -(2 ** 2) and 2 ** 3 ** 2 is 2 ** (3 ** 2)
+  private power(): Expr {
+    const expr = this.postfix();
+
+    if (this.match(TokenType.POWER)) {
+      const operator = this.previous();
       const right = this.unary();
-      if (right instanceof Variable) {
-        return new Assign(right.name, new Binary(right, { type: TokenType.MINUS, lexeme: '-', literal: null, line: 0 }, new Literal(1)));
-      }
-      throw new Error('Invalid decrement target.');
+      return new Binary(expr, operator, right);
     }
 
-    return this.postfix();
+    return expr;
   }
 
   private postfix(): Expr {
-    let expr = this.call();
+    const expr = this.call();
 
-    if (this.match(TokenType.PLUS_PLUS)) {
-      if (expr instanceof Variable) {
-        return new Assign(expr.name, new Binary(expr, { type: TokenType.PLUS, lexeme: '+', literal: null, line: 0 }, new Literal(1)));
-      }
-      throw new Error('Invalid increment target.');
-    }
-
-    if (this.match(TokenType.MINUS_MINUS)) {
-      if (expr instanceof Variable) {
-        return new Assign(expr.name, new Binary(expr, { type: TokenType.MINUS, lexeme: '-', literal: null, line: 0 }, new Literal(1)));
-      }
-      throw new Error('Invalid decrement target.');
+    if (this.match(TokenType.PLUS_PLUS, TokenType.MINUS_MINUS)) {
+      return this.increment(expr, this.previous());
     }
 
     return expr;
@@ -462,6 +708,12 @@ export class Parser {
       } else if (this.match(TokenType.DOT)) {
         const name = this.consume(TokenType.IDENTIFIER, "Expect property name after '.'.");
         expr = new Get(expr, name);
+      } else if (this.check(TokenType.LEFT_BRACKET) && this.peek().line === this.previous().line) {
+        // A '[' on the next line starts a new statement with a list literal
+        const bracket = this.advance();
+        const index = this.expression();
+        this.consume(TokenType.RIGHT_BRACKET, "Expect ']' after index.");
+        expr = new Index(expr, bracket, index);
       } else {
         break;
       }
@@ -471,16 +723,32 @@ export class Parser {
   }
 
   private finishCall(callee: Expr): Expr {
-    const args: Expr[] = [];
+    const args = this.arguments();
+    const paren = this.consume(TokenType.RIGHT_PAREN, "Expect ')' after arguments.");
+    return new Call(callee, paren, args);
+  }
 
+  private arguments(): Expr[] {
+    const args: Expr[] = [];
     if (!this.check(TokenType.RIGHT_PAREN)) {
       do {
         args.push(this.expression());
       } while (this.match(TokenType.COMMA));
     }
+    return args;
+  }
 
+  // new Enemy(x, y), or new shapes.Circle(r) for a class stored on an object
+  private newExpression(): Expr {
+    const keyword = this.previous();
+    let callee: Expr = new Variable(this.consume(TokenType.IDENTIFIER, "Expect class name after 'new'."));
+    while (this.match(TokenType.DOT)) {
+      callee = new Get(callee, this.consume(TokenType.IDENTIFIER, "Expect property name after '.'."));
+    }
+    this.consume(TokenType.LEFT_PAREN, "Expect '(' after class name.");
+    const args = this.arguments();
     const paren = this.consume(TokenType.RIGHT_PAREN, "Expect ')' after arguments.");
-    return new Call(callee, paren, args);
+    return new New(keyword, callee, paren, args);
   }
 
   private primary(): Expr {
@@ -489,7 +757,13 @@ export class Parser {
     }
 
     if (this.match(TokenType.STRING)) {
-      return new Literal(this.previous().literal);
+      const literal = new Literal(this.previous().literal);
+      this.ranges.strings.set(literal, [this.previous()]);
+      return literal;
+    }
+
+    if (this.match(TokenType.INTERPOLATION)) {
+      return this.template();
     }
 
     if (this.match(TokenType.TRUE)) {
@@ -502,12 +776,35 @@ export class Parser {
 
     if (this.match(TokenType.GLOBAL)) {
       // global as access prefix: global varName or global funcName()
+      const keyword = this.previous();
       const name = this.consume(TokenType.IDENTIFIER, "Expect identifier after 'global'.");
       // Create a Get expression to represent globals.name
-      const globalsVar = new Variable({ type: TokenType.IDENTIFIER, lexeme: 'globals', literal: null, line: name.line });
+      const globalsVar = new Variable(this.syntheticToken(TokenType.IDENTIFIER, 'globals', keyword));
       return new Get(globalsVar, name);
     }
 
+    if (this.match(TokenType.FUNC)) {
+      return this.lambda();
+    }
+
+    if (this.match(TokenType.NEW)) {
+      return this.newExpression();
+    }
+
+    if (this.match(TokenType.SELF)) {
+      return new Self(this.previous());
+    }
+
+    if (this.match(TokenType.SUPER)) {
+      const keyword = this.previous();
+      this.consume(TokenType.DOT, "Expect '.' after 'super'.");
+      return new Super(keyword, this.consume(TokenType.IDENTIFIER, "Expect superclass method name."));
+    }
+
+    if (this.isArrowFunction()) {
+      return this.arrowFunction();
+    }
+
     if (this.match(TokenType.IDENTIFIER)) {
       return new Variable(this.previous());
     }
@@ -526,7 +823,79 @@ export class Parser {
       return this.objectLiteral();
     }
 
-    throw new Error(`Unexpected token: ${this.peek().lexeme}`);
+    throw this.error(this.peek(), `Unexpected token: ${this.describe(this.peek())}`, DiagnosticCode.UnexpectedToken);
+  }
+
+  // func (a, b) ... end
+  private lambda(): Expr {
+    const start = this.previous();
+    this.consume(TokenType.LEFT_PAREN, "Expect '(' after 'func' in a function expression.");
+    const { params, paramTypes } = this.parameters();
+    const returnType = this.match(TokenType.COLON) ? this.typeAnnotation(true) : null;
+    return new Lambda(start, params, this.functionBody(), paramTypes, returnType);
+  }
+
+  // Whether the current token starts 'x => ...' or '(a, b) => ...', which
+  // takes looking past the parentheses to tell apart from a grouping
+  private isArrowFunction(): boolean {
+    if (this.check(TokenType.IDENTIFIER)) {
+      return this.peekNext().type === TokenType.ARROW;
+    }
+    if (!this.check(TokenType.LEFT_PAREN)) return false;
+
+    let depth = 0;
+    for (let i = this.current; i < this.tokens.length; i++) {
+      const type = this.tokens[i].type;
+      this.furthest = Math.max(this.furthest, i + 1);
+      if (type === TokenType.EOF) return false;
+      if (type === TokenType.LEFT_PAREN) depth++;
+      if (type === TokenType.RIGHT_PAREN && --depth === 0) {
+        return this.tokens[i + 1]?.type === TokenType.ARROW;
+      }
+    }
+    return false;
+  }
+
+  private arrowFunction(): Expr {
+    const start = this.peek();
+    let params: Token[] = [start];
+    let paramTypes: (TypeAnnotation | null)[] = [null];
+    if (this.match(TokenType.LEFT_PAREN)) {
+      ({ params, paramTypes } = this.parameters());
+    } else {
+      this.advance();
+    }
+    const arrow = this.consume(TokenType.ARROW, "Expect '=>' after parameters.");
+    return new Lambda(start, params, [new Return(arrow, this.expression())], paramTypes);
+  }
+
+  // The lexer splits "a {x} b {y} c" into INTERPOLATION tokens for the text
+  // before each expression, the expressions' own tokens, and a STRING for the rest
+  private template(): Expr {
+    const start = this.previous();
+    const tokens = [start];
+    const strings: string[] = [start.literal];
+    const expressions: Expr[] = [];
+
+    while (true) {
+      // The rest of the string starts right away at the '}'
+      const empty = (this.check(TokenType.INTERPOLATION) || this.check(TokenType.STRING)) && this.peek().lexeme.startsWith('}');
+      if (empty) {
+        throw this.error(this.previous(), "Expect expression inside '{}'.", DiagnosticCode.ExpectedToken);
+      }
+      expressions.push(this.expression());
+
+      if (this.match(TokenType.INTERPOLATION)) {
+        tokens.push(this.previous());
+        strings.push(this.previous().literal);
+      } else {
+        tokens.push(this.consume(TokenType.STRING, "Expect '}' after interpolated expression."));
+        strings.push(this.previous().literal);
+        const template = new Template(start, strings, expressions);
+        this.ranges.strings.set(template, tokens);
+        return template;
+      }
+    }
   }
 
   private listLiteral(): Expr {
@@ -561,6 +930,11 @@ export class Parser {
     return new Literal(properties);
   }
 
+  private record<T extends Stmt>(stmt: T, start: Token): T {
+    this.ranges.statements.set(stmt, { start, end: this.previous() });
+    return stmt;
+  }
+
   private match(...types: TokenType[]): boolean {
     for (const type of types) {
       if (this.check(type)) {
@@ -586,16 +960,46 @@ export class Parser {
   }
 
   private peek(): Token {
+    if (this.current > this.furthest) this.furthest = this.current;
     return this.tokens[this.current];
   }
 
+  private peekNext(): Token {
+    this.furthest = Math.max(this.furthest, this.current + 1);
+    return this.tokens[Math.min(this.current + 1, this.tokens.length - 1)];
+  }
+
   private previous(): Token {
     return this.tokens[this.current - 1];
   }
 
   private consume(type: TokenType, message: string): Token {
     if (this.check(type)) return this.advance();
-    throw new Error(`${message} Got ${this.peek().lexeme}`);
+    throw this.error(this.peek(), `${message} Got ${this.describe(this.peek())}`, DiagnosticCode.ExpectedToken);
+  }
+
+  private describe(token: Token): string {
+    return token.type === TokenType.EOF ? 'end of file' : token.lexeme;
+  }
+
+  private error(token: Token, message: string, code: DiagnosticCode): ParseError {
+    return new ParseError(createDiagnostic(code, message, tokenSpan(token)));
+  }
+
+  // Builds a token the source doesn't contain (e.g. the '+' in 'x += 1'),
+  // placed at the token it was derived from so errors still point somewhere
+  private syntheticToken(type: TokenType, lexeme: string, at: Token): Token {
+    const token = { type, lexeme, literal: null, line: at.line, column: at.column, offset: at.offset };
+    this.syntheticTokens.push(token);
+    return token;
+  }
+
+  // Replaces the '>>' at the current token with two '>' tokens
+  private splitShift(): void {
+    const shift = this.peek();
+    const first: Token = { type: TokenType.GREATER, lexeme: '>', literal: null, line: shift.line, column: shift.column, offset: shift.offset };
+    const second: Token = { ...first, column: shift.column + 1, offset: shift.offset + 1 };
+    this.tokens.splice(this.current, 1, first, second);
   }
 
   private synchronize(): void {
@@ -609,6 +1013,19 @@ export class Parser {
         case TokenType.PRINT:
         case TokenType.FUNC:
         case TokenType.RETURN:
+        case TokenType.GLOBAL:
+        case TokenType.IF:
+        case TokenType.ELIF:
+        case TokenType.ELSE:
+        case TokenType.WHILE:
+        case TokenType.FOR:
+        case TokenType.BREAK:
+        case TokenType.CONTINUE:
+        case TokenType.IMPORT:
+        case TokenType.EXPORT:
+        case TokenType.CLASS:
+        case TokenType.ON:
+        case TokenType.END:
           return;
       }
 
@@ -0,0 +1,501 @@
+import { Token } from './tokens';
+import { Diagnostic, DiagnosticCode, createDiagnostic, tokenSpan } from './diagnostics';
+import { Bindings, SPRITE_ENGINE, functionBinding, hookBinding, eventBinding, acceptsCount, describeArity } from './bindings';
+import {
+  Expr, Stmt, ExprVisitor, StmtVisitor,
+  Binary, Unary, Literal, Variable, Call, Get, Assign, Set, Logical, Index, IndexSet, Template, Lambda, New, Self, Super,
+  Var, Expression, Print, Function, Return, If, While, For, ForIn, Break, Continue, Import, Export, Class, On
+} from './ast';
+
+/**
+ * Names the host engine provides to every script. Pass your own list in
+ * ResolverOptions to target a different engine, e.g.
+ * `[...DEFAULT_HOST_GLOBALS, 'music']`. Built-in functions like floor()
+ * come from the bindings instead.
+ */
+export const DEFAULT_HOST_GLOBALS: readonly string[] = [
+  // Sprite engine
+  'sprite', 'createClone', 'globals', 'Game', 'Keyboard', 'Key', 'Math'
+];
+
+export interface ResolverOptions {
+  hostGlobals?: readonly string[];
+  // Built-in functions and hooks; defaults to SPRITE_ENGINE
+  bindings?: Bindings;
+}
+
+interface Binding {
+  token: Token;
+  // False between the start of the block and the declaration itself
+  defined: boolean;
+  isVar: boolean;
+}
+
+interface Scope {
+  bindings: Map<string, Binding>;
+  // How many functions enclose this scope
+  functionDepth: number;
+}
+
+/**
+ * Checks names before code generation. Walks the AST with a stack of
+ * lexical scopes matching the blocks in the generated TypeScript, and
+ * reports names that are used before they're declared, never declared,
+ * or declared twice in one scope, and returns outside of functions.
+ *
+ * Imported names are declared like vars but can't be assigned to. Whether
+ * the module exists and exports them is up to ModuleLoader.
+ *
+ * Classes are declared like vars too, since the generated classes aren't
+ * hoisted. `self` and `super` are only allowed in their methods, field
+ * initializers and the lambdas inside those.
+ */
+export class Resolver implements ExprVisitor<void>, StmtVisitor<void> {
+  readonly errors: Diagnostic[] = [];
+  // Maps each name token that was resolved to the token that declared it
+  readonly resolutions = new Map<Token, Token>();
+  // Declaring tokens of names that are assigned to after their declaration
+  readonly reassigned = new WeakSet<Token>();
+  private scopes: Scope[] = [];
+  // Desugared compound assignments visit the same node twice
+  private reported = new WeakSet<Token>();
+  // Declaring tokens of imported names
+  private imported = new WeakSet<Token>();
+  // Declaring tokens of classes
+  private classes = new WeakSet<Token>();
+  // The class and method being resolved. Functions declared inside a
+  // method get their own `this` in the generated code, so they reset both.
+  private currentClass: Class | null = null;
+  private currentMethod: Function | null = null;
+  private functionDepth = 0;
+  private hostGlobals: readonly string[];
+  private bindings: Bindings;
+
+  constructor(options: ResolverOptions = {}) {
+    this.hostGlobals = options.hostGlobals ?? DEFAULT_HOST_GLOBALS;
+    this.bindings = options.bindings ?? SPRITE_ENGINE;
+  }
+
+  resolve(statements: Stmt[]): void {
+    this.resolveBlock(statements);
+  }
+
+  // Expression visitors
+  visitBinaryExpr(expr: Binary): void {
+    this.resolveExpr(expr.left);
+    this.resolveExpr(expr.right);
+  }
+
+  visitUnaryExpr(expr: Unary): void {
+    this.resolveExpr(expr.right);
+  }
+
+  visitLiteralExpr(expr: Literal): void {
+    if (Array.isArray(expr.value)) {
+      expr.value.forEach((element: Expr) => this.resolveExpr(element));
+    } else if (expr.value instanceof Map) {
+      expr.value.forEach((value: Expr) => this.resolveExpr(value));
+    }
+  }
+
+  visitVariableExpr(expr: Variable): void {
+    this.resolveName(expr.name, DiagnosticCode.UndefinedVariable, `Undefined variable '${expr.name.lexeme}'.`);
+  }
+
+  visitCallExpr(expr: Call): void {
+    if (expr.callee instanceof Variable) {
+      const name = expr.callee.name;
+      this.resolveName(name, DiagnosticCode.UnknownFunction, `Unknown function '${name.lexeme}'.`);
+      const declaration = this.resolutions.get(name);
+      if (declaration && this.classes.has(declaration)) {
+        this.error(name, DiagnosticCode.ClassWithoutNew,
+          `'${name.lexeme}' is a class, create one with 'new ${name.lexeme}(...)'.`);
+      }
+      const binding = functionBinding(this.bindings, name.lexeme);
+      if (binding && !acceptsCount(binding.arity, expr.args.length)) {
+        this.error(name, DiagnosticCode.WrongArgumentCount,
+          `'${name.lexeme}' takes ${describeArity(binding.arity, 'argument')}, not ${expr.args.length}.`);
+      }
+    } else if (expr.callee instanceof Super) {
+      this.resolveSuper(expr.callee, true);
+    } else {
+      this.resolveExpr(expr.callee);
+    }
+    expr.args.forEach(arg => this.resolveExpr(arg));
+  }
+
+  visitGetExpr(expr: Get): void {
+    this.resolveExpr(expr.object);
+  }
+
+  visitAssignExpr(expr: Assign): void {
+    this.resolveExpr(expr.value);
+    this.resolveName(expr.name, DiagnosticCode.UndefinedVariable, `Undefined variable '${expr.name.lexeme}'.`);
+    const declaration = this.resolutions.get(expr.name);
+    if (!declaration) return;
+    this.reassigned.add(declaration);
+    if (this.imported.has(declaration)) {
+      this.error(expr.name, DiagnosticCode.AssignToImport,
+        `Can't assign to '${expr.name.lexeme}', it's imported from another script.`);
+    }
+  }
+
+  visitSetExpr(expr: Set): void {
+    this.resolveExpr(expr.value);
+    this.resolveExpr(expr.object);
+  }
+
+  visitLogicalExpr(expr: Logical): void {
+    this.resolveExpr(expr.left);
+    this.resolveExpr(expr.right);
+  }
+
+  visitIndexExpr(expr: Index): void {
+    this.resolveExpr(expr.object);
+    this.resolveExpr(expr.index);
+  }
+
+  visitIndexSetExpr(expr: IndexSet): void {
+    this.resolveExpr(expr.value);
+    this.resolveExpr(expr.object);
+    this.resolveExpr(expr.index);
+  }
+
+  visitTemplateExpr(expr: Template): void {
+    expr.expressions.forEach(part => this.resolveExpr(part));
+  }
+
+  visitLambdaExpr(expr: Lambda): void {
+    // super.init() can't be called from a nested function
+    const enclosingMethod = this.currentMethod;
+    this.currentMethod = null;
+    this.resolveFunction(expr);
+    this.currentMethod = enclosingMethod;
+  }
+
+  visitNewExpr(expr: New): void {
+    this.resolveExpr(expr.callee);
+    expr.args.forEach(arg => this.resolveExpr(arg));
+  }
+
+  visitSelfExpr(expr: Self): void {
+    if (!this.currentClass) {
+      this.error(expr.keyword, DiagnosticCode.SelfOutsideClass, "Can't use 'self' outside of a class.");
+    }
+  }
+
+  visitSuperExpr(expr: Super): void {
+    this.resolveSuper(expr, false);
+  }
+
+  // Statement visitors
+  visitVarStmt(stmt: Var): void {
+    this.resolveExpr(stmt.initializer);
+    // Global vars live on the globals object, not in a scope
+    if (!(stmt as any).isGlobal) {
+      this.define(stmt.name);
+    }
+  }
+
+  visitExpressionStmt(stmt: Expression): void {
+    this.resolveExpr(stmt.expression);
+  }
+
+  visitPrintStmt(stmt: Print): void {
+    this.resolveExpr(stmt.expression);
+  }
+
+  visitFunctionStmt(stmt: Function): void {
+    const hook = !(stmt as any).isGlobal && hookBinding(this.bindings, stmt.name.lexeme);
+    if (hook && !acceptsCount(hook.arity, stmt.params.length)) {
+      this.error(stmt.name, DiagnosticCode.WrongArgumentCount,
+        `'${stmt.name.lexeme}' takes ${describeArity(hook.arity, 'parameter')}, not ${stmt.params.length}.`);
+    }
+
+    const enclosingClass = this.currentClass;
+    const enclosingMethod = this.currentMethod;
+    this.currentClass = null;
+    this.currentMethod = null;
+    this.resolveFunction(stmt);
+    this.currentClass = enclosingClass;
+    this.currentMethod = enclosingMethod;
+  }
+
+  visitReturnStmt(stmt: Return): void {
+    if (this.functionDepth === 0) {
+      this.error(stmt.keyword, DiagnosticCode.ReturnOutsideFunction, "Can't return from outside a function.");
+    }
+    if (stmt.value && this.currentMethod?.name.lexeme === 'init') {
+      this.error(stmt.keyword, DiagnosticCode.InvalidInit, "Can't return a value from 'init'.");
+    }
+    if (stmt.value) this.resolveExpr(stmt.value);
+  }
+
+  visitIfStmt(stmt: If): void {
+    this.resolveExpr(stmt.condition);
+    this.resolveBlock(stmt.thenBranch);
+    for (const branch of stmt.elseifBranches) {
+      this.resolveExpr(branch.condition);
+      this.resolveBlock(branch.body);
+    }
+    if (stmt.elseBranch) this.resolveBlock(stmt.elseBranch);
+  }
+
+  visitWhileStmt(stmt: While): void {
+    this.resolveExpr(stmt.condition);
+    this.resolveBlock(stmt.body);
+  }
+
+  visitForStmt(stmt: For): void {
+    // The initializer's variable is scoped to the loop
+    this.beginScope();
+    if (stmt.initializer) {
+      this.declareAll([stmt.initializer]);
+      stmt.initializer.accept(this);
+    }
+    if (stmt.condition) this.resolveExpr(stmt.condition);
+    if (stmt.increment) this.resolveExpr(stmt.increment);
+    this.resolveBlock(stmt.body);
+    this.endScope();
+  }
+
+  visitForInStmt(stmt: ForIn): void {
+    this.resolveExpr(stmt.iterable);
+    this.beginScope();
+    for (const loopVar of [stmt.indexVar, stmt.itemVar]) {
+      this.declare(loopVar, true);
+      this.define(loopVar);
+    }
+    this.resolveBlock(stmt.body);
+    this.endScope();
+  }
+
+  visitBreakStmt(stmt: Break): void {}
+
+  visitContinueStmt(stmt: Continue): void {}
+
+  visitImportStmt(stmt: Import): void {
+    // The names were declared along with the rest of the block
+    this.checkTopLevel(stmt.keyword, 'Imports');
+  }
+
+  visitExportStmt(stmt: Export): void {
+    this.checkTopLevel(stmt.keyword, 'Exports');
+    stmt.declaration.accept(this);
+  }
+
+  visitClassStmt(stmt: Class): void {
+    if (stmt.superclass) {
+      if (stmt.superclass.name.lexeme === stmt.name.lexeme) {
+        this.error(stmt.superclass.name, DiagnosticCode.InvalidSuperclass, "A class can't inherit from itself.");
+      } else {
+        this.resolveSuperclass(stmt.superclass.name);
+      }
+    }
+    this.define(stmt.name);
+
+    const members = new Map<string, Token>();
+    for (const member of [...stmt.fields, ...stmt.methods]) {
+      const existing = members.get(member.name.lexeme);
+      if (existing) {
+        this.error(member.name, DiagnosticCode.DuplicateDeclaration,
+          `'${member.name.lexeme}' is already declared in class '${stmt.name.lexeme}' on line ${existing.line}.`);
+      }
+      members.set(member.name.lexeme, member.name);
+    }
+
+    const enclosingClass = this.currentClass;
+    const enclosingMethod = this.currentMethod;
+    this.currentClass = stmt;
+
+    // Field initializers run when an instance is created, like a method would
+    this.functionDepth++;
+    this.beginScope();
+    stmt.fields.forEach(field => this.resolveExpr(field.initializer));
+    this.endScope();
+    this.functionDepth--;
+
+    for (const method of stmt.methods) {
+      if (stmt.superclass && method.name.lexeme === 'init' && !method.body.some(isSuperInit)) {
+        this.error(method.name, DiagnosticCode.InvalidInit,
+          "'init' of a subclass must call super.init(...).");
+      }
+      this.currentMethod = method;
+      this.resolveFunction(method);
+    }
+
+    this.currentClass = enclosingClass;
+    this.currentMethod = enclosingMethod;
+  }
+
+  // The handler is resolved like a lambda: it can use self in a method
+  visitOnStmt(stmt: On): void {
+    const event = eventBinding(this.bindings, stmt.event.lexeme);
+    if (!event) {
+      this.error(stmt.event, DiagnosticCode.UnknownEvent, `Unknown event '${stmt.event.lexeme}'.`);
+    } else if (stmt.args.length !== event.args.length) {
+      this.error(stmt.event, DiagnosticCode.WrongArgumentCount,
+        `'${stmt.event.lexeme}' takes ${describeArity(event.args.length, 'argument')}, not ${stmt.args.length}.`);
+    }
+    stmt.args.forEach(arg => this.resolveExpr(arg));
+
+    const enclosingMethod = this.currentMethod;
+    this.currentMethod = null;
+    this.resolveFunction({ params: [], body: stmt.body });
+    this.currentMethod = enclosingMethod;
+  }
+
+  private resolveExpr(expr: Expr): void {
+    expr.accept(this);
+  }
+
+  private resolveBlock(statements: Stmt[]): void {
+    this.beginScope();
+    this.resolveStatements(statements);
+    this.endScope();
+  }
+
+  private resolveStatements(statements: Stmt[]): void {
+    this.declareAll(statements);
+    statements.forEach(stmt => stmt.accept(this));
+  }
+
+  // Declares every name a block introduces before resolving any of it.
+  // Functions are hoisted like their generated TypeScript; vars are known
+  // but not usable until their declaration runs.
+  private declareAll(statements: Stmt[]): void {
+    for (const statement of statements) {
+      const stmt = statement instanceof Export ? statement.declaration : statement;
+      if ((stmt as any).isGlobal) continue;
+
+      if (stmt instanceof Import) {
+        // Imports are hoisted and bound before the script runs
+        for (const name of stmt.names) {
+          this.declare(name, true);
+          this.define(name);
+          this.imported.add(name);
+        }
+      } else if (stmt instanceof Var) {
+        this.declare(stmt.name, true);
+      } else if (stmt instanceof Function) {
+        this.declare(stmt.name, false);
+        this.define(stmt.name);
+      } else if (stmt instanceof Class) {
+        this.declare(stmt.name, true);
+        this.classes.add(stmt.name);
+      }
+    }
+  }
+
+  // A superclass is a class declared in the script, an imported name, which
+  // ModuleLoader checks, or a host global
+  private resolveSuperclass(name: Token): void {
+    this.resolveName(name, DiagnosticCode.UndefinedVariable, `Undefined class '${name.lexeme}'.`);
+    const declaration = this.resolutions.get(name);
+    const isClass = declaration
+      ? this.classes.has(declaration) || this.imported.has(declaration)
+      : this.hostGlobals.includes(name.lexeme);
+    if (!isClass && (declaration || functionBinding(this.bindings, name.lexeme))) {
+      this.error(name, DiagnosticCode.InvalidSuperclass, `Can't inherit from '${name.lexeme}', it isn't a class.`);
+    }
+  }
+
+  // super.init is the superclass's constructor, which only 'init' can call
+  private resolveSuper(expr: Super, called: boolean): void {
+    if (!this.currentClass) {
+      this.error(expr.keyword, DiagnosticCode.SelfOutsideClass, "Can't use 'super' outside of a class.");
+    } else if (!this.currentClass.superclass) {
+      this.error(expr.keyword, DiagnosticCode.InvalidSuperclass,
+        `Can't use 'super' in '${this.currentClass.name.lexeme}', it has no superclass.`);
+    } else if (expr.method.lexeme === 'init' && (!called || this.currentMethod?.name.lexeme !== 'init')) {
+      this.error(expr.method, DiagnosticCode.InvalidInit, "super.init(...) can only be called from 'init'.");
+    }
+  }
+
+  private checkTopLevel(keyword: Token, what: string): void {
+    if (this.scopes.length > 1) {
+      this.error(keyword, DiagnosticCode.NotAtTopLevel, `${what} must be at the top level of a script.`);
+    }
+  }
+
+  // Names a function body uses can be declared after the function, since
+  // they're only looked up once it's called
+  private resolveFunction(fn: { params: Token[]; body: Stmt[] }): void {
+    this.functionDepth++;
+    this.beginScope();
+    for (const param of fn.params) {
+      this.declare(param, true);
+      this.define(param);
+    }
+    this.resolveStatements(fn.body);
+    this.endScope();
+    this.functionDepth--;
+  }
+
+  private beginScope(): void {
+    this.scopes.push({ bindings: new Map(), functionDepth: this.functionDepth });
+  }
+
+  private endScope(): void {
+    this.scopes.pop();
+  }
+
+  private declare(name: Token, isVar: boolean): void {
+    // Calls to the name would still go to the built-in
+    if (functionBinding(this.bindings, name.lexeme)) {
+      this.error(name, DiagnosticCode.ShadowsBuiltIn, `Can't declare '${name.lexeme}', it's a built-in function.`);
+    }
+
+    const scope = this.scopes[this.scopes.length - 1];
+    const existing = scope.bindings.get(name.lexeme);
+
+    if (existing && (isVar || existing.isVar)) {
+      this.error(name, DiagnosticCode.DuplicateDeclaration,
+        `'${name.lexeme}' is already declared in this scope on line ${existing.token.line}.`);
+      return;
+    }
+
+    scope.bindings.set(name.lexeme, { token: name, defined: false, isVar });
+  }
+
+  private define(name: Token): void {
+    const binding = this.scopes[this.scopes.length - 1].bindings.get(name.lexeme);
+    // Only define the binding this declaration created, not an earlier duplicate
+    if (binding && binding.token === name) binding.defined = true;
+  }
+
+  private resolveName(name: Token, code: DiagnosticCode, undefinedMessage: string): void {
+    for (let i = this.scopes.length - 1; i >= 0; i--) {
+      const binding = this.scopes[i].bindings.get(name.lexeme);
+      if (!binding) continue;
+
+      this.resolutions.set(name, binding.token);
+
+      // A function declared in between may run after the declaration has,
+      // so only uses in the same function are definitely too early
+      if (!binding.defined && this.scopes[i].functionDepth === this.functionDepth) {
+        this.error(name, DiagnosticCode.UseBeforeDeclaration,
+          `Can't use '${name.lexeme}' before its declaration on line ${binding.token.line}.`);
+      }
+      return;
+    }
+
+    if (!this.hostGlobals.includes(name.lexeme) && !functionBinding(this.bindings, name.lexeme)) {
+      this.error(name, code, undefinedMessage);
+    }
+  }
+
+  private error(token: Token, code: DiagnosticCode, message: string): void {
+    if (this.reported.has(token)) return;
+    this.reported.add(token);
+    this.errors.push(createDiagnostic(code, message, tokenSpan(token)));
+  }
+}
+
+// A statement calling super.init(...)
+function isSuperInit(stmt: Stmt): boolean {
+  return stmt instanceof Expression &&
+    stmt.expression instanceof Call &&
+    stmt.expression.callee instanceof Super &&
+    stmt.expression.callee.method.lexeme === 'init';
+}
@@ -0,0 +1,91 @@
+import { transpile, TranspileError, TranspileOptions } from './transpiler';
+import { DEFAULT_HOST_GLOBALS } from './resolver';
+import { formatDiagnostic } from './diagnostics';
+
+console.log('=== Testing Name Resolution ===\n');
+
+function show(code: string, options: TranspileOptions = {}) {
+  console.log('Input:');
+  console.log(code);
+  console.log('Output:');
+  try {
+    console.log(transpile(code, options));
+  } catch (error) {
+    if (!(error instanceof TranspileError)) throw error;
+    error.diagnostics.forEach(diagnostic => console.log(formatDiagnostic(diagnostic)));
+  }
+  console.log('---\n');
+}
+
+// Test 1: Misspelled variable
+console.log('Test 1: Undefined variable');
+show(`
+var player = createClone()
+spriet.x = 10
+player.y = spede
+`);
+
+// Test 2: Using a var before its declaration
+console.log('Test 2: Use before declaration');
+show(`
+print(score)
+var score = 0
+var lives = lives + 1
+`);
+
+// Test 3: Functions are hoisted, and can see vars declared after them
+console.log('Test 3: Hoisted functions and later vars');
+show(`
+func reset()
+  score = 0
+end
+var score = 10
+reset()
+jump()
+func jump()
+  sprite.y += 5
+end
+`);
+
+// Test 4: Duplicate var in one scope, shadowing in another
+console.log('Test 4: Duplicate declarations');
+show(`
+var hp = 10
+var hp = 20
+func heal(amount)
+  var amount = 5
+  if (true)
+    var hp = 1
+  end
+end
+`);
+
+// Test 5: Unknown function and return outside a function
+console.log('Test 5: Unknown function and top-level return');
+show(`
+spawn_enemy(3)
+return 1
+`);
+
+// Test 6: Loop variables are scoped to their loop
+console.log('Test 6: Loop scopes');
+show(`
+for (var i = 0; i < 3; i++)
+  print(i)
+end
+for (n, item in [1, 2])
+  print(n + item)
+end
+print(i)
+print(item)
+`);
+
+// Test 7: Custom host globals
+console.log('Test 7: Host globals allow-list');
+show(`
+music.play("theme")
+sprite.x = 0
+`, { hostGlobals: [...DEFAULT_HOST_GLOBALS, 'music'] });
+show(`
+sprite.x = 0
+`, { hostGlobals: ['stage'] });
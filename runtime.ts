@@ -0,0 +1,523 @@
+import { SourceMap, originalPosition } from './sourcemap';
+
+/**
+ * A reference implementation of the sprite engine: every name in
+ * DEFAULT_HOST_GLOBALS and every call SPRITE_ENGINE compiles to, for
+ * running scripts transpiled with `types: 'none'`. Time only moves when
+ * frame() is called, so with the same random seed and the same input a
+ * script plays out the same way every time.
+ */
+
+export const FRAME_RATE = 60;
+
+// The stage has (0, 0) in the middle, with y going up
+export const STAGE_WIDTH = 960;
+export const STAGE_HEIGHT = 720;
+
+// The width and height of a sprite, for clicks, collisions and drawing
+export const SPRITE_SIZE = 40;
+
+// key_down("Space") compiles to Keyboard.keyDown(Key.Space), and Key.Space
+// is 'Space'
+export const Key: Record<string, string> = {};
+for (const name of [
+  'UpArrow', 'DownArrow', 'LeftArrow', 'RightArrow', 'Space', 'Enter', 'Escape', 'Tab', 'Backspace', 'Shift', 'Control', 'Alt',
+  ...'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split('')
+]) {
+  Key[name] = name;
+}
+
+// Where a script's output or error came from: the WispScript line when the
+// script was run with its source map, otherwise the generated code's line
+export interface ScriptOutput {
+  text: string;
+  line: number | null;
+}
+
+export interface RuntimeOptions {
+  // Seeds random(), randrange() and Math.random. Unseeded, they're random.
+  seed?: number;
+  // Output of print()
+  print?: (output: ScriptOutput) => void;
+  // Errors the script throws. The loop or handler that threw stops.
+  error?: (output: ScriptOutput) => void;
+  // Answers ask(question); the answer is empty without it
+  ask?: (question: string) => string | Promise<string>;
+}
+
+export class Sprite {
+  x = 0;
+  y = 0;
+  // In degrees, clockwise
+  rotation = 0;
+  costume = '';
+  visible = true;
+  // From 0, opaque, to 100, invisible
+  transparency = 0;
+  // Added to x and y every frame
+  velocity = { x: 0, y: 0 };
+  // Anything the script keeps with the sprite
+  data: any = {};
+  // Drawn instead of a costume, for sprites made by Game.createText
+  text: string | null = null;
+  deleted = false;
+
+  constructor(
+    readonly id: number,
+    private onDelete: (sprite: Sprite) => void,
+    // The sprite this one is a clone of
+    readonly cloneOf: Sprite | null = null
+  ) {}
+
+  delete(): void {
+    if (this.deleted) return;
+    this.deleted = true;
+    this.onDelete(this);
+  }
+}
+
+// A callback the script registered, and the sprite it belongs to: the one
+// whose task was running when it was registered. A deleted sprite's
+// callbacks aren't called again.
+interface Handler {
+  owner: Sprite;
+  callback: (...args: unknown[]) => unknown;
+}
+
+interface Loop extends Handler {
+  running: boolean;
+}
+
+interface Timer extends Handler {
+  seconds: number;
+  next: number;
+}
+
+interface Watch extends Handler {
+  // Sprites it was touching, or whether it was off the stage, last frame
+  touching: Sprite[];
+  offStage: boolean;
+}
+
+// A callback of the script's that was called, from when it starts until it
+// ends, and the sprite it runs for. Its code after an await runs in a later
+// microtask, so tasks run one at a time: each until it waits or ends, and
+// resumed the same way. What the running task clones or registers is its
+// sprite's.
+interface Task {
+  owner: Sprite;
+}
+
+const SCRIPT_URL = 'wisp-script.js';
+const SCRIPT_POSITION = new RegExp(`${SCRIPT_URL.replace('.', '\\.')}:(\\d+):(\\d+)`);
+
+const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor as
+  new (...args: string[]) => (...args: unknown[]) => Promise<unknown>;
+
+// How many lines the Function constructor puts before a script, which
+// differs between JavaScript engines
+let headerLines: number | null = null;
+
+function scriptPosition(stack: string): { line: number; column: number } | null {
+  if (headerLines === null) {
+    let probe = '';
+    new AsyncFunction('report', `report(new Error().stack)\n//# sourceURL=${SCRIPT_URL}`)((stack: string) => {
+      probe = stack;
+    });
+    const match = SCRIPT_POSITION.exec(probe);
+    headerLines = match ? Number(match[1]) - 1 : 0;
+  }
+  const match = SCRIPT_POSITION.exec(stack);
+  return match ? { line: Number(match[1]) - headerLines, column: Number(match[2]) } : null;
+}
+
+// A small seedable generator (mulberry32), in place of Math.random
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function formatValue(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (typeof value !== 'object' || value === null) return String(value);
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return String(value);
+  }
+}
+
+export class SpriteRuntime {
+  // The sprite the script is written for
+  readonly sprite: Sprite;
+  // Names the generated code uses, with what they are here
+  readonly globals: Record<string, unknown>;
+  // Seconds of game time, advanced by frame()
+  time = 0;
+  frames = 0;
+
+  private options: RuntimeOptions;
+  private map: SourceMap | null = null;
+  private nextId = 1;
+  private live: Sprite[] = [];
+  private pressed: string[] = [];
+
+  // The task running now, and what to call when it waits or ends
+  private task: Task | null = null;
+  private parked: () => void = () => {};
+  // Settles when every task started so far has waited or ended
+  private queue: Promise<void> = Promise.resolve();
+  private queued = 0;
+
+  private loops: Loop[] = [];
+  private timers: Timer[] = [];
+  private collisions: Watch[] = [];
+  private edges: Watch[] = [];
+  private starts: Handler[] = [];
+  private cloneStarts: Handler[] = [];
+  private keyHandlers: Array<Handler & { key: string }> = [];
+  private clicks: Handler[] = [];
+  private messages: Array<Handler & { name: string }> = [];
+  private started = false;
+  // Clones made since the last frame, whose clone start handlers run next
+  private newClones: Sprite[] = [];
+
+  private waits: Array<{ task: Task; until: number; resume: () => void }> = [];
+  private conditions: Array<{ task: Task; condition: () => unknown; resume: () => void; fail: (error: unknown) => void }> = [];
+
+  constructor(options: RuntimeOptions = {}) {
+    this.options = options;
+    this.sprite = this.createSprite();
+
+    const random = options.seed === undefined ? Math.random : seededRandom(options.seed);
+    const math = Object.create(Math) as Math;
+    math.random = random;
+
+    const register = <T extends Handler>(list: T[], handler: Omit<T, 'owner'>) => {
+      list.push({ ...handler, owner: this.owner } as T);
+    };
+
+    this.globals = {
+      sprite: this.sprite,
+      createClone: () => this.createClone(this.owner),
+      globals: {},
+      Game: {
+        every: (seconds: number, callback: () => unknown) => register(this.timers, { callback, seconds, next: this.time + seconds }),
+        createText: (text: unknown = '', x: number = 0, y: number = 0) => {
+          const sprite = this.createSprite();
+          sprite.text = formatValue(text);
+          sprite.x = x;
+          sprite.y = y;
+          return sprite;
+        }
+      },
+      Keyboard: {
+        keyDown: (key: string) => this.pressed.includes(key),
+        keyUp: (key: string) => !this.pressed.includes(key)
+      },
+      Key,
+      Math: math,
+      console: {
+        log: (...values: unknown[]) => this.options.print?.(this.output(values.map(formatValue).join(' '), new Error().stack ?? ''))
+      },
+      wait: (seconds: number) => new Promise<void>(resume => {
+        this.waits.push({ task: this.park(), until: this.time + seconds, resume });
+      }),
+      waitUntil: (condition: () => unknown) => new Promise<void>((resume, fail) => {
+        this.conditions.push({ task: this.park(), condition, resume, fail });
+      }),
+      ask: async (question: unknown) => this.options.ask ? String(await this.options.ask(formatValue(question))) : '',
+      forever: (callback: () => unknown) => register(this.loops, { callback, running: false }),
+      onCollision: (callback: (other: Sprite) => unknown) => register(this.collisions, { callback, touching: [], offStage: false }),
+      onLeaveScreen: (callback: () => unknown) => register(this.edges, { callback, touching: [], offStage: false }),
+      onCloneStart: (callback: (clone: Sprite) => unknown) => register(this.cloneStarts, { callback }),
+      onStart: (callback: () => unknown) => register(this.starts, { callback }),
+      onKeyPressed: (key: string, callback: () => unknown) => register(this.keyHandlers, { callback, key }),
+      onClick: (callback: () => unknown) => register(this.clicks, { callback }),
+      onMessage: (name: string, callback: () => unknown) => register(this.messages, { callback, name })
+    };
+  }
+
+  // Every sprite on the stage, clones included, oldest first
+  get sprites(): readonly Sprite[] {
+    return this.live;
+  }
+
+  /**
+   * Starts a script: JavaScript from transpiling with `types: 'none'`, and
+   * its source map to report WispScript lines with. The promise settles
+   * when the script's top level has run to its end, which can take frames;
+   * idle() settles once it has run as far as it can without them.
+   */
+  run(code: string, map: SourceMap | null = null): Promise<void> {
+    this.map = map;
+    const names = Object.keys(this.globals);
+    let main: (...args: unknown[]) => Promise<unknown>;
+    try {
+      main = new AsyncFunction(...names, `${code}\n//# sourceURL=${SCRIPT_URL}`);
+    } catch (error) {
+      this.report(error);
+      return Promise.resolve();
+    }
+    return new Promise(done => {
+      this.invoke(this.sprite, () => main(...names.map(name => this.globals[name])), [], () => done());
+    });
+  }
+
+  // Settles when the script has run as far as it can until the next frame
+  idle(): Promise<void> {
+    return this.queue;
+  }
+
+  /**
+   * Moves time on by one frame: sprites move by their velocity, waits that
+   * are over resume, and each forever loop that isn't waiting runs once.
+   * The promise settles once what was started has run as far as it can.
+   */
+  async frame(): Promise<void> {
+    // Handlers of input since the last frame go first
+    await this.queue;
+    this.frames++;
+    this.time = this.frames / FRAME_RATE;
+    this.prune();
+
+    if (!this.started) {
+      this.started = true;
+      this.starts.forEach(handler => this.invoke(handler.owner, handler.callback, []));
+    }
+    for (const sprite of this.live) {
+      sprite.x += sprite.velocity?.x ?? 0;
+      sprite.y += sprite.velocity?.y ?? 0;
+    }
+    // Clones start once the code that made them has set them up
+    for (const clone of this.newClones.splice(0)) {
+      if (clone.deleted) continue;
+      this.cloneStarts.forEach(handler => this.invoke(clone, handler.callback, [clone]));
+    }
+    // Loops they start run this frame
+    await this.queue;
+    // Loops whose waits end below go round again next frame
+    const ready = this.loops.filter(loop => !loop.running);
+
+    this.waits = this.waits.filter(wait => {
+      if (wait.until > this.time + 1e-9) return true;
+      this.schedule(wait.task, wait.resume);
+      return false;
+    });
+    this.conditions = this.conditions.filter(wait => {
+      try {
+        if (!wait.condition()) return true;
+        this.schedule(wait.task, wait.resume);
+      } catch (error) {
+        this.schedule(wait.task, () => wait.fail(error));
+      }
+      return false;
+    });
+    for (const timer of this.timers) {
+      if (timer.next > this.time + 1e-9) continue;
+      timer.next += timer.seconds;
+      this.invoke(timer.owner, timer.callback, []);
+    }
+    await this.queue;
+    for (const loop of ready) {
+      if (loop.running || !this.loops.includes(loop)) continue;
+      loop.running = true;
+      this.invoke(loop.owner, loop.callback, [], ok => {
+        loop.running = false;
+        if (!ok) this.loops = this.loops.filter(other => other !== loop);
+      });
+    }
+
+    // Collisions and the edge are checked where the loops moved sprites to
+    await this.queue;
+    for (const watch of this.collisions) {
+      const touching = this.live.filter(other => other !== watch.owner && this.touching(watch.owner, other));
+      touching
+        .filter(other => !watch.touching.includes(other))
+        .forEach(other => this.invoke(watch.owner, watch.callback, [other]));
+      watch.touching = touching;
+    }
+    for (const watch of this.edges) {
+      const { x, y } = watch.owner;
+      const offStage = Math.abs(x) > STAGE_WIDTH / 2 || Math.abs(y) > STAGE_HEIGHT / 2;
+      if (offStage && !watch.offStage) this.invoke(watch.owner, watch.callback, []);
+      watch.offStage = offStage;
+    }
+
+    await this.queue;
+  }
+
+  // Input from whoever is playing
+
+  press(key: string): void {
+    if (this.pressed.includes(key)) return;
+    this.pressed.push(key);
+    this.keyHandlers
+      .filter(handler => handler.key === key && !handler.owner.deleted)
+      .forEach(handler => this.invoke(handler.owner, handler.callback, []));
+  }
+
+  release(key: string): void {
+    this.pressed = this.pressed.filter(other => other !== key);
+  }
+
+  // A click at a point on the stage, which the sprites under it handle
+  click(x: number, y: number): void {
+    this.clicks
+      .filter(handler => !handler.owner.deleted && handler.owner.visible && this.contains(handler.owner, x, y))
+      .forEach(handler => this.invoke(handler.owner, handler.callback, []));
+  }
+
+  broadcast(name: string): void {
+    this.messages
+      .filter(handler => handler.name === name && !handler.owner.deleted)
+      .forEach(handler => this.invoke(handler.owner, handler.callback, []));
+  }
+
+  // Draws the stage with the canvas scaled to STAGE_WIDTH by STAGE_HEIGHT
+  draw(context: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D): void {
+    context.clearRect(0, 0, STAGE_WIDTH, STAGE_HEIGHT);
+    for (const sprite of this.live) {
+      if (!sprite.visible) continue;
+      context.save();
+      context.translate(STAGE_WIDTH / 2 + sprite.x, STAGE_HEIGHT / 2 - sprite.y);
+      context.rotate(sprite.rotation * Math.PI / 180);
+      context.globalAlpha = Math.max(0, Math.min(1, 1 - sprite.transparency / 100));
+      if (sprite.text !== null) {
+        context.fillStyle = '#fff';
+        context.font = '20px sans-serif';
+        context.textAlign = 'center';
+        context.textBaseline = 'middle';
+        context.fillText(sprite.text, 0, 0);
+      } else {
+        // Sprites with the same costume look the same
+        let hue = 0;
+        for (const char of sprite.costume) hue = (hue * 31 + char.charCodeAt(0)) % 360;
+        context.fillStyle = `hsl(${hue}, 70%, 60%)`;
+        context.beginPath();
+        context.arc(0, 0, SPRITE_SIZE / 2, 0, Math.PI * 2);
+        context.fill();
+        // Which way it's facing
+        context.strokeStyle = '#fff';
+        context.beginPath();
+        context.moveTo(0, 0);
+        context.lineTo(SPRITE_SIZE / 2, 0);
+        context.stroke();
+      }
+      context.restore();
+    }
+  }
+
+  private createSprite(cloneOf: Sprite | null = null): Sprite {
+    const sprite = new Sprite(this.nextId++, deleted => {
+      this.live = this.live.filter(other => other !== deleted);
+    }, cloneOf);
+    this.live.push(sprite);
+    return sprite;
+  }
+
+  private createClone(of: Sprite): Sprite {
+    const clone = this.createSprite(of);
+    clone.x = of.x;
+    clone.y = of.y;
+    clone.rotation = of.rotation;
+    clone.costume = of.costume;
+    clone.visible = of.visible;
+    clone.transparency = of.transparency;
+    clone.velocity = { ...of.velocity };
+    clone.data = { ...of.data };
+    this.newClones.push(clone);
+    return clone;
+  }
+
+  // Callbacks of deleted sprites are dropped
+  private prune(): void {
+    const alive = (handler: Handler) => !handler.owner.deleted;
+    this.loops = this.loops.filter(alive);
+    this.timers = this.timers.filter(alive);
+    this.collisions = this.collisions.filter(alive);
+    this.edges = this.edges.filter(alive);
+  }
+
+  private touching(a: Sprite, b: Sprite): boolean {
+    return a.visible && b.visible && Math.abs(a.x - b.x) < SPRITE_SIZE && Math.abs(a.y - b.y) < SPRITE_SIZE;
+  }
+
+  private contains(sprite: Sprite, x: number, y: number): boolean {
+    return Math.abs(sprite.x - x) <= SPRITE_SIZE / 2 && Math.abs(sprite.y - y) <= SPRITE_SIZE / 2;
+  }
+
+  /**
+   * Calls a callback of the script's as a new task for the sprite it runs
+   * for. Errors are reported rather than thrown; done is told whether
+   * there was none when the task ends.
+   */
+  private invoke(owner: Sprite, callback: (...args: unknown[]) => unknown, args: unknown[], done?: (ok: boolean) => void): void {
+    const task: Task = { owner };
+    const end = (ok: boolean) => {
+      done?.(ok);
+      if (this.task === task) this.parked();
+    };
+    this.schedule(task, () => {
+      let result: unknown;
+      try {
+        result = callback(...args);
+      } catch (error) {
+        this.report(error);
+        end(false);
+        return;
+      }
+      Promise.resolve(result).then(() => end(true), error => {
+        this.report(error);
+        end(false);
+      });
+    });
+  }
+
+  // Runs a task once the ones before it have waited or ended, or now if
+  // none is running
+  private schedule(task: Task, start: () => void): void {
+    const run = () => new Promise<void>(parked => {
+      this.task = task;
+      this.parked = () => {
+        this.task = null;
+        this.queued--;
+        parked();
+      };
+      start();
+    });
+    this.queued++;
+    this.queue = this.queued === 1 ? run() : this.queue.then(run);
+  }
+
+  // The running task, which is about to wait. The next one can start.
+  private park(): Task {
+    const task = this.task ?? { owner: this.sprite };
+    if (this.task) this.parked();
+    return task;
+  }
+
+  // The sprite the running task is for
+  private get owner(): Sprite {
+    return this.task?.owner ?? this.sprite;
+  }
+
+  private report(error: unknown): void {
+    const text = error instanceof Error ? `${error.name}: ${error.message}` : `Error: ${formatValue(error)}`;
+    this.options.error?.(this.output(text, error instanceof Error ? error.stack ?? '' : ''));
+  }
+
+  // Output with the script line the innermost frame of the stack is at
+  private output(text: string, stack: string): ScriptOutput {
+    const position = scriptPosition(stack);
+    if (!position) return { text, line: null };
+    if (!this.map) return { text, line: position.line };
+    return { text, line: originalPosition(this.map, position.line, position.column)?.line ?? null };
+  }
+}
@@ -0,0 +1,179 @@
+import { transpile } from './transpiler';
+import { SpriteRuntime, RuntimeOptions, ScriptOutput } from './runtime';
+
+console.log('=== Testing Sprite Runtime ===\n');
+
+const show = (kind: string) => (output: ScriptOutput) => console.log(`${kind}${output.line !== null ? ` (line ${output.line})` : ''}: ${output.text}`);
+
+// Transpiles a script to JavaScript and starts it. Its top level can wait,
+// so it's left to finish as frames go by.
+function start(source: string, options: RuntimeOptions = {}): SpriteRuntime {
+  const { code, map } = transpile(source, { types: 'none', sourceMap: true });
+  const runtime = new SpriteRuntime({ print: show('print'), error: show('error'), ...options });
+  runtime.run(code, map);
+  return runtime;
+}
+
+async function frames(runtime: SpriteRuntime, count: number): Promise<void> {
+  for (let i = 0; i < count; i++) await runtime.frame();
+}
+
+// Test 1: Forever loops run once a frame, and velocity moves sprites
+console.log('Test 1: Frames');
+const moving = start(`
+sprite.velocity = {x: 2, y: 0}
+var ticks = 0
+func _forever()
+  ticks += 1
+  sprite.rotation += 90
+end
+on start
+  print("started")
+end
+`);
+await frames(moving, 3);
+console.log(moving.sprite.x, moving.sprite.rotation, moving.frames);
+console.log('---\n');
+
+// Test 2: Waiting on the virtual clock
+console.log('Test 2: Waiting');
+const waiting = start(`
+on timer(0.25)
+  sprite.x += 1
+end
+print("before")
+wait(0.5)
+print("half a second later")
+wait_until(sprite.x > 2)
+print("x is {sprite.x}")
+var name = ask("Name?")
+print("Hi {name}")
+`, { ask: question => `Wisp (asked ${JSON.stringify(question)})` });
+for (let i = 0; i < 4; i++) {
+  await frames(waiting, 15);
+  console.log(`${waiting.time.toFixed(2)}s: x = ${waiting.sprite.x}`);
+}
+console.log('---\n');
+
+// Test 3: Clones start on the next frame, with the clone passed in, and
+// their loops stop when they're deleted
+console.log('Test 3: Clones');
+const particles = start(`
+func _on_clone_start(clone)
+  func _forever()
+    clone.y += 1
+    clone.data.age += 1
+    if (clone.data.age >= clone.data.lifespan)
+      clone.delete()
+    end
+  end
+end
+for (var i = 0; i < 3; i++)
+  var clone = createClone()
+  clone.x = i * 10
+  clone.data = {age: 0, lifespan: 2 + i}
+end
+`);
+for (let i = 0; i < 6; i++) {
+  console.log(particles.sprites.map(sprite => `#${sprite.id} (${sprite.x}, ${sprite.y})`).join(' '));
+  await particles.frame();
+}
+console.log('---\n');
+
+// Test 4: Keys, clicks, messages, collisions and leaving the stage
+console.log('Test 4: Input and events');
+const events = start(`
+var other = createClone()
+other.x = 100
+func _forever()
+  if (key_down("RightArrow"))
+    sprite.x += 30
+  end
+end
+on key_pressed("Space")
+  print("jump")
+end
+on clicked
+  print("clicked at {sprite.x}")
+end
+on message("game_over")
+  print("game over")
+end
+func _on_collision(other_sprite)
+  print("hit #{other_sprite.id}")
+end
+on left_screen
+  print("left the stage")
+end
+`);
+events.press('Space');
+events.press('Space');
+events.release('Space');
+events.click(0, 0);
+events.click(200, 200);
+events.broadcast('game_over');
+events.press('RightArrow');
+await frames(events, 20);
+events.click(events.sprite.x, 0);
+console.log('---\n');
+
+// Test 5: Errors stop the loop that threw and point at the WispScript line
+console.log('Test 5: Errors');
+const failing = start(`
+var enemy = {}
+func _forever()
+  print("frame")
+  print(enemy.stats.hp)
+end
+`);
+await frames(failing, 3);
+const unmapped = new SpriteRuntime({ print: show('print'), error: show('error') });
+await unmapped.run(transpile('print(1)\nprint(missing_name)', { types: 'none', hostGlobals: ['missing_name'] }));
+await unmapped.run('let broken = ;');
+console.log('---\n');
+
+// Test 6: The same seed gives the same game
+console.log('Test 6: Seeds');
+const seeded = `
+func _forever()
+  sprite.x = randrange(-100, 100)
+  sprite.y = floor(random() * 10)
+end
+`;
+const positions = async (seed: number) => {
+  const runtime = start(seeded, { seed });
+  const result: string[] = [];
+  for (let i = 0; i < 3; i++) {
+    await runtime.frame();
+    result.push(`(${runtime.sprite.x.toFixed(2)}, ${runtime.sprite.y})`);
+  }
+  return result.join(' ');
+};
+console.log(await positions(7));
+console.log(await positions(7));
+console.log(await positions(8));
+console.log('---\n');
+
+// Test 7: Code after a wait still runs for its sprite, so what it clones
+// and registers is that sprite's
+console.log('Test 7: Owners after waits');
+const owners = start(`
+func _on_clone_start(clone)
+  wait(0.05)
+  if (clone.x == 100)
+    var child = createClone()
+    print("#{child.id} is a clone of #{child.cloneOf.id} at x = {child.x}")
+    child.x = 0
+    Game.every(0.05, func ()
+      print("tick for #{clone.id}")
+    end)
+  end
+end
+var first = createClone()
+first.x = 100
+`);
+await frames(owners, 12);
+owners.sprites.find(sprite => sprite.id === 2)!.delete();
+await frames(owners, 12);
+console.log(owners.sprites.map(sprite => `#${sprite.id}`).join(' '));
+console.log('---\n');
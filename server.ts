@@ -2,53 +2,212 @@ import http from 'http';
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import { transpile } from './transpiler.js';
+import { Worker } from 'worker_threads';
+import ts from 'typescript';
+import { ApiRequest, ApiResponse, Endpoint, ENDPOINTS } from './api.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-const PORT = 3000;
+const PORT = Number(process.env.PORT ?? 3000);
 
-const server = http.createServer(async (req, res) => {
-  // Serve index.html
-  if (req.method === 'GET' && req.url === '/') {
-    const filePath = path.join(__dirname, 'index.html');
+// Bodies bigger than this are refused without being read
+const MAX_BODY_BYTES = 1024 * 1024;
+
+// How long a transpile, check, format or session edit may take before it's stopped
+const COMPILE_TIMEOUT_MS = Number(process.env.COMPILE_TIMEOUT_MS ?? 5000);
+
+// Sent with every API response, so pages on other origins can use it
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+  'Access-Control-Max-Age': '86400'
+};
+
+// Modules the stage page imports, compiled to JavaScript when first asked for
+const BROWSER_MODULES = ['runtime', 'sourcemap', 'stage_worker'];
+const compiledModules = new Map<string, string>();
+
+function browserModule(name: string): string {
+  let code = compiledModules.get(name);
+  if (code === undefined) {
+    const source = fs.readFileSync(path.join(__dirname, `${name}.ts`), 'utf-8');
+    const { outputText } = ts.transpileModule(source, {
+      compilerOptions: { target: ts.ScriptTarget.ES2017, module: ts.ModuleKind.ESNext }
+    });
+    // Browsers need the extension on imports
+    code = outputText.replace(/from '(\.\/[\w]+)'/g, "from '$1.js'");
+    compiledModules.set(name, code);
+  }
+  return code;
+}
+
+interface Job {
+  request: ApiRequest;
+  done: (response: ApiResponse) => void;
+}
+
+// Requests run in a worker thread, one at a time. One that takes too long
+// ends the thread, and a new one is started for the next.
+const queue: Job[] = [];
+let worker: Worker | null = null;
+let ready = false;
+let current: Job | null = null;
+let timer: ReturnType<typeof setTimeout> | undefined;
+
+function startWorker(): Worker {
+  const url = new URL('./compile_worker.ts', import.meta.url).href;
+  // tsx doesn't load TypeScript in worker threads by itself
+  const thread = new Worker(
+    `import('tsx/esm/api').then(({ register }) => { register(); return import(${JSON.stringify(url)}); })`,
+    { eval: true }
+  );
+  ready = false;
+  thread.on('message', (message: ApiResponse | 'ready') => {
+    if (thread !== worker) return;
+    if (message === 'ready') {
+      ready = true;
+      next();
+    } else {
+      finish(message);
+    }
+  });
+  thread.on('error', error => {
+    if (thread !== worker) return;
+    worker = null;
+    finish({ status: 500, body: { error: error.message } });
+  });
+  return thread;
+}
+
+function compile(request: ApiRequest): Promise<ApiResponse> {
+  return new Promise(done => {
+    queue.push({ request, done });
+    next();
+  });
+}
+
+function next(): void {
+  if (current || queue.length === 0) return;
+  if (!worker) worker = startWorker();
+  if (!ready) return;
+  current = queue.shift()!;
+  worker.postMessage(current.request);
+  timer = setTimeout(() => {
+    worker!.terminate();
+    worker = null;
+    finish({ status: 503, body: { error: `Compiling took longer than ${COMPILE_TIMEOUT_MS} ms.` } });
+  }, COMPILE_TIMEOUT_MS);
+}
+
+function finish(response: ApiResponse): void {
+  clearTimeout(timer);
+  const job = current;
+  current = null;
+  job?.done(response);
+  next();
+}
+
+function sendJson(res: http.ServerResponse, status: number, data: object): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...CORS_HEADERS });
+  res.end(JSON.stringify(data));
+}
+
+// Reads a JSON body. Bodies that are too big or aren't JSON are answered
+// here, and done is never called.
+function readJson(req: http.IncomingMessage, res: http.ServerResponse, done: (body: unknown) => void): void {
+  const tooBig = () => {
+    res.setHeader('Connection', 'close');
+    sendJson(res, 413, { error: `Request body is larger than ${MAX_BODY_BYTES} bytes.` });
+  };
+  if (Number(req.headers['content-length']) > MAX_BODY_BYTES) {
+    tooBig();
+    req.resume();
+    return;
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size <= MAX_BODY_BYTES) chunks.push(chunk);
+  });
+  req.on('end', () => {
+    if (size > MAX_BODY_BYTES) {
+      tooBig();
+      return;
+    }
+    let body: unknown;
+    try {
+      body = JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+    } catch {
+      sendJson(res, 400, { error: 'Request body is not valid JSON.' });
+      return;
+    }
+    done(body);
+  });
+}
+
+const server = http.createServer((req, res) => {
+  const url = req.url ?? '';
+
+  // Serve index.html, and the stage it runs scripts on
+  if (req.method === 'GET' && (url === '/' || url === '/stage.html')) {
+    const filePath = path.join(__dirname, url === '/' ? 'index.html' : 'stage.html');
     const content = fs.readFileSync(filePath, 'utf-8');
     res.writeHead(200, { 'Content-Type': 'text/html' });
     res.end(content);
     return;
   }
 
-  // Handle transpile API
-  if (req.method === 'POST' && req.url === '/transpile') {
-    let body = '';
-    
-    req.on('data', chunk => {
-      body += chunk.toString();
-    });
+  // Modules for the stage. Its sandbox gives it an origin of its own, so it
+  // needs CORS headers to load them.
+  const module = /^\/lib\/(\w+)\.js$/.exec(url);
+  if (req.method === 'GET' && module && BROWSER_MODULES.includes(module[1])) {
+    res.writeHead(200, { 'Content-Type': 'text/javascript', 'Access-Control-Allow-Origin': '*' });
+    res.end(browserModule(module[1]));
+    return;
+  }
 
-    req.on('end', () => {
-      try {
-        const { source } = JSON.parse(body);
-        const result = transpile(source);
-        
-        res.writeHead(200, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ result }));
-      } catch (error) {
-        res.writeHead(200, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ 
-          error: error instanceof Error ? error.message : String(error) 
-        }));
-      }
-    });
+  if (!url.startsWith('/api/v1/')) {
+    res.writeHead(404, { 'Content-Type': 'text/plain' });
+    res.end('Not Found');
+    return;
+  }
+
+  // Browsers ask before cross-origin requests with a JSON body
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, CORS_HEADERS);
+    res.end();
+    return;
+  }
+
+  const route = url.slice('/api/v1/'.length);
+  const edit = /^sessions\/([\w-]+)$/.exec(route);
+  if (!ENDPOINTS.includes(route as Endpoint) && route !== 'sessions' && !edit) {
+    sendJson(res, 404, { error: `Unknown endpoint '${url}'.` });
+    return;
+  }
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST, OPTIONS');
+    sendJson(res, 405, { error: `Use POST for '${url}'.` });
     return;
   }
 
-  // 404
-  res.writeHead(404, { 'Content-Type': 'text/plain' });
-  res.end('Not Found');
+  // Transpile, check or format: { source, options }. Starting a live
+  // session takes the same, and editing one { changes: [{ start, end, text }] }.
+  readJson(req, res, body => {
+    const request: ApiRequest = edit
+      ? { endpoint: 'sessions', id: edit[1], body }
+      : route === 'sessions' ? { endpoint: 'sessions', id: null, body } : { endpoint: route as Endpoint, body };
+    compile(request).then(response => sendJson(res, response.status, response.body));
+  });
 });
 
+// Started now so the first request doesn't wait for it
+worker = startWorker();
+
 server.listen(PORT, () => {
   console.log(`Server running at http://localhost:${PORT}/`);
 });
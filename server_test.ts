@@ -0,0 +1,106 @@
+import { spawn } from 'child_process';
+
+console.log('=== Testing Playground Server ===\n');
+
+const PORT = 3917;
+const base = `http://localhost:${PORT}`;
+
+// A short timeout, so a long script runs past it
+const server = spawn('npx', ['tsx', 'server.ts'], {
+  env: { ...process.env, PORT: String(PORT), COMPILE_TIMEOUT_MS: '300' },
+  stdio: ['ignore', 'pipe', 'inherit'],
+  // In a group of its own, so npx and the server it starts stop together
+  detached: true
+});
+await new Promise<void>(resolve => server.stdout!.on('data', chunk => {
+  if (String(chunk).includes('Server running')) resolve();
+}));
+
+async function post(route: string, body: unknown): Promise<unknown> {
+  const response = await fetch(base + route, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: typeof body === 'string' ? body : JSON.stringify(body)
+  });
+  const data = await response.json();
+  // Session ids are random
+  console.log(response.status, JSON.stringify(data).replace(/"id":"[\w-]+"/, '"id":"..."').slice(0, 160));
+  return data;
+}
+
+try {
+  const source = 'var speed = 3\nfunc move(dx)\n  sprite.x += dx * speed\nend\n';
+
+  // Test 1: Transpiling with options
+  console.log('Test 1: Transpile');
+  await post('/api/v1/transpile', { source });
+  await post('/api/v1/transpile', { source, options: { optimize: false, types: 'none' } });
+  await post('/api/v1/transpile', { source, options: { types: 'annotated', target: 'sprite' } });
+  const mapped = await post('/api/v1/transpile', { source, options: { sourceMap: true, fileName: 'player.wisp' } }) as { map: { file: string } };
+  console.log(mapped.map.file);
+  console.log('---\n');
+
+  // Test 2: Scripts with errors get 422 with their diagnostics
+  console.log('Test 2: Diagnostics');
+  await post('/api/v1/transpile', { source: 'print(speeed)' });
+  await post('/api/v1/check', { source: 'var x = (1 +' });
+  await post('/api/v1/check', { source });
+  console.log('---\n');
+
+  // Test 3: Formatting
+  console.log('Test 3: Format');
+  await post('/api/v1/format', { source: 'func f( a )\nreturn a+1\nend' });
+  await post('/api/v1/format', { source: 'func f( a )\nreturn a+1\nend', options: { indent: '    ' } });
+  console.log('---\n');
+
+  // Test 4: Requests that can't be understood
+  console.log('Test 4: Bad requests');
+  await post('/api/v1/transpile', '{"source": ');
+  await post('/api/v1/transpile', [source]);
+  await post('/api/v1/transpile', { code: source });
+  await post('/api/v1/transpile', { source, options: { minify: true } });
+  await post('/api/v1/transpile', { source, options: { optimize: 'yes' } });
+  await post('/api/v1/transpile', { source, options: { target: 'robot' } });
+  await post('/api/v1/transpile', { source, options: { types: 'strict' } });
+  await post('/api/v1/transpile', { source: 'print(floor(1.5))', options: { target: 'hasOwnProperty' } });
+  await post('/api/v1/transpile', { source, options: { target: 'constructor' } });
+  await post('/api/v1/transpile', { source, options: { toString: 'x' } });
+  await post('/api/v1/format', { source, options: { indent: 'abc' } });
+  await post('/api/v1/compile', { source });
+  await post('/api/v1/transpile', { source: 'x'.repeat(2 * 1024 * 1024) });
+  const get = await fetch(`${base}/api/v1/transpile`);
+  console.log(get.status, get.headers.get('allow'));
+  console.log('---\n');
+
+  // Test 5: CORS
+  console.log('Test 5: CORS');
+  const preflight = await fetch(`${base}/api/v1/transpile`, { method: 'OPTIONS' });
+  console.log(preflight.status, preflight.headers.get('access-control-allow-origin'), preflight.headers.get('access-control-allow-methods'));
+  const response = await fetch(`${base}/api/v1/check`, { method: 'POST', body: JSON.stringify({ source }) });
+  console.log(response.status, response.headers.get('access-control-allow-origin'));
+  console.log('---\n');
+
+  // Test 6: A compile that runs too long is stopped, and the server goes on
+  console.log('Test 6: Timeout');
+  const long = Array.from({ length: 40000 }, (_, i) => `var v${i} = ${i} * 2`).join('\n');
+  await post('/api/v1/transpile', { source: long });
+  await post('/api/v1/transpile', { source: 'print(1 + 2)' });
+  console.log('---\n');
+
+  // Test 7: Live sessions
+  console.log('Test 7: Sessions');
+  const { id } = await post('/api/v1/sessions', { source, options: { optimize: false } }) as { id: string };
+  const at = source.indexOf('speed = 3') + 'speed = '.length;
+  await post(`/api/v1/sessions/${id}`, { changes: [{ start: at, end: at + 1, text: '5' }] });
+  await post(`/api/v1/sessions/${id}`, { changes: [{ start: 999, end: 1000, text: '' }] });
+  await post(`/api/v1/sessions/${id}`, { changes: 'speed = 5' });
+  await post('/api/v1/sessions/missing', { changes: [] });
+  await post('/api/v1/sessions', { source, options: { types: 'none' } });
+  await post('/api/v1/sessions', { source, options: { sourceMap: true } });
+  // Sessions have the same time limit, and are lost when a compile runs past it
+  await post('/api/v1/sessions', { source: long });
+  await post(`/api/v1/sessions/${id}`, { changes: [] });
+  console.log('---\n');
+} finally {
+  process.kill(-server.pid!);
+}
@@ -0,0 +1,172 @@
+import { transpile, AnalyzeOptions } from './transpiler';
+import { SpriteRuntime, Sprite, ScriptOutput, Key } from './runtime';
+
+/**
+ * Plays a script headless, for testing game logic: it's transpiled to
+ * JavaScript and run on SpriteRuntime a frame at a time, with a fixed
+ * random seed, so the same steps and input always give the same frames.
+ */
+
+export interface SimulationOptions extends AnalyzeOptions {
+  // Seeds random() and randrange() (default 0)
+  seed?: number;
+  // Answers ask() gets, in order. Once they run out, answers are empty.
+  answers?: string[];
+  // Name of the WispScript file, for the source map
+  fileName?: string;
+}
+
+export interface SpriteSnapshot {
+  id: number;
+  // The id of the sprite it's a clone of, or null if it isn't one
+  cloneOf: number | null;
+  x: number;
+  y: number;
+  rotation: number;
+  costume: string;
+  visible: boolean;
+  transparency: number;
+  velocity: { x: number; y: number };
+  // A copy, with sprites in it replaced by { sprite: id }
+  data: any;
+  text: string | null;
+}
+
+export interface FrameSnapshot {
+  // 0 for the state before the first frame
+  frame: number;
+  time: number;
+  // The script's own sprite, or null once it's deleted
+  sprite: SpriteSnapshot | null;
+  // Every sprite on the stage, and just the clones among them
+  sprites: SpriteSnapshot[];
+  clones: SpriteSnapshot[];
+  // What print() wrote and the errors thrown during the frame, with
+  // WispScript lines
+  output: ScriptOutput[];
+  errors: ScriptOutput[];
+}
+
+// Copies what a script keeps in data, which can't hold on to live sprites
+function copyData(value: unknown, seen: unknown[] = []): unknown {
+  if (value instanceof Sprite) return { sprite: value.id };
+  if (typeof value === 'function') return undefined;
+  if (typeof value !== 'object' || value === null) return value;
+  if (seen.includes(value)) return null;
+  const inner = [...seen, value];
+  if (Array.isArray(value)) return value.map(item => copyData(item, inner));
+  const copy: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) copy[key] = copyData(item, inner);
+  return copy;
+}
+
+function snapshotOf(sprite: Sprite): SpriteSnapshot {
+  return {
+    id: sprite.id,
+    cloneOf: sprite.cloneOf?.id ?? null,
+    x: sprite.x,
+    y: sprite.y,
+    rotation: sprite.rotation,
+    costume: sprite.costume,
+    visible: sprite.visible,
+    transparency: sprite.transparency,
+    velocity: { x: sprite.velocity?.x ?? 0, y: sprite.velocity?.y ?? 0 },
+    data: copyData(sprite.data),
+    text: sprite.text
+  };
+}
+
+export class Simulation {
+  readonly runtime: SpriteRuntime;
+  // A snapshot for every frame so far, starting with frame 0
+  readonly frames: FrameSnapshot[] = [];
+  private output: ScriptOutput[] = [];
+  private errors: ScriptOutput[] = [];
+
+  /**
+   * Transpiles a script and runs its top level as far as it goes without
+   * time passing, which is frame 0
+   * @throws TranspileError if the script has errors
+   */
+  static async create(source: string, options: SimulationOptions = {}): Promise<Simulation> {
+    const simulation = new Simulation(source, options);
+    await simulation.runtime.idle();
+    simulation.frames.push(simulation.snapshot());
+    return simulation;
+  }
+
+  private constructor(source: string, options: SimulationOptions) {
+    const { code, map } = transpile(source, { ...options, types: 'none', sourceMap: true });
+    const answers = [...options.answers ?? []];
+    this.runtime = new SpriteRuntime({
+      seed: options.seed ?? 0,
+      print: output => this.output.push(output),
+      error: output => this.errors.push(output),
+      ask: () => answers.shift() ?? ''
+    });
+    this.runtime.run(code, map);
+  }
+
+  // The latest frame
+  get current(): FrameSnapshot {
+    return this.frames[this.frames.length - 1];
+  }
+
+  // Runs frames one after another, returning the last
+  async step(count: number = 1): Promise<FrameSnapshot> {
+    for (let i = 0; i < count; i++) {
+      await this.runtime.frame();
+      this.frames.push(this.snapshot());
+    }
+    return this.current;
+  }
+
+  /**
+   * Holds a key down until it's released. Its on key_pressed handlers run
+   * now, and key_down() sees it from the next frame.
+   * @throws RangeError for a key the runtime doesn't have
+   */
+  press(key: string): void {
+    this.runtime.press(this.key(key));
+  }
+
+  release(key: string): void {
+    this.runtime.release(this.key(key));
+  }
+
+  // Presses a key for a number of frames, then lets go of it
+  async hold(key: string, frames: number): Promise<FrameSnapshot> {
+    this.press(key);
+    const snapshot = await this.step(frames);
+    this.release(key);
+    return snapshot;
+  }
+
+  click(x: number, y: number): void {
+    this.runtime.click(x, y);
+  }
+
+  broadcast(name: string): void {
+    this.runtime.broadcast(name);
+  }
+
+  private key(name: string): string {
+    if (!Object.prototype.hasOwnProperty.call(Key, name)) {
+      throw new RangeError(`Unknown key '${name}'. Keys are named like key_down's, e.g. 'Space' or 'UpArrow'.`);
+    }
+    return Key[name];
+  }
+
+  private snapshot(): FrameSnapshot {
+    const sprites = this.runtime.sprites.map(snapshotOf);
+    return {
+      frame: this.runtime.frames,
+      time: this.runtime.time,
+      sprite: sprites.find(sprite => sprite.id === this.runtime.sprite.id) ?? null,
+      sprites,
+      clones: sprites.filter(sprite => sprite.cloneOf !== null),
+      output: this.output.splice(0),
+      errors: this.errors.splice(0)
+    };
+  }
+}
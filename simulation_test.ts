@@ -0,0 +1,140 @@
+import { Simulation, FrameSnapshot } from './simulation';
+import { TranspileError } from './transpiler';
+import { formatDiagnostic } from './diagnostics';
+
+console.log('=== Testing Simulations ===\n');
+
+// The particle system from the playground's sample
+const particles = `
+func vector(x, y)
+  return {x: x, y: y}
+end
+
+var MIN_PARTICLES = 5
+var MAX_PARTICLES = 12
+
+func particles(costumeName, x, y)
+  var particleCount = floor(randrange(MIN_PARTICLES, MAX_PARTICLES))
+  for (var i = 0; i < particleCount; i++)
+    var clone = createClone()
+    clone.x = x
+    clone.y = y
+    clone.costume = costumeName
+    var dx = randrange(-50, 50)
+    var dy = randrange(-50, 50)
+    var distance = sqrt(dx * dx + dy * dy) or 1
+    var speed = randrange(1.5, 3)
+    clone.data = {vx: (dx / distance) * speed, vy: (dy / distance) * speed, lifespan: randrange(15, 35), age: 0}
+  end
+end
+
+func _on_clone_start(clone)
+  func _forever()
+    clone.x += clone.data.vx
+    clone.y += clone.data.vy
+    clone.data.age += 1
+    clone.transparency = (clone.data.age / clone.data.lifespan) * 100
+    if (clone.data.age >= clone.data.lifespan)
+      clone.delete()
+    end
+  end
+end
+
+global func spawn_particles(costumeName, x, y)
+  particles(costumeName, x, y)
+end
+
+func _forever()
+  var position = vector(randrange(-300, 300), randrange(-300, 300))
+  global spawn_particles("Wispy", position.x, position.y)
+  print("burst at {floor(position.x)}, {floor(position.y)}")
+  wait(2)
+end
+`;
+
+function describe(frame: FrameSnapshot): string {
+  return `frame ${frame.frame} (${frame.time.toFixed(2)}s): ${frame.clones.length} clones`;
+}
+
+// Test 1: Every particle of a burst fades out and is deleted within its
+// lifespan, before the next burst
+console.log('Test 1: Particles');
+const simulation = await Simulation.create(particles, { seed: 3 });
+console.log(describe(await simulation.step()));
+console.log(describe(await simulation.step()));
+const first = simulation.current.clones;
+console.log(first.every(clone => clone.data.age === 1 && clone.costume === 'Wispy' && clone.cloneOf === 1));
+console.log(describe(await simulation.step(35)));
+console.log(simulation.frames.slice(2, 37).every(frame => frame.clones.every(clone => clone.transparency <= 100)));
+console.log(describe(await simulation.step(84)));
+console.log(describe(await simulation.step()));
+console.log(simulation.frames.flatMap(frame => frame.output.map(output => `line ${output.line}: ${output.text}`)));
+console.log(simulation.frames.every(frame => frame.errors.length === 0));
+console.log('---\n');
+
+// Test 2: The same seed plays the same way
+console.log('Test 2: Seeds');
+const positions = async (seed: number) => {
+  const run = await Simulation.create(particles, { seed });
+  await run.step(2);
+  return run.current.clones.map(clone => `(${clone.x.toFixed(1)}, ${clone.y.toFixed(1)})`).slice(0, 3).join(' ');
+};
+console.log(await positions(3));
+console.log(await positions(3));
+console.log(await positions(4));
+console.log('---\n');
+
+// Test 3: Key presses
+console.log('Test 3: Keys');
+const player = await Simulation.create(`
+var jumps = 0
+func _forever()
+  if (key_down("RightArrow"))
+    sprite.x += 5
+  end
+  if (key_down("LeftArrow"))
+    sprite.x -= 5
+  end
+end
+on key_pressed("Space")
+  jumps += 1
+  sprite.data = {jumps: jumps}
+  print("jump {jumps}")
+end
+`);
+await player.hold('RightArrow', 10);
+console.log(player.current.sprite?.x);
+await player.hold('LeftArrow', 4);
+console.log(player.current.sprite?.x);
+player.press('Space');
+player.release('Space');
+player.press('Space');
+console.log((await player.step()).output.map(output => output.text), player.current.sprite?.data);
+try {
+  player.press('Spacebar');
+} catch (error) {
+  console.log((error as Error).message);
+}
+console.log('---\n');
+
+// Test 4: Errors, answers and scripts that don't compile
+console.log('Test 4: Errors and answers');
+const quiz = await Simulation.create(`
+var name = ask("Name?")
+print("Hello {name}")
+var enemy = {}
+func _forever()
+  enemy.stats.hp -= 1
+end
+`, { answers: ['Wisp'] });
+const frame = await quiz.step(2);
+console.log(quiz.frames.map(snapshot => snapshot.output.map(output => output.text)));
+console.log(quiz.frames.flatMap(snapshot => snapshot.errors).map(error => `line ${error.line}: ${error.text}`));
+console.log(frame.frame);
+try {
+  await Simulation.create('print(missing)');
+} catch (error) {
+  if (!(error instanceof TranspileError)) throw error;
+  error.diagnostics.forEach(diagnostic => console.log(formatDiagnostic(diagnostic)));
+}
+console.log('---\n');
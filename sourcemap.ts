@@ -0,0 +1,143 @@
+// Source Map v3 support for generated TypeScript
+// https://sourcemaps.info/spec.html
+
+export interface SourceMap {
+  version: 3;
+  file: string;
+  sources: string[];
+  sourcesContent: string[];
+  names: string[];
+  mappings: string;
+}
+
+// Lines and columns here are 0-based, as the spec stores them
+interface Mapping {
+  generatedLine: number;
+  generatedColumn: number;
+  originalLine: number;
+  originalColumn: number;
+}
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+export function encodeVLQ(value: number): string {
+  // The sign goes in the lowest bit
+  let vlq = value < 0 ? ((-value) << 1) | 1 : value << 1;
+  let encoded = '';
+
+  do {
+    let digit = vlq & 31;
+    vlq >>>= 5;
+    if (vlq > 0) digit |= 32; // continuation bit
+    encoded += BASE64[digit];
+  } while (vlq > 0);
+
+  return encoded;
+}
+
+// The values of one segment of a mappings string
+export function decodeVLQ(segment: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+  for (const char of segment) {
+    const digit = BASE64.indexOf(char);
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+    } else {
+      values.push(value & 1 ? -(value >> 1) : value >> 1);
+      value = 0;
+      shift = 0;
+    }
+  }
+  return values;
+}
+
+/**
+ * Finds where a position in the generated code came from: the source
+ * position of the closest mapping at or before it. Lines and columns are
+ * 1-based, like a diagnostic's.
+ */
+export function originalPosition(map: SourceMap, line: number, column: number): { line: number; column: number } | null {
+  let originalLine = 0;
+  let originalColumn = 0;
+  let found: { line: number; column: number } | null = null;
+
+  const lines = map.mappings.split(';');
+  for (let generatedLine = 0; generatedLine < line && generatedLine < lines.length; generatedLine++) {
+    let generatedColumn = 0;
+    for (const segment of lines[generatedLine].split(',')) {
+      if (segment === '') continue;
+      const values = decodeVLQ(segment);
+      generatedColumn += values[0];
+      // Segments that only have a generated column map to no source
+      if (values.length < 4) continue;
+      originalLine += values[2];
+      originalColumn += values[3];
+      if (generatedLine === line - 1 && generatedColumn > column - 1) return found;
+      found = { line: originalLine + 1, column: originalColumn + 1 };
+    }
+  }
+  return found;
+}
+
+export class SourceMapBuilder {
+  private mappings: Mapping[] = [];
+
+  constructor(
+    private file: string,
+    private sourceFile: string,
+    private sourceContent: string
+  ) {}
+
+  addMapping(generatedLine: number, generatedColumn: number, originalLine: number, originalColumn: number): void {
+    this.mappings.push({ generatedLine, generatedColumn, originalLine, originalColumn });
+  }
+
+  toJSON(): SourceMap {
+    const sorted = [...this.mappings].sort((a, b) =>
+      a.generatedLine - b.generatedLine || a.generatedColumn - b.generatedColumn
+    );
+
+    // Every field except the generated column is relative to the previous
+    // segment in the whole map; the generated column resets on each line
+    let previousOriginalLine = 0;
+    let previousOriginalColumn = 0;
+    const lines: string[] = [];
+
+    let lineIndex = 0;
+    let previousGeneratedColumn = 0;
+    let segments: string[] = [];
+
+    for (const mapping of sorted) {
+      while (lineIndex < mapping.generatedLine) {
+        lines.push(segments.join(','));
+        segments = [];
+        previousGeneratedColumn = 0;
+        lineIndex++;
+      }
+
+      segments.push(
+        encodeVLQ(mapping.generatedColumn - previousGeneratedColumn) +
+        encodeVLQ(0) + // only one source
+        encodeVLQ(mapping.originalLine - previousOriginalLine) +
+        encodeVLQ(mapping.originalColumn - previousOriginalColumn)
+      );
+
+      previousGeneratedColumn = mapping.generatedColumn;
+      previousOriginalLine = mapping.originalLine;
+      previousOriginalColumn = mapping.originalColumn;
+    }
+    lines.push(segments.join(','));
+
+    return {
+      version: 3,
+      file: this.file,
+      sources: [this.sourceFile],
+      sourcesContent: [this.sourceContent],
+      names: [],
+      mappings: lines.join(';')
+    };
+  }
+}
@@ -0,0 +1,67 @@
+import { transpile } from './transpiler';
+import { encodeVLQ, decodeVLQ } from './sourcemap';
+
+console.log('=== Testing Source Maps ===\n');
+
+// Decodes a mappings string into [generatedLine, generatedColumn, originalLine, originalColumn]
+function decodeMappings(mappings: string): number[][] {
+  const result: number[][] = [];
+  let originalLine = 0;
+  let originalColumn = 0;
+
+  mappings.split(';').forEach((line, generatedLine) => {
+    let generatedColumn = 0;
+    if (line === '') return;
+
+    for (const segment of line.split(',')) {
+      const values = decodeVLQ(segment);
+      generatedColumn += values[0];
+      originalLine += values[2];
+      originalColumn += values[3];
+      result.push([generatedLine, generatedColumn, originalLine, originalColumn]);
+    }
+  });
+
+  return result;
+}
+
+// Test 1: VLQ encoding
+console.log('Test 1: VLQ encoding');
+[0, 1, -1, 15, 16, -16, 1000].forEach(value => {
+  console.log(`  ${value} -> ${encodeVLQ(value)}`);
+});
+console.log('---\n');
+
+// Test 2: Map a small program back to its source
+console.log('Test 2: Generated positions map back to WispScript');
+const test2 = `var speed = 5
+
+func move(dx)
+  sprite.x += dx * speed
+  if (sprite.x > 400)
+    sprite.x = 0
+  end
+end
+
+move(speed)`;
+// Unoptimized, so every statement maps one-to-one
+const result = transpile(test2, { sourceMap: true, fileName: 'player.wisp', optimize: false });
+console.log('Output:');
+console.log(result.code);
+console.log('Map:');
+console.log(JSON.stringify({ ...result.map, sourcesContent: ['...'] }, null, 2));
+
+const sourceLines = test2.split('\n');
+const codeLines = result.code.split('\n');
+console.log('Decoded mappings:');
+decodeMappings(result.map.mappings).forEach(([genLine, genCol, origLine, origCol]) => {
+  const generated = codeLines[genLine].slice(genCol, genCol + 12);
+  const original = sourceLines[origLine].slice(origCol, origCol + 12);
+  console.log(`  ${genLine + 1}:${genCol + 1} '${generated}' <- ${origLine + 1}:${origCol + 1} '${original}'`);
+});
+console.log('---\n');
+
+// Test 3: Output is identical with and without a map
+console.log('Test 3: Code is unchanged when mapping');
+console.log(transpile(test2, { optimize: false }) === result.code ? 'identical' : 'DIFFERENT');
+console.log('---\n');
@@ -0,0 +1,67 @@
+import { SpriteRuntime, FRAME_RATE } from './runtime';
+
+// Runs a script for stage.html, in a worker so a script that never waits
+// can be stopped by ending the worker. The stage posts { type: 'run', code,
+// map, canvas } with an OffscreenCanvas to draw on, then input as
+// { type: 'press' | 'release', key } and { type: 'click', x, y }. It gets
+// back { type: 'print' | 'error', text, line } and { type: 'ask', question },
+// which it answers with { type: 'answer', text }.
+
+interface Scope {
+  postMessage(message: unknown): void;
+  onmessage: ((event: { data: any }) => void) | null;
+  requestAnimationFrame?: (callback: () => void) => void;
+}
+
+const scope = self as unknown as Scope;
+let runtime: SpriteRuntime | null = null;
+// Tasks waiting on ask(), in the order they asked. The stage answers in
+// the same order.
+const answers: Array<(text: string) => void> = [];
+
+// Workers in some browsers don't have requestAnimationFrame
+function nextFrame(): Promise<void> {
+  return new Promise(resolve => {
+    if (scope.requestAnimationFrame) scope.requestAnimationFrame(resolve);
+    else setTimeout(resolve, 1000 / FRAME_RATE);
+  });
+}
+
+async function play(current: SpriteRuntime, context: OffscreenCanvasRenderingContext2D): Promise<void> {
+  for (;;) {
+    await current.frame();
+    current.draw(context);
+    await nextFrame();
+  }
+}
+
+scope.onmessage = ({ data }) => {
+  switch (data.type) {
+    case 'run': {
+      runtime = new SpriteRuntime({
+        print: output => scope.postMessage({ type: 'print', ...output }),
+        error: output => scope.postMessage({ type: 'error', ...output }),
+        // The stage asks, since workers can't show a prompt
+        ask: question => new Promise<string>(resolve => {
+          answers.push(resolve);
+          scope.postMessage({ type: 'ask', question });
+        })
+      });
+      runtime.run(data.code, data.map);
+      play(runtime, (data.canvas as OffscreenCanvas).getContext('2d')!);
+      break;
+    }
+    case 'answer':
+      answers.shift()?.(data.text);
+      break;
+    case 'press':
+      runtime?.press(data.key);
+      break;
+    case 'release':
+      runtime?.release(data.key);
+      break;
+    case 'click':
+      runtime?.click(data.x, data.y);
+      break;
+  }
+};
@@ -0,0 +1,63 @@
+import { transpile, TranspileError } from './transpiler';
+import { run } from './interpreter';
+import { formatDiagnostic } from './diagnostics';
+
+console.log('=== Testing Strings ===\n');
+
+function show(code: string) {
+  console.log('Input:');
+  console.log(code);
+  console.log('Output:');
+  try {
+    console.log(transpile(code, { optimize: false }));
+    console.log('Optimized:');
+    console.log(transpile(code));
+    console.log('Runs as:');
+    run(code);
+  } catch (error) {
+    if (!(error instanceof TranspileError)) throw error;
+    error.diagnostics.forEach(diagnostic => console.log(formatDiagnostic(diagnostic)));
+  }
+  console.log('---\n');
+}
+
+// Test 1: Escape sequences
+console.log('Test 1: Escapes');
+show(String.raw`
+print("Name:\t\"Wisp\"\nLevel:\t1")
+print('It\'s a "quote"')
+print("back\\slash and \{braces\}")
+`);
+
+// Test 2: Strings can span lines, or continue on the next one after a backslash
+console.log('Test 2: Multi-line strings');
+show(String.raw`
+var help = "Arrows to move
+Space to jump"
+var long = "one, \
+two"
+print(help)
+print(long)
+`);
+
+// Test 3: Interpolation
+console.log('Test 3: Interpolation');
+show(`
+var score = 0
+var player = {name: "Wisp", lives: 3}
+score += 25
+print("Score: {score}")
+print('{player.name} has {player.lives} lives, {player.lives * 100} points')
+print("Best: {max(score, 10)}, level {"{1 + 1}"}")
+print("Bonus: {10 * 5}")
+`);
+
+// Test 4: Text that means something in a template literal is escaped
+console.log('Test 4: Template literal escaping');
+show('var cost = 5\nprint("Price: $\\{cost} is `{cost}` in \\\\{cost}")');
+
+// Test 5: Mistakes in strings
+console.log('Test 5: Errors');
+show(String.raw`print("Path: C:\games")`);
+show('print("Lives: {}")');
+show('var lives = 3\nprint("Lives: {lives")');
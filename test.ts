@@ -6,7 +6,8 @@ function runTest(name: string, wispCode: string, expectedOutput?: string) {
   console.log(wispCode);
   
   try {
-    const result = transpile(wispCode);
+    // Unoptimized, so expressions come out as written
+    const result = transpile(wispCode, { optimize: false });
     console.log('TypeScript:');
     console.log(result);
     
@@ -2,6 +2,8 @@ export enum TokenType {
   // Literals
   NUMBER = 'NUMBER',
   STRING = 'STRING',
+  // The text of a string up to an interpolated expression, e.g. `"Score: {`
+  INTERPOLATION = 'INTERPOLATION',
   IDENTIFIER = 'IDENTIFIER',
   TRUE = 'TRUE',
   FALSE = 'FALSE',
@@ -22,12 +24,32 @@ export enum TokenType {
   WHILE = 'WHILE',
   IN = 'IN',
   GLOBAL = 'GLOBAL',
+  BREAK = 'BREAK',
+  CONTINUE = 'CONTINUE',
+  IMPORT = 'IMPORT',
+  EXPORT = 'EXPORT',
+  CLASS = 'CLASS',
+  NEW = 'NEW',
+  SELF = 'SELF',
+  SUPER = 'SUPER',
+  ON = 'ON',
   
   // Operators
   PLUS = 'PLUS',
   MINUS = 'MINUS',
   MULTIPLY = 'MULTIPLY',
   DIVIDE = 'DIVIDE',
+  MODULO = 'MODULO',
+  // ~/ divides and rounds down
+  FLOOR_DIVIDE = 'FLOOR_DIVIDE',
+  POWER = 'POWER',
+
+  // Bitwise operators
+  BIT_AND = 'BIT_AND',
+  BIT_OR = 'BIT_OR',
+  BIT_XOR = 'BIT_XOR',
+  SHIFT_LEFT = 'SHIFT_LEFT',
+  SHIFT_RIGHT = 'SHIFT_RIGHT',
   
   // Comparison operators
   GREATER = 'GREATER',
@@ -41,8 +63,12 @@ export enum TokenType {
   EQUAL = 'EQUAL',
   PLUS_EQUAL = 'PLUS_EQUAL',
   MINUS_EQUAL = 'MINUS_EQUAL',
+  MULTIPLY_EQUAL = 'MULTIPLY_EQUAL',
+  DIVIDE_EQUAL = 'DIVIDE_EQUAL',
+  MODULO_EQUAL = 'MODULO_EQUAL',
   PLUS_PLUS = 'PLUS_PLUS',
   MINUS_MINUS = 'MINUS_MINUS',
+  ARROW = 'ARROW',
   LEFT_PAREN = 'LEFT_PAREN',
   RIGHT_PAREN = 'RIGHT_PAREN',
   LEFT_BRACKET = 'LEFT_BRACKET',
@@ -63,6 +89,19 @@ export interface Token {
   lexeme: string;
   literal: any;
   line: number;
+  // 1-based column and 0-based source offset of the first character
+  column: number;
+  offset: number;
+}
+
+// A // or /* */ comment. The lexer keeps these out of the tokens, in
+// Lexer.comments, for tools that print the source back out.
+export interface Comment {
+  // The whole comment, including the // or /* */
+  text: string;
+  line: number;
+  column: number;
+  offset: number;
 }
 
 export class TokenImpl implements Token {
@@ -70,7 +109,9 @@ export class TokenImpl implements Token {
     public type: TokenType,
     public lexeme: string,
     public literal: any,
-    public line: number
+    public line: number,
+    public column: number,
+    public offset: number
   ) {}
 
   toString(): string {
@@ -1,31 +1,144 @@
 import { Lexer } from './lexer';
 import { Parser } from './parser';
-import { TypeScriptGenerator } from './generator';
+import { TypeScriptGenerator, TypeMode } from './generator';
+import { Resolver } from './resolver';
+import { TypeInferrer, TypeInfo } from './types';
+import { Optimizer } from './optimizer';
+import { Diagnostic, DiagnosticError, formatDiagnostic } from './diagnostics';
+import { SourceMap } from './sourcemap';
+import { Stmt } from './ast';
+import { Bindings } from './bindings';
+
+export interface AnalyzeOptions {
+  // Names the host engine provides; defaults to DEFAULT_HOST_GLOBALS
+  hostGlobals?: readonly string[];
+  // How built-in functions and hooks compile and run; defaults to SPRITE_ENGINE
+  bindings?: Bindings;
+}
+
+export interface Analysis {
+  statements: Stmt[];
+  resolver: Resolver;
+  types: TypeInfo;
+}
+
+export interface TranspileOptions extends AnalyzeOptions {
+  // Also return a v3 source map for the generated code
+  sourceMap?: boolean;
+  // Name of the WispScript file, used for the map's sources and file fields
+  fileName?: string;
+  // Fold constants and remove dead code (default true). Turn off for debug
+  // builds that should match the source statement for statement.
+  optimize?: boolean;
+  // How declarations are typed (default 'inferred'); 'none' gives JavaScript
+  types?: TypeMode;
+}
+
+export interface TranspileResult {
+  code: string;
+  map: SourceMap;
+}
+
+/**
+ * Thrown when a script has errors. Carries every diagnostic found, not just the first.
+ */
+export class TranspileError extends Error {
+  constructor(public diagnostics: Diagnostic[]) {
+    super(`Transpilation failed: ${diagnostics.map(formatDiagnostic).join('\n')}`);
+    this.name = 'TranspileError';
+  }
+}
+
+/**
+ * Runs every check on a script without generating code: lexing, parsing,
+ * name resolution and type checking
+ * @throws TranspileError listing all diagnostics of the first stage that failed
+ */
+export function analyze(source: string, options: AnalyzeOptions = {}): Analysis {
+  // Lexical analysis
+  const lexer = new Lexer(source);
+  const tokens = lexer.scanTokens();
+
+  // Parsing
+  const parser = new Parser(tokens);
+  const statements = parser.parse();
+
+  const diagnostics = [...lexer.errors, ...parser.errors]
+    .sort((a, b) => a.span.start.offset - b.span.start.offset);
+  if (diagnostics.length > 0) {
+    throw new TranspileError(diagnostics);
+  }
+
+  // Semantic analysis. Only runs on a complete tree, since statements the
+  // parser skipped would show up as undefined names.
+  const resolver = new Resolver({ hostGlobals: options.hostGlobals, bindings: options.bindings });
+  resolver.resolve(statements);
+  if (resolver.errors.length > 0) {
+    throw new TranspileError(resolver.errors);
+  }
+
+  const inferrer = new TypeInferrer(resolver.resolutions, options.bindings);
+  const types = inferrer.infer(statements);
+  if (inferrer.errors.length > 0) {
+    throw new TranspileError(inferrer.errors);
+  }
+
+  return { statements, resolver, types };
+}
 
 /**
  * Transpiles WispScript source code to TypeScript
  * @param source The WispScript source code
+ * @param options Pass `sourceMap: true` to get `{ code, map }` back
  * @returns The generated TypeScript code
+ * @throws TranspileError listing all lexing, parsing, resolution, type and generation diagnostics
  */
-export function transpile(source: string): string {
+export function transpile(source: string, options?: TranspileOptions & { sourceMap?: false }): string;
+export function transpile(source: string, options: TranspileOptions & { sourceMap: true }): TranspileResult;
+export function transpile(source: string, options?: TranspileOptions): string | TranspileResult;
+export function transpile(source: string, options: TranspileOptions = {}): string | TranspileResult {
+  return emit(analyze(source, options), source, options);
+}
+
+/**
+ * Generates TypeScript for a script that has already been analyzed, e.g.
+ * one loaded by ModuleLoader
+ * @throws TranspileError if code generation fails
+ */
+export function emit(analysis: Analysis, source: string, options?: TranspileOptions & { sourceMap?: false }): string;
+export function emit(analysis: Analysis, source: string, options: TranspileOptions & { sourceMap: true }): TranspileResult;
+export function emit(analysis: Analysis, source: string, options?: TranspileOptions): string | TranspileResult;
+export function emit(analysis: Analysis, source: string, options: TranspileOptions = {}): string | TranspileResult {
+  const { statements, resolver, types } = analysis;
+
+  // Optimization
+  const program = options.optimize === false
+    ? statements
+    : new Optimizer(resolver.resolutions, resolver.reassigned).optimize(statements);
+
   try {
-    // Lexical analysis
-    const lexer = new Lexer(source);
-    const tokens = lexer.scanTokens();
-    
-    // Parsing
-    const parser = new Parser(tokens);
-    const statements = parser.parse();
-    
     // Code generation
-    const generator = new TypeScriptGenerator();
-    const result = generator.generate(statements);
-    
+    const generator = new TypeScriptGenerator(types, options.bindings, options.types);
+
+    if (options.sourceMap) {
+      const sourceFile = options.fileName ?? 'input.wisp';
+      return generator.generateWithSourceMap(program, {
+        file: sourceFile.replace(/\.wisp$/, '') + '.ts',
+        sourceFile,
+        source
+      });
+    }
+
+    const result = generator.generate(program);
+
     return result;
   } catch (error) {
-    throw new Error(`Transpilation failed: ${error instanceof Error ? error.message : error}`);
+    if (error instanceof DiagnosticError) {
+      throw new TranspileError([error.diagnostic]);
+    }
+    throw error;
   }
 }
 
 // Re-export the main function for convenience
-export { transpile as default };
\ No newline at end of file
+export { transpile as default };
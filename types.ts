@@ -0,0 +1,795 @@
+import { Token, TokenType } from './tokens';
+import { Diagnostic, DiagnosticCode, createDiagnostic, tokenSpan } from './diagnostics';
+import {
+  Expr, Stmt, ExprVisitor, StmtVisitor,
+  Binary, Unary, Literal, Variable, Call, Get, Assign, Set, Logical, Index, IndexSet, Template, Lambda, New, Self, Super,
+  Var, Expression, Print, Function, Return, If, While, For, ForIn, Break, Continue, Import, Export, Class, On,
+  TypeAnnotation, ListType, ObjectType
+} from './ast';
+import { Bindings, SPRITE_ENGINE, functionBinding, eventBinding, hookBinding } from './bindings';
+
+export type WispType =
+  // Nothing has flowed in yet, e.g. a parameter of a function never called
+  | { kind: 'unknown' }
+  | { kind: 'number' }
+  | { kind: 'string' }
+  | { kind: 'boolean' }
+  | { kind: 'void' }
+  | { kind: 'any' }
+  | { kind: 'list'; element: WispType }
+  | { kind: 'object'; fields: Map<string, WispType> };
+
+export const UNKNOWN: WispType = { kind: 'unknown' };
+export const NUMBER: WispType = { kind: 'number' };
+export const STRING: WispType = { kind: 'string' };
+export const BOOLEAN: WispType = { kind: 'boolean' };
+export const VOID: WispType = { kind: 'void' };
+export const ANY: WispType = { kind: 'any' };
+
+export function listOf(element: WispType): WispType {
+  return { kind: 'list', element };
+}
+
+export function objectOf(fields: Map<string, WispType>): WispType {
+  return { kind: 'object', fields };
+}
+
+/**
+ * Returns the narrowest type that covers both a and b. Types that don't
+ * fit together become any.
+ */
+export function unify(a: WispType, b: WispType): WispType {
+  if (a.kind === 'unknown') return b;
+  if (b.kind === 'unknown') return a;
+
+  if (a.kind === 'list' && b.kind === 'list') {
+    return listOf(unify(a.element, b.element));
+  }
+
+  if (a.kind === 'object' && b.kind === 'object') {
+    if (a.fields.size !== b.fields.size) return ANY;
+    const fields = new Map<string, WispType>();
+    for (const [name, type] of a.fields) {
+      const other = b.fields.get(name);
+      if (!other) return ANY;
+      fields.set(name, unify(type, other));
+    }
+    return objectOf(fields);
+  }
+
+  return a.kind === b.kind ? a : ANY;
+}
+
+export function sameType(a: WispType, b: WispType): boolean {
+  if (a.kind === 'list' && b.kind === 'list') return sameType(a.element, b.element);
+  if (a.kind === 'object' && b.kind === 'object') {
+    if (a.fields.size !== b.fields.size) return false;
+    for (const [name, type] of a.fields) {
+      const other = b.fields.get(name);
+      if (!other || !sameType(type, other)) return false;
+    }
+    return true;
+  }
+  return a.kind === b.kind;
+}
+
+export function typeToString(type: WispType): string {
+  switch (type.kind) {
+    case 'unknown':
+      return 'any';
+    case 'list':
+      return `${typeToString(type.element)}[]`;
+    case 'object': {
+      if (type.fields.size === 0) return '{}';
+      const fields = [...type.fields].map(([name, fieldType]) => `${name}: ${typeToString(fieldType)}`);
+      return `{ ${fields.join('; ')} }`;
+    }
+    default:
+      return type.kind;
+  }
+}
+
+// Spells a type the way it's written in WispScript, for diagnostics
+export function formatType(type: WispType): string {
+  switch (type.kind) {
+    case 'unknown':
+      return 'any';
+    case 'boolean':
+      return 'bool';
+    case 'list':
+      return `list<${formatType(type.element)}>`;
+    case 'object': {
+      const fields = [...type.fields].map(([name, fieldType]) => `${name}: ${formatType(fieldType)}`);
+      return `{${fields.join(', ')}}`;
+    }
+    default:
+      return type.kind;
+  }
+}
+
+export function fromAnnotation(annotation: TypeAnnotation): WispType {
+  if (annotation instanceof ListType) return listOf(fromAnnotation(annotation.element));
+  if (annotation instanceof ObjectType) {
+    const fields = new Map<string, WispType>();
+    annotation.fields.forEach(field => fields.set(field.name.lexeme, fromAnnotation(field.type)));
+    return objectOf(fields);
+  }
+
+  switch (annotation.name.lexeme) {
+    case 'number': return NUMBER;
+    case 'string': return STRING;
+    case 'bool': return BOOLEAN;
+    case 'void': return VOID;
+    default: return ANY;
+  }
+}
+
+/**
+ * Whether a value of type source can be stored where target is expected.
+ * Types that aren't known yet are given the benefit of the doubt.
+ */
+export function isAssignable(source: WispType, target: WispType): boolean {
+  if (source.kind === 'unknown' || source.kind === 'any' || target.kind === 'any') return true;
+
+  if (source.kind === 'list' && target.kind === 'list') {
+    return isAssignable(source.element, target.element);
+  }
+
+  if (source.kind === 'object' && target.kind === 'object') {
+    if (source.fields.size !== target.fields.size) return false;
+    for (const [name, type] of target.fields) {
+      const other = source.fields.get(name);
+      if (!other || !isAssignable(other, type)) return false;
+    }
+    return true;
+  }
+
+  return source.kind === target.kind;
+}
+
+// Lists and objects nested deeper than this become any. Keeps inference
+// finite for self-referencing assignments like x = [x].
+const MAX_DEPTH = 4;
+
+function capDepth(type: WispType, depth: number = 0): WispType {
+  if (type.kind !== 'list' && type.kind !== 'object') return type;
+  if (depth >= MAX_DEPTH) return ANY;
+
+  if (type.kind === 'list') return listOf(capDepth(type.element, depth + 1));
+  const fields = new Map<string, WispType>();
+  type.fields.forEach((fieldType, name) => fields.set(name, capDepth(fieldType, depth + 1)));
+  return objectOf(fields);
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+export interface TypeInfo {
+  // Type of a var, parameter or loop variable, by its declaring token
+  typeOf(declaration: Token): WispType;
+  returnTypeOf(fn: Function): WispType;
+  // Whether a function calls something that suspends, like wait(), so has
+  // to be async. Event handlers and hooks are always async.
+  isAsync(fn: Function | Lambda): boolean;
+  // Whether a call has to be awaited
+  awaits(call: Call): boolean;
+  // Fields a class's methods assign through self without declaring them
+  undeclaredFieldsOf(cls: Class): string[];
+}
+
+/**
+ * Infers types for vars, function parameters and return values.
+ *
+ * A declaration's type is everything that flows into it: its initializer,
+ * assignments, and for parameters the arguments at every call site. Those
+ * depend on each other, so the whole program is walked repeatedly, only
+ * ever widening types, until nothing changes. Parameters nobody passes
+ * anything to are typed from how they're used (e.g. `a - b` makes both
+ * numbers).
+ *
+ * Annotated declarations keep the type they were given. Once inference
+ * settles, a last pass checks what flows into them and reports mismatches.
+ */
+export class TypeInferrer implements ExprVisitor<WispType>, StmtVisitor<void> {
+  readonly errors: Diagnostic[] = [];
+  private types = new Map<Token, WispType>();
+  // Declarations with an annotation, and functions with a return annotation
+  private declared = new Map<Token, WispType>();
+  private declaredReturns = new Map<Function | Lambda, WispType>();
+  private functions = new Map<Token, Function>();
+  private returnTypes = new Map<Function | Lambda | On, WispType>();
+  // Event handlers are on it too, so their returns aren't taken for the
+  // enclosing function's
+  private functionStack: (Function | Lambda | On)[] = [];
+  // Names assigned through self, by the name token of the class
+  private selfFields = new Map<Token, string[]>();
+  private classes = new Map<Token, Class>();
+  private currentClass: Class | null = null;
+  // Async functions by their name token (a lambda's start), and calls to
+  // await by their paren, so both work for copies made by the optimizer
+  private asyncFunctions = new WeakSet<Token>();
+  private awaitedCalls = new WeakSet<Token>();
+  // Types of the elements and fields of list and object literals, checked
+  // one by one against declared types since mixed ones unify to any
+  private elementTypes = new WeakMap<Expr, WispType>();
+  private changed = false;
+  private checking = false;
+
+  // resolutions maps name uses to their declarations, as built by Resolver
+  constructor(private resolutions: Map<Token, Token>, private bindings: Bindings = SPRITE_ENGINE) {}
+
+  infer(statements: Stmt[]): TypeInfo {
+    // Widening always terminates, the cap is only a safety net
+    for (let pass = 0; pass < 50; pass++) {
+      this.changed = false;
+      statements.forEach(stmt => stmt.accept(this));
+      if (!this.changed) break;
+    }
+
+    this.checking = true;
+    statements.forEach(stmt => stmt.accept(this));
+    this.checking = false;
+
+    return {
+      typeOf: declaration => this.types.get(declaration) ?? UNKNOWN,
+      // By name, so it works for copies of the tree made by the optimizer
+      returnTypeOf: fn => this.finalReturnType(this.functions.get(fn.name) ?? fn),
+      isAsync: fn => this.asyncFunctions.has(fn instanceof Function ? fn.name : fn.start),
+      awaits: call => this.awaitedCalls.has(call.paren),
+      undeclaredFieldsOf: cls => {
+        const members = this.membersOf(this.classes.get(cls.name) ?? cls);
+        return (this.selfFields.get(cls.name) ?? []).filter(name => !members.includes(name));
+      }
+    };
+  }
+
+  // Expression visitors
+  visitBinaryExpr(expr: Binary): WispType {
+    const left = this.typeOf(expr.left);
+    const right = this.typeOf(expr.right);
+
+    switch (expr.operator.type) {
+      case TokenType.PLUS:
+        if (left.kind === 'string' || right.kind === 'string') return STRING;
+        if (left.kind === 'number') this.hint(expr.right, NUMBER);
+        if (right.kind === 'number') this.hint(expr.left, NUMBER);
+        if (left.kind === 'unknown') return right.kind === 'number' ? NUMBER : UNKNOWN;
+        if (right.kind === 'unknown') return left.kind === 'number' ? NUMBER : UNKNOWN;
+        return left.kind === 'number' && right.kind === 'number' ? NUMBER : ANY;
+      case TokenType.MINUS:
+      case TokenType.MULTIPLY:
+      case TokenType.DIVIDE:
+      case TokenType.MODULO:
+      case TokenType.FLOOR_DIVIDE:
+      case TokenType.POWER:
+      case TokenType.BIT_AND:
+      case TokenType.BIT_OR:
+      case TokenType.BIT_XOR:
+      case TokenType.SHIFT_LEFT:
+      case TokenType.SHIFT_RIGHT:
+        this.hint(expr.left, NUMBER);
+        this.hint(expr.right, NUMBER);
+        return NUMBER;
+      case TokenType.GREATER:
+      case TokenType.GREATER_EQUAL:
+      case TokenType.LESS:
+      case TokenType.LESS_EQUAL:
+        // Strings compare too, so only a number on the other side tells us anything
+        if (left.kind === 'number') this.hint(expr.right, NUMBER);
+        if (right.kind === 'number') this.hint(expr.left, NUMBER);
+        return BOOLEAN;
+      case TokenType.EQUAL_EQUAL:
+      case TokenType.BANG_EQUAL:
+        return BOOLEAN;
+      default:
+        return ANY;
+    }
+  }
+
+  visitUnaryExpr(expr: Unary): WispType {
+    this.typeOf(expr.right);
+    if (expr.operator.type === TokenType.MINUS) {
+      this.hint(expr.right, NUMBER);
+      return NUMBER;
+    }
+    return BOOLEAN;
+  }
+
+  visitLiteralExpr(expr: Literal): WispType {
+    // A var with no initializer starts out null, which no other type allows
+    if (expr.value === null) return ANY;
+    if (typeof expr.value === 'number') return NUMBER;
+    if (typeof expr.value === 'string') return STRING;
+    if (typeof expr.value === 'boolean') return BOOLEAN;
+
+    if (Array.isArray(expr.value)) {
+      return listOf(expr.value.reduce((type: WispType, element: Expr) => unify(type, this.element(element)), UNKNOWN));
+    }
+
+    if (expr.value instanceof Map) {
+      const fields = new Map<string, WispType>();
+      expr.value.forEach((value: Expr, key: string) => fields.set(key, this.element(value)));
+      return objectOf(fields);
+    }
+
+    return ANY;
+  }
+
+  visitVariableExpr(expr: Variable): WispType {
+    const declaration = this.resolutions.get(expr.name);
+    // Host globals, and functions used as values
+    if (!declaration || this.functions.has(declaration)) return ANY;
+    return this.types.get(declaration) ?? UNKNOWN;
+  }
+
+  visitCallExpr(expr: Call): WispType {
+    const args = expr.args.map(arg => this.typeOf(arg));
+
+    if (!(expr.callee instanceof Variable)) {
+      // The object's type, for calls on it that can't suspend
+      const object = expr.callee instanceof Get ? this.typeOf(expr.callee.object) : this.typeOf(expr.callee);
+      const method = expr.callee instanceof Get && expr.callee.object instanceof Self && this.currentClass
+        ? this.methodOf(this.currentClass, expr.callee.name.lexeme)
+        : null;
+      if (method) {
+        if (this.asyncFunctions.has(method.name)) this.suspend(expr);
+      } else if (!this.isSynchronous(expr.callee, object)) {
+        this.awaitInAsyncCode(expr);
+      }
+      return ANY;
+    }
+
+    const declaration = this.resolutions.get(expr.callee.name);
+    const fn = declaration && this.functions.get(declaration);
+    if (fn) {
+      fn.params.forEach((param, i) => {
+        if (i >= args.length) return;
+        this.widen(param, args[i]);
+        this.check(expr.args[i], args[i], param, expr.paren, `parameter '${param.lexeme}' of '${fn.name.lexeme}'`);
+      });
+      if (this.asyncFunctions.has(fn.name)) this.suspend(expr);
+      return this.returnTypes.has(fn) || this.declaredReturns.has(fn) ? this.finalReturnType(fn) : UNKNOWN;
+    }
+
+    // A var or parameter could hold a lambda that waits
+    if (declaration) {
+      this.awaitInAsyncCode(expr);
+      return ANY;
+    }
+
+    const binding = functionBinding(this.bindings, expr.callee.name.lexeme);
+    if (!binding) return ANY;
+    if (binding.suspends) this.suspend(expr);
+    return binding.returns ?? ANY;
+  }
+
+  visitGetExpr(expr: Get): WispType {
+    const object = this.typeOf(expr.object);
+    if (object.kind === 'object') return object.fields.get(expr.name.lexeme) ?? ANY;
+    if ((object.kind === 'list' || object.kind === 'string') && expr.name.lexeme === 'length') return NUMBER;
+    return ANY;
+  }
+
+  visitAssignExpr(expr: Assign): WispType {
+    const value = this.typeOf(expr.value);
+    const declaration = this.resolutions.get(expr.name);
+    if (declaration) {
+      this.widen(declaration, value);
+      this.check(expr.value, value, declaration, expr.name, `'${expr.name.lexeme}'`);
+    }
+    return value;
+  }
+
+  visitSetExpr(expr: Set): WispType {
+    const object = this.typeOf(expr.object);
+    const value = this.typeOf(expr.value);
+
+    if (expr.object instanceof Self && this.currentClass) {
+      const fields = this.selfFields.get(this.currentClass.name) ?? [];
+      if (!fields.includes(expr.name.lexeme)) fields.push(expr.name.lexeme);
+      this.selfFields.set(this.currentClass.name, fields);
+    }
+
+    // Fields of a declared object type are fixed
+    const declaration = expr.object instanceof Variable && this.resolutions.get(expr.object.name);
+    if (declaration && this.declared.has(declaration) && object.kind === 'object') {
+      const field = object.fields.get(expr.name.lexeme);
+      if (!this.checking) return value;
+      if (!field) {
+        this.report(expr.name, DiagnosticCode.UnknownField,
+          `'${expr.name.lexeme}' is not a field of ${formatType(object)}.`);
+      } else if (!this.fits(expr.value, value, field)) {
+        this.report(expr.name, DiagnosticCode.TypeMismatch,
+          `Can't assign ${formatType(value)} to field '${expr.name.lexeme}' of type ${formatType(field)}.`);
+      }
+      return value;
+    }
+
+    // Setting a field on a local object literal changes its shape
+    if (expr.object instanceof Variable && object.kind === 'object') {
+      const declaration = this.resolutions.get(expr.object.name);
+      if (declaration) {
+        const fields = new Map(object.fields);
+        fields.set(expr.name.lexeme, unify(fields.get(expr.name.lexeme) ?? UNKNOWN, value));
+        // A field the literal didn't have can't be typed, so this widens to any
+        this.widen(declaration, object.fields.has(expr.name.lexeme) ? objectOf(fields) : ANY);
+      }
+    }
+
+    return value;
+  }
+
+  visitLogicalExpr(expr: Logical): WispType {
+    // and/or evaluate to one of their operands
+    return unify(this.typeOf(expr.left), this.typeOf(expr.right));
+  }
+
+  visitIndexExpr(expr: Index): WispType {
+    const object = this.typeOf(expr.object);
+    this.typeOf(expr.index);
+    if (object.kind === 'list') return object.element;
+    if (object.kind === 'string') return STRING;
+    // Keys only known at runtime don't fit an object shape
+    if (object.kind === 'object') this.widenTarget(expr.object, ANY);
+    return ANY;
+  }
+
+  visitIndexSetExpr(expr: IndexSet): WispType {
+    const object = this.typeOf(expr.object);
+    this.typeOf(expr.index);
+    const value = this.typeOf(expr.value);
+    if (object.kind === 'list') {
+      this.widenTarget(expr.object, listOf(value));
+      if (this.checking && !this.fits(expr.value, value, object.element)) {
+        this.report(expr.bracket, DiagnosticCode.TypeMismatch,
+          `Can't store ${formatType(value)} in a ${formatType(object)}.`);
+      }
+    }
+    if (object.kind === 'object') this.widenTarget(expr.object, ANY);
+    return value;
+  }
+
+  visitTemplateExpr(expr: Template): WispType {
+    expr.expressions.forEach(part => this.typeOf(part));
+    return STRING;
+  }
+
+  // Function values aren't tracked, so whatever holds one is any
+  visitLambdaExpr(expr: Lambda): WispType {
+    this.inferFunction(expr, expr.start);
+    return ANY;
+  }
+
+  // Neither are instances: their fields can be set from anywhere
+  visitNewExpr(expr: New): WispType {
+    this.typeOf(expr.callee);
+    expr.args.forEach(arg => this.typeOf(arg));
+    return ANY;
+  }
+
+  visitSelfExpr(expr: Self): WispType {
+    return ANY;
+  }
+
+  visitSuperExpr(expr: Super): WispType {
+    return ANY;
+  }
+
+  // Statement visitors
+  visitVarStmt(stmt: Var): void {
+    const type = this.typeOf(stmt.initializer);
+    if ((stmt as any).isGlobal) return;
+
+    if (stmt.type) this.declare(stmt.name, fromAnnotation(stmt.type));
+    this.widen(stmt.name, type);
+    this.check(stmt.initializer, type, stmt.name, stmt.name, `'${stmt.name.lexeme}'`);
+  }
+
+  visitExpressionStmt(stmt: Expression): void {
+    this.typeOf(stmt.expression);
+  }
+
+  visitPrintStmt(stmt: Print): void {
+    this.typeOf(stmt.expression);
+  }
+
+  visitFunctionStmt(stmt: Function): void {
+    this.functions.set(stmt.name, stmt);
+    this.inferFunction(stmt, stmt.name);
+  }
+
+  visitReturnStmt(stmt: Return): void {
+    const type = stmt.value ? this.typeOf(stmt.value) : VOID;
+    const fn = this.functionStack[this.functionStack.length - 1];
+    if (!fn) return;
+
+    const declared = !(fn instanceof On) && this.declaredReturns.get(fn);
+    if (declared) {
+      if (!this.checking) return;
+      if (declared.kind === 'void' && stmt.value) {
+        this.report(stmt.keyword, DiagnosticCode.TypeMismatch, `${capitalize(this.describeFunction(fn))} returns void, so it can't return a value.`);
+      } else if (declared.kind !== 'void' && declared.kind !== 'any' && !stmt.value) {
+        this.report(stmt.keyword, DiagnosticCode.MissingReturn, `${capitalize(this.describeFunction(fn))} must return a ${formatType(declared)}.`);
+      } else if (stmt.value && !this.fits(stmt.value, type, declared)) {
+        this.report(stmt.keyword, DiagnosticCode.TypeMismatch,
+          `Can't return ${formatType(type)} from ${this.describeFunction(fn)}, which returns ${formatType(declared)}.`);
+      }
+      return;
+    }
+
+    const current = this.returnTypes.get(fn);
+    const next = capDepth(current ? unify(current, type) : type);
+    if (!current || !sameType(current, next)) {
+      this.returnTypes.set(fn, next);
+      this.changed = true;
+    }
+  }
+
+  visitIfStmt(stmt: If): void {
+    this.typeOf(stmt.condition);
+    stmt.thenBranch.forEach(s => s.accept(this));
+    for (const branch of stmt.elseifBranches) {
+      this.typeOf(branch.condition);
+      branch.body.forEach(s => s.accept(this));
+    }
+    stmt.elseBranch?.forEach(s => s.accept(this));
+  }
+
+  visitWhileStmt(stmt: While): void {
+    this.typeOf(stmt.condition);
+    stmt.body.forEach(s => s.accept(this));
+  }
+
+  visitForStmt(stmt: For): void {
+    stmt.initializer?.accept(this);
+    if (stmt.condition) this.typeOf(stmt.condition);
+    if (stmt.increment) this.typeOf(stmt.increment);
+    stmt.body.forEach(s => s.accept(this));
+  }
+
+  visitForInStmt(stmt: ForIn): void {
+    const iterable = this.typeOf(stmt.iterable);
+    this.widen(stmt.indexVar, NUMBER);
+    if (iterable.kind === 'list') {
+      this.widen(stmt.itemVar, iterable.element);
+    } else {
+      this.widen(stmt.itemVar, iterable.kind === 'string' ? STRING : ANY);
+    }
+    stmt.body.forEach(s => s.accept(this));
+  }
+
+  visitBreakStmt(stmt: Break): void {}
+
+  visitContinueStmt(stmt: Continue): void {}
+
+  // Other scripts aren't inferred along with this one, so what they export could be anything
+  visitImportStmt(stmt: Import): void {
+    stmt.names.forEach(name => this.declare(name, ANY));
+  }
+
+  visitExportStmt(stmt: Export): void {
+    stmt.declaration.accept(this);
+  }
+
+  // Fields are any unless annotated, for the same reason instances are
+  visitClassStmt(stmt: Class): void {
+    this.classes.set(stmt.name, stmt);
+    this.declare(stmt.name, ANY);
+    if (stmt.superclass) this.typeOf(stmt.superclass);
+
+    const enclosingClass = this.currentClass;
+    this.currentClass = stmt;
+    for (const field of stmt.fields) {
+      const type = this.typeOf(field.initializer);
+      this.declare(field.name, field.type ? fromAnnotation(field.type) : ANY);
+      this.check(field.initializer, type, field.name, field.name, `'${field.name.lexeme}'`);
+    }
+    for (const method of stmt.methods) {
+      this.functions.set(method.name, method);
+      this.inferFunction(method, method.name);
+    }
+    this.currentClass = enclosingClass;
+  }
+
+  visitOnStmt(stmt: On): void {
+    const args = stmt.args.map(arg => this.typeOf(arg));
+    const event = eventBinding(this.bindings, stmt.event.lexeme);
+    if (this.checking && event) {
+      event.args.forEach(({ name, type }, i) => {
+        if (i < args.length && !isAssignable(args[i], type)) {
+          this.report(stmt.event, DiagnosticCode.TypeMismatch,
+            `The ${name} of '${stmt.event.lexeme}' must be a ${formatType(type)}, not ${formatType(args[i])}.`);
+        }
+      });
+    }
+
+    this.functionStack.push(stmt);
+    stmt.body.forEach(s => s.accept(this));
+    this.functionStack.pop();
+  }
+
+  private typeOf(expr: Expr): WispType {
+    return expr.accept(this);
+  }
+
+  private declare(declaration: Token, type: WispType): void {
+    this.declared.set(declaration, type);
+    if (!sameType(this.types.get(declaration) ?? UNKNOWN, type)) {
+      this.types.set(declaration, type);
+      this.changed = true;
+    }
+  }
+
+  private widen(declaration: Token, type: WispType): void {
+    if (this.declared.has(declaration)) return;
+    const current = this.types.get(declaration);
+    const next = capDepth(current ? unify(current, type) : type);
+    if (!current || !sameType(current, next)) {
+      this.types.set(declaration, next);
+      this.changed = true;
+    }
+  }
+
+  private widenTarget(expr: Expr, type: WispType): void {
+    const declaration = expr instanceof Variable && this.resolutions.get(expr.name);
+    if (declaration) this.widen(declaration, type);
+  }
+
+  // Reports a value that doesn't fit the annotated declaration it flows into
+  private check(value: Expr, type: WispType, declaration: Token, at: Token, target: string): void {
+    const declared = this.declared.get(declaration);
+    if (!this.checking || !declared || this.fits(value, type, declared)) return;
+    this.report(at, DiagnosticCode.TypeMismatch,
+      `Can't assign ${formatType(type)} to ${target} of type ${formatType(declared)}.`);
+  }
+
+  // Whether a value of the given type fits a declared type. The elements and
+  // fields of a list or object literal have to fit one by one.
+  private fits(value: Expr, type: WispType, declared: WispType): boolean {
+    if (!isAssignable(type, declared)) return false;
+    if (!(value instanceof Literal)) return true;
+
+    const fitsElement = (element: Expr, elementType: WispType) =>
+      this.fits(element, this.elementTypes.get(element) ?? ANY, elementType);
+    if (Array.isArray(value.value) && declared.kind === 'list') {
+      return value.value.every((element: Expr) => fitsElement(element, declared.element));
+    }
+    if (value.value instanceof Map && declared.kind === 'object') {
+      return [...value.value].every(([key, field]: [string, Expr]) => fitsElement(field, declared.fields.get(key) ?? ANY));
+    }
+    return true;
+  }
+
+  // The type of an element or field of a literal, kept for fits()
+  private element(expr: Expr): WispType {
+    const type = this.typeOf(expr);
+    this.elementTypes.set(expr, type);
+    return type;
+  }
+
+  private report(token: Token, code: DiagnosticCode, message: string): void {
+    this.errors.push(createDiagnostic(code, message, tokenSpan(token)));
+  }
+
+  // Types a variable from how it's used, if nothing else has typed it yet
+  private hint(expr: Expr, type: WispType): void {
+    if (!(expr instanceof Variable)) return;
+    const declaration = this.resolutions.get(expr.name);
+    if (declaration && this.types.get(declaration)?.kind === 'unknown') {
+      this.widen(declaration, type);
+    }
+  }
+
+  // Parameters and returns of a function, whose errors point at `at`
+  private inferFunction(fn: Function | Lambda, at: Token): void {
+    fn.params.forEach((param, i) => {
+      const annotation = fn.paramTypes[i];
+      if (annotation) this.declare(param, fromAnnotation(annotation));
+      this.widen(param, UNKNOWN);
+    });
+    if (fn.returnType) this.declaredReturns.set(fn, fromAnnotation(fn.returnType));
+
+    const returnType = this.declaredReturns.get(fn);
+    if (this.checking && returnType && returnType.kind !== 'void' && returnType.kind !== 'any' && !this.alwaysReturns(fn.body)) {
+      this.report(at, DiagnosticCode.MissingReturn,
+        `${capitalize(this.describeFunction(fn))} must return a ${formatType(returnType)} on every path.`);
+    }
+
+    this.functionStack.push(fn);
+    fn.body.forEach(s => s.accept(this));
+    this.functionStack.pop();
+  }
+
+  // Awaits a call that suspends, which makes the function it's in async, and
+  // on later passes the calls to that function too. Top-level calls are
+  // awaited at the top level of the generated module.
+  private suspend(call: Call): void {
+    this.awaitedCalls.add(call.paren);
+    const fn = this.functionStack[this.functionStack.length - 1];
+    if (!fn || fn instanceof On) return;
+
+    const token = fn instanceof Function ? fn.name : fn.start;
+    if (!this.asyncFunctions.has(token)) {
+      this.asyncFunctions.add(token);
+      this.changed = true;
+    }
+    if (this.checking && fn instanceof Function && fn.name.lexeme === 'init' && this.currentClass?.methods.includes(fn)) {
+      this.report(call.paren, DiagnosticCode.AsyncInit, "'init' can't wait, since constructors can't be async.");
+    }
+  }
+
+  // Awaits a call that may or may not suspend, like a method of an instance
+  // or a lambda in a var, when the function it's in is async anyway. It
+  // doesn't make a function async, so a function only calling these isn't
+  // awaited. Async is settled by the time the tree is checked.
+  private awaitInAsyncCode(call: Call): void {
+    if (!this.checking) return;
+    const fn = this.functionStack[this.functionStack.length - 1];
+    if (!fn) return;
+    if (fn instanceof On || this.asyncFunctions.has(fn instanceof Function ? fn.name : fn.start) || this.isHook(fn)) {
+      this.awaitedCalls.add(call.paren);
+    }
+  }
+
+  // Hooks are handed to the engine as async functions
+  private isHook(fn: Function | Lambda): boolean {
+    return fn instanceof Function && !(fn as any).isGlobal && !this.currentClass?.methods.includes(fn)
+      && hookBinding(this.bindings, fn.name.lexeme) !== null;
+  }
+
+  // Calls the engine's own methods, like sprite.say(), and methods of lists
+  // and strings never suspend: everything in the engine that waits is a
+  // function binding. Script global functions, under globals, may.
+  private isSynchronous(callee: Expr, object: WispType): boolean {
+    if (!(callee instanceof Get)) return false;
+    if (callee.object instanceof Variable && !this.resolutions.has(callee.object.name)) {
+      return callee.object.name.lexeme !== 'globals';
+    }
+    return object.kind === 'list' || object.kind === 'string' || object.kind === 'number' || object.kind === 'boolean';
+  }
+
+  // A method of a class or of the superclasses declared in the script
+  private methodOf(cls: Class, name: string): Function | null {
+    const method = cls.methods.find(method => method.name.lexeme === name);
+    if (method) return method;
+    const declaration = cls.superclass && this.resolutions.get(cls.superclass.name);
+    const superclass = declaration && this.classes.get(declaration);
+    return superclass ? this.methodOf(superclass, name) : null;
+  }
+
+  // Names a class and the superclasses declared in the script give its instances
+  private membersOf(cls: Class): string[] {
+    const members = [...cls.fields, ...cls.methods].map(member => member.name.lexeme);
+    const declaration = cls.superclass && this.resolutions.get(cls.superclass.name);
+    const superclass = declaration && this.classes.get(declaration);
+    return superclass ? [...members, ...this.membersOf(superclass), ...this.selfFields.get(superclass.name) ?? []] : members;
+  }
+
+  private describeFunction(fn: Function | Lambda): string {
+    return fn instanceof Function ? `'${fn.name.lexeme}'` : 'this function';
+  }
+
+  private finalReturnType(fn: Function | Lambda): WispType {
+    const declared = this.declaredReturns.get(fn);
+    if (declared) return declared;
+    const type = this.returnTypes.get(fn);
+    if (!type) return VOID;
+    // TypeScript rejects a typed function that can fall off its end
+    if (type.kind !== 'void' && !this.alwaysReturns(fn.body)) return ANY;
+    return type;
+  }
+
+  private alwaysReturns(statements: Stmt[]): boolean {
+    return statements.some(stmt => {
+      if (stmt instanceof Return) return true;
+      if (stmt instanceof If) {
+        return stmt.elseBranch !== null &&
+          this.alwaysReturns(stmt.thenBranch) &&
+          stmt.elseifBranches.every(branch => this.alwaysReturns(branch.body)) &&
+          this.alwaysReturns(stmt.elseBranch);
+      }
+      return false;
+    });
+  }
+}
@@ -0,0 +1,79 @@
+import { transpile } from './transpiler';
+
+console.log('=== Testing Type Inference ===\n');
+
+function show(code: string) {
+  console.log('Input:');
+  console.log(code);
+  console.log('Output:');
+  console.log(transpile(code));
+  console.log('---\n');
+}
+
+// Test 1: Literals, lists and objects
+console.log('Test 1: Initializers');
+show(`
+var score = 0
+var name = "Wisp"
+var alive = true
+var path = [[0, 0], [1, 2]]
+var stats = {hp: 10, label: "orc"}
+var empty = []
+var nothing
+`);
+
+// Test 2: Parameters are typed from call sites, return values from returns
+console.log('Test 2: Functions');
+show(`
+func greet(who)
+  return "Hello " + who
+end
+func move(dx, dy)
+  sprite.x += dx
+  sprite.y += dy
+end
+print(greet("Ana"))
+move(1, 2)
+`);
+
+// Test 3: Parameters nobody passes anything to are typed from use
+console.log('Test 3: Types from use');
+show(`
+func distance(x1, x2)
+  return abs(x2 - x1)
+end
+func echo(value)
+  return value
+end
+`);
+
+// Test 4: Conflicting values widen to any
+console.log('Test 4: Widening');
+show(`
+var value = 1
+value = "one"
+var items = [1, 2]
+items[0] = "first"
+var point = {x: 1}
+point.y = 2
+func check(n)
+  if (n > 0)
+    return true
+  end
+end
+var ok = check(1)
+`);
+
+// Test 5: Recursion and loop variables
+console.log('Test 5: Recursion and loops');
+show(`
+func fact(n)
+  if (n <= 1)
+    return 1
+  end
+  return n * fact(n - 1)
+end
+for (i, word in ["a", "b"])
+  print(word + i)
+end
+`);